@@ -1,21 +1,15 @@
-import { BrowserRouter, Routes, Route, useLocation } from 'react-router-dom';
-import { lazy, Suspense, useEffect } from 'react';
+import { RouterProvider, useLocation, useNavigation } from 'react-router-dom';
+import { useEffect } from 'react';
 import { MotionConfig } from 'motion/react';
 import { Layout } from './components/Layout';
 import { AuthProvider } from './contexts/AuthContext';
 import { FavoritesProvider } from './contexts/FavoritesContext';
-
-// Lazy loading das páginas para reduzir bundle inicial
-const Home = lazy(() => import('./pages/Home').then(m => ({ default: m.Home })));
-const Products = lazy(() => import('./pages/Products').then(m => ({ default: m.Products })));
-const ProductDetails = lazy(() => import('./pages/ProductDetails').then(m => ({ default: m.ProductDetails })));
-const About = lazy(() => import('./pages/About').then(m => ({ default: m.About })));
-const Contact = lazy(() => import('./pages/Contact').then(m => ({ default: m.Contact })));
-const Admin = lazy(() => import('./pages/Admin').then(m => ({ default: m.Admin })));
-const Favorites = lazy(() => import('./pages/Favorites').then(m => ({ default: m.Favorites })));
+import { BagProvider } from './contexts/BagContext';
+import { useNavigationStateManager } from './hooks/useNavigationState';
+import type { AppRouter } from './routes/router';
 
 // Loading fallback component
-const PageLoader = () => (
+export const PageLoader = () => (
   <div style={{
     display: 'flex',
     justifyContent: 'center',
@@ -44,13 +38,9 @@ const PageLoader = () => (
   </div>
 );
 
-const ScrollToTop = () => {
-  const { pathname } = useLocation();
-
-  useEffect(() => {
-    window.scrollTo(0, 0);
-  }, [pathname]);
-
+// Rolagem por entrada do histórico: topo em rotas novas, posição salva ao voltar/avançar
+const NavigationStateManager = () => {
+  useNavigationStateManager();
   return null;
 };
 
@@ -83,32 +73,55 @@ const TitleUpdater = () => {
   return null;
 };
 
-function App() {
+// Barra de progresso enquanto os loaders/código da próxima página carregam
+const NavigationProgress = () => {
+  const navigation = useNavigation();
+  if (navigation.state === 'idle') return null;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      height: '3px',
+      zIndex: 2000,
+      overflow: 'hidden',
+      background: 'rgba(255, 89, 94, 0.15)',
+    }}>
+      <div style={{
+        width: '40%',
+        height: '100%',
+        background: '#FF595E',
+        animation: 'navigation-progress 1s ease-in-out infinite',
+      }} />
+      <style>{`@keyframes navigation-progress { from { transform: translateX(-100%); } to { transform: translateX(250%); } }`}</style>
+    </div>
+  );
+};
+
+export const Root = () => (
+  <>
+    <NavigationStateManager />
+    <TitleUpdater />
+    <NavigationProgress />
+    <Layout />
+  </>
+);
+
+
+function App({ router }: { router: AppRouter }) {
   return (
     <MotionConfig reducedMotion="user">
       <AuthProvider>
         <FavoritesProvider>
-          <BrowserRouter>
-            <ScrollToTop />
-            <TitleUpdater />
-            <Suspense fallback={<PageLoader />}>
-              <Routes>
-                <Route path="/" element={<Layout />}>
-                  <Route index element={<Home />} />
-                  <Route path="produtos" element={<Products />} />
-                  <Route path="produto/:id" element={<ProductDetails />} />
-                  <Route path="favoritos" element={<Favorites />} />
-                  <Route path="sobre" element={<About />} />
-                  <Route path="contato" element={<Contact />} />
-                  <Route path="admin" element={<Admin />} />
-                </Route>
-              </Routes>
-            </Suspense>
-          </BrowserRouter>
+          <BagProvider>
+            <RouterProvider router={router} />
+          </BagProvider>
         </FavoritesProvider>
       </AuthProvider>
     </MotionConfig>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
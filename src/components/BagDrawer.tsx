@@ -0,0 +1,232 @@
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'motion/react';
+import { Link } from 'react-router-dom';
+import { IconClose, IconDelete, IconMinus, IconPlus, IconShopping, IconWhatsapp } from './Icons';
+import { useBag } from '../hooks/useBag';
+import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { MAX_ITEM_QUANTITY, MAX_NOTE_LENGTH } from '../services/shoppingBag';
+import { useShippingEstimate } from '../hooks/useShippingEstimate';
+import { useStoreSettings } from '../hooks/useStoreSettings';
+import { buildBagOrderMessage, fitsWhatsAppLink, getWhatsAppLink } from '../utils/whatsapp';
+import { ShippingEstimator } from './ShippingEstimator';
+import styles from './BagDrawer.module.css';
+
+/**
+ * Rodapé com frete, totais e o pedido pelo WhatsApp
+ * Montado só com a gaveta aberta: o CEP salvo em outra página já aparece ao abrir
+ */
+const BagCheckout = () => {
+  const { items, itemCount, subtotal, clearBag } = useBag();
+  const shipping = useShippingEstimate(itemCount);
+  const { estimate } = shipping;
+  // Número e abertura da mensagem vêm das configurações da loja
+  useStoreSettings();
+
+  const message = buildBagOrderMessage(items, estimate);
+  // Nem com os itens resumidos o pedido cabe no link: o WhatsApp receberia a mensagem cortada (sem o total)
+  const fitsLink = fitsWhatsAppLink(message);
+
+  return (
+    <footer className={styles.footer}>
+      <ShippingEstimator shipping={shipping} compact />
+
+      <div className={styles.totals}>
+        <div className={styles.subtotal}>
+          <span>Subtotal ({itemCount} {itemCount === 1 ? 'item' : 'itens'})</span>
+          <span>R$ {subtotal.toFixed(2)}</span>
+        </div>
+        {estimate && (
+          <div className={styles.subtotal}>
+            <span>Frete estimado</span>
+            <span>R$ {estimate.price.toFixed(2)}</span>
+          </div>
+        )}
+        <div className={`${styles.subtotal} ${styles.total}`}>
+          <span>Total</span>
+          <strong>R$ {(subtotal + (estimate?.price ?? 0)).toFixed(2)}</strong>
+        </div>
+      </div>
+      <p className={styles.hint}>
+        {estimate ? 'O frete final é confirmado pelo WhatsApp.' : 'Informe o CEP para incluir o frete no pedido.'}
+      </p>
+      {fitsLink ? (
+        <a
+          href={getWhatsAppLink(message)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={styles.checkoutButton}
+        >
+          <IconWhatsapp size={22} />
+          Finalizar pedido pelo WhatsApp
+        </a>
+      ) : (
+        <>
+          <p className={styles.warning} role="alert">
+            O pedido ficou grande demais para uma única mensagem do WhatsApp.
+            Remova alguns itens (ou encurte as observações) e envie o restante em outro pedido.
+          </p>
+          <button type="button" className={styles.checkoutButton} disabled>
+            <IconWhatsapp size={22} />
+            Finalizar pedido pelo WhatsApp
+          </button>
+        </>
+      )}
+      <button className={styles.clearButton} onClick={clearBag}>
+        Esvaziar sacola
+      </button>
+      <p className={styles.hint}>A sacola fica salva apenas neste navegador.</p>
+    </footer>
+  );
+};
+
+/**
+ * Gaveta lateral da sacola (aberta pela Navbar ou ao adicionar um produto)
+ * Ajuste de quantidades e observações; o pedido sai em uma única mensagem de WhatsApp
+ */
+export const BagDrawer = () => {
+  const {
+    items,
+    itemCount,
+    isOpen,
+    updateQuantity,
+    updateNote,
+    removeItem,
+    closeBag,
+  } = useBag();
+  const { overlayTransition, overlayVariants, spring, prefersReducedMotion } = useMobileAnimations();
+
+  // Esc fecha; a página atrás não rola enquanto a gaveta está aberta
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeBag();
+    };
+    document.body.style.overflow = 'hidden';
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.body.style.overflow = '';
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, closeBag]);
+
+  const panelMotion = prefersReducedMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 }, exit: { opacity: 0 } }
+    : { initial: { x: '100%' }, animate: { x: 0 }, exit: { x: '100%' } };
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className={styles.overlay}
+          variants={overlayVariants}
+          initial="hidden"
+          animate="visible"
+          exit="exit"
+          transition={overlayTransition}
+          onClick={closeBag}
+        >
+          <motion.aside
+            className={styles.drawer}
+            {...panelMotion}
+            transition={spring}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Sacola de compras"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <header className={styles.header}>
+              <h2>
+                <IconShopping size={22} />
+                Sua sacola
+                {itemCount > 0 && <span className={styles.headerCount}>{itemCount}</span>}
+              </h2>
+              <button className={styles.closeButton} onClick={closeBag} aria-label="Fechar sacola" autoFocus>
+                <IconClose size={20} />
+              </button>
+            </header>
+
+            {items.length === 0 ? (
+              <div className={styles.empty}>
+                <IconShopping size={48} color="#ccc" />
+                <p>Sua sacola está vazia</p>
+                <Link to="/produtos" className={styles.browseLink} onClick={closeBag}>
+                  Ver produtos
+                </Link>
+              </div>
+            ) : (
+              <>
+                <ul className={styles.list}>
+                  {items.map(item => (
+                    <li key={item.productId} className={styles.item}>
+                      <Link to={`/produto/${item.productId}`} onClick={closeBag} className={styles.thumbnail}>
+                        <img src={item.image_url || '/placeholder.jpg'} alt={item.name} loading="lazy" />
+                      </Link>
+
+                      <div className={styles.itemInfo}>
+                        <div className={styles.itemHeader}>
+                          <Link to={`/produto/${item.productId}`} onClick={closeBag} className={styles.itemName}>
+                            {item.name}
+                          </Link>
+                          <button
+                            className={styles.removeButton}
+                            onClick={() => removeItem(item.productId)}
+                            aria-label={`Remover ${item.name} da sacola`}
+                            title="Remover"
+                          >
+                            <IconDelete size={16} />
+                          </button>
+                        </div>
+
+                        <div className={styles.itemRow}>
+                          <div className={styles.stepper}>
+                            <button
+                              onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                              disabled={item.quantity <= 1}
+                              aria-label="Diminuir quantidade"
+                            >
+                              <IconMinus size={14} />
+                            </button>
+                            <span aria-live="polite">{item.quantity}</span>
+                            <button
+                              onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                              disabled={item.quantity >= MAX_ITEM_QUANTITY}
+                              aria-label="Aumentar quantidade"
+                            >
+                              <IconPlus size={14} />
+                            </button>
+                          </div>
+                          <span className={styles.itemTotal}>
+                            R$ {(item.price * item.quantity).toFixed(2)}
+                          </span>
+                        </div>
+                        {item.quantity > 1 && (
+                          <span className={styles.unitPrice}>R$ {item.price.toFixed(2)} cada</span>
+                        )}
+
+                        <input
+                          type="text"
+                          className={styles.noteInput}
+                          value={item.note}
+                          maxLength={MAX_NOTE_LENGTH}
+                          placeholder="Observação (cor, nome, tamanho...)"
+                          aria-label={`Observação para ${item.name}`}
+                          onChange={(e) => updateNote(item.productId, e.target.value)}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+
+                <BagCheckout />
+              </>
+            )}
+          </motion.aside>
+        </motion.div>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+};
+
+export default BagDrawer;
@@ -0,0 +1,440 @@
+import { useState, useEffect, useMemo, useRef, useDeferredValue, useId } from 'react';
+import type { KeyboardEvent, ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'motion/react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  IconSearch,
+  IconHome,
+  IconShopping,
+  IconUser,
+  IconMail,
+  IconHeart,
+  IconDashboard,
+  IconTag,
+  IconHistory,
+  IconAdd,
+  IconUpload,
+  IconEdit,
+  IconArrowRight,
+} from './Icons';
+import { Highlight } from './Highlight';
+import { useAuth } from '../contexts/AuthContext';
+import { productsApi, type CategoryInfo } from '../services/api';
+import { cacheTags } from '../services/cache';
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from '../services/recentSearches';
+import { useQuery } from '../hooks/useQuery';
+import { useCatalogSearch } from '../hooks/useProductSearch';
+import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { DEFAULT_FILTERS, serializeFilterParams, type ProductFilterState } from '../hooks/useProductFilters';
+import { createSearchIndex, type MatchRange } from '../utils/search';
+import type { AdminCommand, AdminLocationState } from '../routes/adminCommands';
+import styles from './CommandPalette.module.css';
+
+// Destino do item: rota (registrando o termo nas buscas recentes) ou comando do admin
+type PaletteTarget =
+  | { path: string; search?: string }
+  | { adminCommand: AdminCommand };
+
+interface PaletteItem {
+  id: string;
+  group: string;
+  label: string;
+  ranges?: MatchRange[];
+  hint?: string;
+  image?: string;
+  icon?: ReactNode;
+  target: PaletteTarget;
+}
+
+interface PageEntry {
+  path: string;
+  label: string;
+  keywords: string;
+  icon: ReactNode;
+  requires?: 'auth' | 'admin';
+}
+
+const PAGES: PageEntry[] = [
+  { path: '/', label: 'Início', keywords: 'home inicio destaques', icon: <IconHome size={18} /> },
+  { path: '/produtos', label: 'Produtos', keywords: 'catalogo colecao loja', icon: <IconShopping size={18} /> },
+  { path: '/sobre', label: 'Sobre', keywords: 'quem somos historia', icon: <IconUser size={18} /> },
+  { path: '/contato', label: 'Contato', keywords: 'whatsapp instagram email telefone', icon: <IconMail size={18} /> },
+  { path: '/favoritos', label: 'Favoritos', keywords: 'salvos curtidos', icon: <IconHeart size={18} />, requires: 'auth' },
+  { path: '/admin', label: 'Admin', keywords: 'painel gerenciar dashboard', icon: <IconDashboard size={18} />, requires: 'admin' },
+];
+
+const MAX_PRODUCTS = 5;
+const MAX_CATEGORIES = 4;
+const MAX_EDIT_ACTIONS = 3;
+const EDIT_PREFIX = 'Editar ';
+
+// Evento usado pela Navbar (e outras páginas) para abrir a paleta
+const OPEN_EVENT = 'openCommandPalette';
+
+const productsUrl = (filters: Partial<ProductFilterState>) =>
+  `/produtos?${serializeFilterParams({ ...DEFAULT_FILTERS, ...filters })}`;
+
+/**
+ * Paleta de comandos global (Ctrl/Cmd+K)
+ * Busca produtos, categorias, subcategorias e páginas; para admins, também ações do painel
+ */
+export const CommandPalette = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isAuthenticated, isAdmin } = useAuth();
+  const { overlayTransition, overlayVariants, modalVariants, spring } = useMobileAnimations();
+  const listId = useId();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  const previousFocusRef = useRef<HTMLElement | null>(null);
+
+  const open = () => {
+    previousFocusRef.current = document.activeElement as HTMLElement | null;
+    setQuery('');
+    setActiveIndex(0);
+    setRecentSearches(getRecentSearches());
+    setIsOpen(true);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    // Devolver o foco para onde estava antes de abrir
+    previousFocusRef.current?.focus?.();
+  };
+
+  // Atalho global e evento de abertura (sempre com o estado mais recente)
+  const isOpenRef = useRef(isOpen);
+  const openRef = useRef(open);
+  const closeRef = useRef(close);
+  useEffect(() => {
+    isOpenRef.current = isOpen;
+    openRef.current = open;
+    closeRef.current = close;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        if (isOpenRef.current) closeRef.current();
+        else openRef.current();
+      }
+    };
+    const handleOpen = () => openRef.current();
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener(OPEN_EVENT, handleOpen);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener(OPEN_EVENT, handleOpen);
+    };
+  }, []);
+
+  // Prevenir scroll do body quando aberta
+  useEffect(() => {
+    if (!isOpen) return;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  // Dados carregados só com a paleta aberta (normalmente já estão no cache)
+  const deferredQuery = useDeferredValue(query);
+  const { results: productResults } = useCatalogSearch(deferredQuery, { enabled: isOpen });
+  const { data: categories } = useQuery<CategoryInfo[]>(
+    ['products', 'categories'],
+    (context) => productsApi.getCategories(true, context),
+    { enabled: isOpen, tags: [cacheTags.categories] }
+  );
+
+  const pages = useMemo(() => PAGES.filter(page =>
+    !page.requires || (page.requires === 'auth' ? isAuthenticated : isAdmin)
+  ), [isAuthenticated, isAdmin]);
+
+  const indexes = useMemo(() => {
+    const subcategories = Array.from(new Set((categories ?? []).flatMap(c => c.subcategories))).sort();
+    return {
+      pages: createSearchIndex(pages, [
+        { name: 'label', get: p => p.label, weight: 2 },
+        { name: 'keywords', get: p => p.keywords, weight: 1 },
+      ]),
+      categories: createSearchIndex(categories ?? [], [{ name: 'label', get: c => c.category, weight: 1 }]),
+      subcategories: createSearchIndex(subcategories, [{ name: 'label', get: s => s, weight: 1 }]),
+    };
+  }, [pages, categories]);
+
+  const term = deferredQuery.trim();
+
+  const go = (path: string, search?: string) => {
+    if (search) addRecentSearch(search);
+    close();
+    navigate(path);
+  };
+
+  const runAdminCommand = (adminCommand: AdminCommand) => {
+    close();
+    const state: AdminLocationState = { adminCommand };
+    // Já no admin: substituir a entrada, o comando é só um gatilho para o modal
+    navigate('/admin', { state, replace: location.pathname === '/admin' });
+  };
+
+  const activate = (item: PaletteItem) => {
+    if ('adminCommand' in item.target) {
+      runAdminCommand(item.target.adminCommand);
+    } else {
+      go(item.target.path, item.target.search);
+    }
+  };
+
+  const items: PaletteItem[] = [];
+
+  if (!term) {
+    recentSearches.forEach(search => items.push({
+      id: `recent:${search}`,
+      group: 'Buscas recentes',
+      label: search,
+      icon: <IconHistory size={18} />,
+      target: { path: productsUrl({ search }), search },
+    }));
+    pages.forEach(page => items.push({
+      id: `page:${page.path}`,
+      group: 'Páginas',
+      label: page.label,
+      icon: page.icon,
+      target: { path: page.path },
+    }));
+  } else {
+    productResults?.slice(0, MAX_PRODUCTS).forEach(({ item, matches }) => items.push({
+      id: `product:${item.id}`,
+      group: 'Produtos',
+      label: item.name,
+      ranges: matches.name,
+      hint: `R$ ${Number(item.price || 0).toFixed(2)}`,
+      image: item.image_url || '/placeholder.jpg',
+      target: { path: `/produto/${item.id}`, search: term },
+    }));
+    indexes.categories.search(term, MAX_CATEGORIES).forEach(({ item, matches }) => items.push({
+      id: `category:${item.category}`,
+      group: 'Categorias',
+      label: item.category,
+      ranges: matches.label,
+      hint: `${item.productCount} produto${item.productCount !== 1 ? 's' : ''}`,
+      icon: <IconTag size={18} />,
+      target: { path: productsUrl({ category: item.category }), search: term },
+    }));
+    indexes.subcategories.search(term, MAX_CATEGORIES).forEach(({ item, matches }) => items.push({
+      id: `subcategory:${item}`,
+      group: 'Subcategorias',
+      label: item,
+      ranges: matches.label,
+      icon: <IconTag size={18} />,
+      target: { path: productsUrl({ subcategories: [item] }), search: term },
+    }));
+    indexes.pages.search(term).forEach(({ item, matches }) => items.push({
+      id: `page:${item.path}`,
+      group: 'Páginas',
+      label: item.label,
+      ranges: matches.label,
+      icon: item.icon,
+      target: { path: item.path },
+    }));
+  }
+
+  if (isAdmin) {
+    const actions: PaletteItem[] = [
+      {
+        id: 'action:new-product',
+        group: 'Ações',
+        label: 'Novo produto',
+        icon: <IconAdd size={18} />,
+        target: { adminCommand: { type: 'new-product' } },
+      },
+      {
+        id: 'action:bulk-upload',
+        group: 'Ações',
+        label: 'Cadastrar produtos em massa',
+        icon: <IconUpload size={18} />,
+        target: { adminCommand: { type: 'bulk-upload' } },
+      },
+    ];
+    if (term) {
+      const actionIndex = createSearchIndex(actions, [{ name: 'label', get: a => a.label, weight: 1 }]);
+      actionIndex.search(term).forEach(({ item, matches }) => items.push({ ...item, ranges: matches.label }));
+      productResults?.slice(0, MAX_EDIT_ACTIONS).forEach(({ item, matches }) => items.push({
+        id: `action:edit:${item.id}`,
+        group: 'Ações',
+        label: `${EDIT_PREFIX}${item.name}`,
+        // Trechos do nome deslocados pelo prefixo
+        ranges: matches.name?.map(([start, end]): MatchRange => [start + EDIT_PREFIX.length, end + EDIT_PREFIX.length]),
+        image: item.image_url || '/placeholder.jpg',
+        icon: <IconEdit size={18} />,
+        target: { adminCommand: { type: 'edit-product', product: item } },
+      }));
+    } else {
+      items.push(...actions);
+    }
+  }
+
+  if (term) {
+    items.push({
+      id: 'search-all',
+      group: 'Busca',
+      label: `Buscar "${term}" em todos os produtos`,
+      icon: <IconSearch size={18} />,
+      target: { path: productsUrl({ search: term }), search: term },
+    });
+  }
+
+  // Lista muda enquanto os dados chegam: manter o item ativo dentro dos limites
+  const active = items.length === 0 ? -1 : Math.min(activeIndex, items.length - 1);
+  const activeId = active >= 0 ? `${listId}-${active}` : undefined;
+
+  // Manter o item ativo visível ao navegar pelo teclado
+  useEffect(() => {
+    if (!activeId) return;
+    document.getElementById(activeId)?.scrollIntoView({ block: 'nearest' });
+  }, [activeId]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0 && event.key !== 'Escape') return;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex((active + 1) % items.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((active - 1 + items.length) % items.length);
+        break;
+      case 'Home':
+        event.preventDefault();
+        setActiveIndex(0);
+        break;
+      case 'End':
+        event.preventDefault();
+        setActiveIndex(items.length - 1);
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (items[active]) activate(items[active]);
+        break;
+      case 'Escape':
+        event.preventDefault();
+        close();
+        break;
+    }
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className={styles.overlay}
+          variants={overlayVariants}
+          initial="hidden"
+          animate="visible"
+          exit="exit"
+          transition={overlayTransition}
+          onClick={close}
+        >
+          <motion.div
+            className={styles.palette}
+            variants={modalVariants}
+            transition={spring}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Paleta de comandos"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className={styles.inputRow}>
+              <IconSearch size={20} color="#999" />
+              <input
+                autoFocus
+                type="text"
+                value={query}
+                placeholder="Buscar produtos, categorias e páginas..."
+                role="combobox"
+                aria-expanded="true"
+                aria-controls={listId}
+                aria-activedescendant={activeId}
+                aria-autocomplete="list"
+                autoComplete="off"
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setActiveIndex(0);
+                }}
+                onKeyDown={handleKeyDown}
+              />
+              <kbd className={styles.kbd}>Esc</kbd>
+            </div>
+
+            <ul id={listId} role="listbox" className={styles.results}>
+              {items.length === 0 && (
+                <li className={styles.empty}>
+                  {query.trim() !== deferredQuery.trim() ? 'Buscando...' : 'Nada encontrado'}
+                </li>
+              )}
+              {items.map((item, index) => {
+                const isFirstOfGroup = index === 0 || items[index - 1].group !== item.group;
+                return (
+                  <li key={item.id} role="presentation">
+                    {isFirstOfGroup && (
+                      <div className={styles.groupTitle} role="presentation">
+                        {item.group}
+                        {item.group === 'Buscas recentes' && (
+                          <button type="button" className={styles.groupAction} onClick={handleClearRecent}>
+                            Limpar
+                          </button>
+                        )}
+                      </div>
+                    )}
+                    <div
+                      id={`${listId}-${index}`}
+                      role="option"
+                      aria-selected={index === active}
+                      className={`${styles.item} ${index === active ? styles.active : ''}`}
+                      onMouseMove={() => index !== active && setActiveIndex(index)}
+                      onClick={() => activate(item)}
+                    >
+                      {item.image ? (
+                        <img src={item.image} alt="" className={styles.thumbnail} loading="lazy" />
+                      ) : (
+                        <span className={styles.icon}>{item.icon}</span>
+                      )}
+                      <span className={styles.label}>
+                        <Highlight text={item.label} ranges={item.ranges} />
+                      </span>
+                      {item.hint && <span className={styles.hint}>{item.hint}</span>}
+                      {index === active && <IconArrowRight size={16} className={styles.enterIcon} />}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className={styles.footer}>
+              <span><kbd className={styles.kbd}>↑</kbd><kbd className={styles.kbd}>↓</kbd> navegar</span>
+              <span><kbd className={styles.kbd}>Enter</kbd> abrir</span>
+              <span><kbd className={styles.kbd}>Esc</kbd> fechar</span>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+};
+
+export default CommandPalette;
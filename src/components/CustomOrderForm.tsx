@@ -0,0 +1,381 @@
+import { useState, useEffect, useLayoutEffect, useId, useRef } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { IconCamera, IconCheck, IconClose, IconLoader, IconMail, IconWhatsapp } from './Icons';
+import { productsApi, getErrorMessage, getFieldErrors, type CategoryInfo } from '../services/api';
+import { cacheTags } from '../services/cache';
+import {
+  CUSTOM_ORDER_LIMITS,
+  EMPTY_CUSTOM_ORDER,
+  getMinDeadline,
+  submitCustomOrder,
+  validateCustomOrder,
+  validateReferenceImage,
+  type CustomOrderDraft,
+  type CustomOrderErrors,
+  type CustomOrderSubmission,
+} from '../services/customOrders';
+import { useQuery } from '../hooks/useQuery';
+import styles from './CustomOrderForm.module.css';
+
+// Campos do backend (snake_case) -> campos do formulário
+const API_FIELDS: Record<string, keyof CustomOrderDraft> = {
+  product_type: 'productType',
+  colors: 'colors',
+  theme: 'theme',
+  quantity: 'quantity',
+  deadline: 'deadline',
+  description: 'description',
+  name: 'name',
+  email: 'email',
+  phone: 'phone',
+  reference_images: 'images',
+};
+
+const OTHER_TYPE = 'Outro';
+
+/**
+ * Formulário de pedido especial (página de contato)
+ * Envia pela API; sem a API, oferece a mensagem pronta para WhatsApp ou email
+ */
+export const CustomOrderForm = () => {
+  const formId = useId();
+  const [draft, setDraft] = useState<CustomOrderDraft>(EMPTY_CUSTOM_ORDER);
+  const [errors, setErrors] = useState<CustomOrderErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<CustomOrderSubmission | null>(null);
+  const [minDeadline] = useState(() => getMinDeadline());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: categories } = useQuery<CategoryInfo[]>(
+    ['products', 'categories'],
+    (context) => productsApi.getCategories(true, context),
+    { tags: [cacheTags.categories] }
+  );
+
+  // Prévias das imagens escolhidas, na mesma ordem de draft.images (URLs liberadas ao remover e ao sair)
+  const [previews, setPreviews] = useState<string[]>([]);
+  const previewsRef = useRef(previews);
+  useLayoutEffect(() => {
+    previewsRef.current = previews;
+  });
+  useEffect(() => () => previewsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  const isSubmitting = progress !== null;
+
+  const updateField = <K extends keyof CustomOrderDraft>(field: K, value: CustomOrderDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleImagesSelected = (files: FileList | null) => {
+    if (!files) return;
+    const selected = Array.from(files);
+    const invalid = selected.map(validateReferenceImage).find(Boolean);
+    const accepted = selected.filter(file => !validateReferenceImage(file));
+    const added = accepted.slice(0, Math.max(CUSTOM_ORDER_LIMITS.maxImages - draft.images.length, 0));
+
+    updateField('images', [...draft.images, ...added]);
+    setPreviews(prev => [...prev, ...added.map(file => URL.createObjectURL(file))]);
+    if (invalid || draft.images.length + accepted.length > CUSTOM_ORDER_LIMITS.maxImages) {
+      setErrors(prev => ({ ...prev, images: invalid ?? `Envie no máximo ${CUSTOM_ORDER_LIMITS.maxImages} imagens` }));
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleRemoveImage = (index: number) => {
+    URL.revokeObjectURL(previews[index]);
+    setPreviews(prev => prev.filter((_, i) => i !== index));
+    updateField('images', draft.images.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitError(null);
+
+    const validation = validateCustomOrder(draft);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) {
+      // Levar o usuário ao primeiro campo com erro
+      const first = Object.keys(validation)[0];
+      document.getElementById(`${formId}-${first}`)?.focus();
+      return;
+    }
+
+    setProgress(0);
+    try {
+      const submission = await submitCustomOrder(draft, {
+        onUploadProgress: ({ percent }) => setProgress(percent),
+      });
+      setResult(submission);
+      if (submission.channel === 'api') {
+        previews.forEach(url => URL.revokeObjectURL(url));
+        setPreviews([]);
+        setDraft(EMPTY_CUSTOM_ORDER);
+      }
+    } catch (error) {
+      console.error('[CustomOrder] Erro ao enviar pedido:', error);
+      const fieldErrors = getFieldErrors(error);
+      setErrors(Object.fromEntries(
+        Object.entries(fieldErrors).map(([field, message]) => [API_FIELDS[field] ?? field, message])
+      ));
+      setSubmitError(getErrorMessage(error, { fallback: 'Não foi possível enviar o pedido. Tente novamente.' }));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const fieldProps = (field: keyof CustomOrderDraft) => ({
+    id: `${formId}-${field}`,
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${formId}-${field}-error` : undefined,
+  });
+
+  const fieldError = (field: keyof CustomOrderDraft) => errors[field] && (
+    <span id={`${formId}-${field}-error`} className={styles.fieldError}>{errors[field]}</span>
+  );
+
+  if (result?.channel === 'api') {
+    return (
+      <div className={styles.done}>
+        <div className={styles.doneIcon}><IconCheck size={32} color="white" /></div>
+        <h3>Pedido enviado!</h3>
+        <p>
+          Recebemos seu pedido especial e vamos responder pelo
+          {result.order.preferred_contact === 'email' ? ' email' : ' WhatsApp'} em breve.
+        </p>
+        <button type="button" className={styles.secondaryButton} onClick={() => setResult(null)}>
+          Fazer outro pedido
+        </button>
+      </div>
+    );
+  }
+
+  const typeOptions = [...(categories ?? []).map(info => info.category), OTHER_TYPE];
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit} noValidate>
+      <div className={styles.grid}>
+        <label className={styles.field}>
+          <span>Tipo de produto *</span>
+          <select
+            {...fieldProps('productType')}
+            value={draft.productType}
+            onChange={(e) => updateField('productType', e.target.value)}
+          >
+            <option value="">Escolha...</option>
+            {typeOptions.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          {fieldError('productType')}
+        </label>
+
+        <label className={styles.field}>
+          <span>Quantidade *</span>
+          <input
+            {...fieldProps('quantity')}
+            type="number"
+            min={1}
+            max={CUSTOM_ORDER_LIMITS.maxQuantity}
+            inputMode="numeric"
+            value={draft.quantity}
+            onChange={(e) => updateField('quantity', e.target.value)}
+          />
+          {fieldError('quantity')}
+        </label>
+
+        <label className={styles.field}>
+          <span>Cores *</span>
+          <input
+            {...fieldProps('colors')}
+            type="text"
+            maxLength={CUSTOM_ORDER_LIMITS.maxText}
+            placeholder="Ex: rosa e lilás, arco-íris"
+            value={draft.colors}
+            onChange={(e) => updateField('colors', e.target.value)}
+          />
+          {fieldError('colors')}
+        </label>
+
+        <label className={styles.field}>
+          <span>Tema</span>
+          <input
+            {...fieldProps('theme')}
+            type="text"
+            maxLength={CUSTOM_ORDER_LIMITS.maxText}
+            placeholder="Ex: aniversário, chá de bebê, time"
+            value={draft.theme}
+            onChange={(e) => updateField('theme', e.target.value)}
+          />
+          {fieldError('theme')}
+        </label>
+
+        <label className={styles.field}>
+          <span>Para quando?</span>
+          <input
+            {...fieldProps('deadline')}
+            type="date"
+            min={minDeadline}
+            value={draft.deadline}
+            onChange={(e) => updateField('deadline', e.target.value)}
+          />
+          {fieldError('deadline')}
+        </label>
+
+        <label className={`${styles.field} ${styles.fullWidth}`}>
+          <span>Detalhes</span>
+          <textarea
+            {...fieldProps('description')}
+            rows={4}
+            maxLength={CUSTOM_ORDER_LIMITS.maxDescription}
+            placeholder="Conte como você imagina a peça: tamanho, nomes, personagens..."
+            value={draft.description}
+            onChange={(e) => updateField('description', e.target.value)}
+          />
+          <span className={styles.counter}>{draft.description.length}/{CUSTOM_ORDER_LIMITS.maxDescription}</span>
+          {fieldError('description')}
+        </label>
+
+        {/* Imagens de referência */}
+        <div className={`${styles.field} ${styles.fullWidth}`}>
+          <span>Imagens de referência (até {CUSTOM_ORDER_LIMITS.maxImages})</span>
+          <div className={styles.images}>
+            <AnimatePresence>
+              {previews.map((url, index) => (
+                <motion.div
+                  key={url}
+                  className={styles.preview}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.9 }}
+                >
+                  <img src={url} alt={`Referência ${index + 1}`} />
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveImage(index)}
+                    aria-label={`Remover imagem ${index + 1}`}
+                  >
+                    <IconClose size={14} />
+                  </button>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+            {draft.images.length < CUSTOM_ORDER_LIMITS.maxImages && (
+              <button
+                type="button"
+                id={`${formId}-images`}
+                className={styles.addImage}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <IconCamera size={22} />
+                Adicionar
+              </button>
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            multiple
+            hidden
+            onChange={(e) => handleImagesSelected(e.target.files)}
+          />
+          {fieldError('images')}
+        </div>
+      </div>
+
+      <h3 className={styles.sectionTitle}>Seus dados</h3>
+      <div className={styles.grid}>
+        <label className={styles.field}>
+          <span>Nome *</span>
+          <input
+            {...fieldProps('name')}
+            type="text"
+            autoComplete="name"
+            maxLength={CUSTOM_ORDER_LIMITS.maxText}
+            value={draft.name}
+            onChange={(e) => updateField('name', e.target.value)}
+          />
+          {fieldError('name')}
+        </label>
+
+        <label className={styles.field}>
+          <span>Email *</span>
+          <input
+            {...fieldProps('email')}
+            type="email"
+            autoComplete="email"
+            value={draft.email}
+            onChange={(e) => updateField('email', e.target.value)}
+          />
+          {fieldError('email')}
+        </label>
+
+        <label className={styles.field}>
+          <span>WhatsApp{draft.preferredContact === 'whatsapp' ? ' *' : ''}</span>
+          <input
+            {...fieldProps('phone')}
+            type="tel"
+            autoComplete="tel"
+            placeholder="(11) 99999-9999"
+            value={draft.phone}
+            onChange={(e) => updateField('phone', e.target.value)}
+          />
+          {fieldError('phone')}
+        </label>
+
+        <fieldset className={styles.field}>
+          <legend>Prefiro resposta por</legend>
+          <div className={styles.radioGroup}>
+            {(['whatsapp', 'email'] as const).map(option => (
+              <label key={option} className={styles.radio}>
+                <input
+                  type="radio"
+                  name={`${formId}-contact`}
+                  checked={draft.preferredContact === option}
+                  onChange={() => updateField('preferredContact', option)}
+                />
+                {option === 'whatsapp' ? 'WhatsApp' : 'Email'}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+
+      {submitError && <p className={styles.submitError} role="alert">{submitError}</p>}
+
+      <button type="submit" className={styles.submitButton} disabled={isSubmitting}>
+        {isSubmitting ? (
+          <>
+            <IconLoader size={18} />
+            {progress && progress < 100 ? `Enviando... ${progress}%` : 'Enviando...'}
+          </>
+        ) : 'Enviar pedido especial'}
+      </button>
+
+      {/* API indisponível: o pedido segue pelo WhatsApp ou email, já preenchido */}
+      {result?.channel === 'handoff' && (
+        <div className={styles.handoff} role="status">
+          <p>
+            Não conseguimos registrar o pedido pelo site agora. Envie pelo WhatsApp ou email,
+            a mensagem já está pronta:
+          </p>
+          <div className={styles.handoffActions}>
+            <a href={result.handoff.whatsappUrl} target="_blank" rel="noopener noreferrer" className={styles.whatsappButton}>
+              <IconWhatsapp size={20} />
+              WhatsApp
+            </a>
+            <a href={result.handoff.mailtoUrl} className={styles.emailButton}>
+              <IconMail size={20} />
+              Email
+            </a>
+          </div>
+          {result.handoff.imageCount > 0 && (
+            <p className={styles.handoffHint}>Lembre de anexar as imagens de referência na conversa.</p>
+          )}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default CustomOrderForm;
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { IconAlert, IconLoader, IconMail, IconMessage, IconWhatsapp } from './Icons';
+import {
+  customOrdersApi,
+  getErrorMessage,
+  ApiError,
+  type CustomOrder,
+  type CustomOrderList,
+  type CustomOrderStatus,
+} from '../services/api';
+import { cacheTags } from '../services/cache';
+import { CUSTOM_ORDER_STATUS_LABELS, formatDeadline } from '../services/customOrders';
+import { useQuery } from '../hooks/useQuery';
+import { useMutation } from '../hooks/useMutation';
+import styles from './CustomOrdersInbox.module.css';
+
+const ORDERS_PER_PAGE = 10;
+
+const STATUSES = Object.keys(CUSTOM_ORDER_STATUS_LABELS) as CustomOrderStatus[];
+
+interface CustomOrdersInboxProps {
+  onStatusChanged?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+// Telefone salvo só com dígitos, com ou sem o 55
+const toWhatsAppNumber = (phone: string) => (phone.length > 11 ? phone : `55${phone}`);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Caixa de entrada dos pedidos especiais (Admin): filtro por status e troca de status
+ */
+export const CustomOrdersInbox = ({ onStatusChanged, onError }: CustomOrdersInboxProps) => {
+  const [status, setStatus] = useState<CustomOrderStatus | ''>('');
+  const [page, setPage] = useState(1);
+
+  const ordersQuery = useQuery<CustomOrderList>(
+    ['admin', 'custom-orders', status, page],
+    (context) => customOrdersApi.getAll({ status: status || undefined, page, maxResults: ORDERS_PER_PAGE }, true, context),
+    { tags: [cacheTags.customOrders], keepPreviousData: true }
+  );
+
+  const statusMutation = useMutation(
+    ({ id, status }: { id: string; status: CustomOrderStatus }) => customOrdersApi.updateStatus(id, status),
+    { invalidates: [cacheTags.customOrders] }
+  );
+
+  const handleStatusChange = async (order: CustomOrder, next: CustomOrderStatus) => {
+    try {
+      await statusMutation.mutate({ id: order.id, status: next });
+      onStatusChanged?.(`Pedido de ${order.name}: ${CUSTOM_ORDER_STATUS_LABELS[next]}`);
+    } catch (error) {
+      console.error('[CustomOrders] Erro ao atualizar status:', error);
+      onError?.(getErrorMessage(error, { fallback: 'Erro ao atualizar o status do pedido' }));
+    }
+  };
+
+  const handleFilter = (next: CustomOrderStatus | '') => {
+    setStatus(next);
+    setPage(1);
+  };
+
+  const data = ordersQuery.data;
+  const totalPages = data ? Math.max(Math.ceil(data.total / ORDERS_PER_PAGE), 1) : 1;
+  // Backend ainda sem a rota de pedidos (fora do swagger): sem caixa de entrada, os pedidos chegam pelo WhatsApp/email
+  if (ordersQuery.error instanceof ApiError && ordersQuery.error.kind === 'not-found') return null;
+
+  return (
+    <section className={styles.inbox}>
+      <div className={styles.header}>
+        <h2>
+          <IconMessage size={20} />
+          Pedidos Especiais
+          {data && <span className={styles.count}>{data.total}</span>}
+        </h2>
+        {ordersQuery.isFetching && !ordersQuery.isLoading && <IconLoader size={18} />}
+      </div>
+
+      <div className={styles.filters} role="group" aria-label="Filtrar por status">
+        {(['', ...STATUSES] as const).map(option => (
+          <button
+            key={option || 'all'}
+            type="button"
+            className={`${styles.chip} ${status === option ? styles.chipActive : ''}`}
+            aria-pressed={status === option}
+            onClick={() => handleFilter(option)}
+          >
+            {option ? CUSTOM_ORDER_STATUS_LABELS[option] : 'Todos'}
+          </button>
+        ))}
+      </div>
+
+      {ordersQuery.isLoading ? (
+        <div className={styles.message}>
+          <IconLoader size={24} />
+        </div>
+      ) : ordersQuery.isError ? (
+        <div className={styles.message}>
+          <IconAlert size={24} />
+          <p>{getErrorMessage(ordersQuery.error, { fallback: 'Erro ao carregar os pedidos especiais' })}</p>
+          <button type="button" className={styles.retryButton} onClick={() => ordersQuery.refetch()}>
+            Tentar novamente
+          </button>
+        </div>
+      ) : !data || data.orders.length === 0 ? (
+        <div className={styles.message}>
+          <p>{status ? `Nenhum pedido "${CUSTOM_ORDER_STATUS_LABELS[status]}"` : 'Nenhum pedido especial ainda'}</p>
+        </div>
+      ) : (
+        <>
+          <ul className={styles.list}>
+            {data.orders.map(order => (
+              <li key={order.id} className={styles.order}>
+                <div className={styles.orderHeader}>
+                  <div>
+                    <h3>{order.product_type} <span>× {order.quantity}</span></h3>
+                    <time dateTime={order.created_at}>{formatDate(order.created_at)}</time>
+                  </div>
+                  <select
+                    className={styles.statusSelect}
+                    data-status={order.status}
+                    value={order.status}
+                    disabled={statusMutation.isPending}
+                    aria-label={`Status do pedido de ${order.name}`}
+                    onChange={(e) => handleStatusChange(order, e.target.value as CustomOrderStatus)}
+                  >
+                    {STATUSES.map(option => (
+                      <option key={option} value={option}>{CUSTOM_ORDER_STATUS_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <dl className={styles.details}>
+                  <dt>Cores</dt>
+                  <dd>{order.colors}</dd>
+                  {order.theme && (
+                    <>
+                      <dt>Tema</dt>
+                      <dd>{order.theme}</dd>
+                    </>
+                  )}
+                  {order.deadline && (
+                    <>
+                      <dt>Prazo</dt>
+                      <dd>{formatDeadline(order.deadline)}</dd>
+                    </>
+                  )}
+                </dl>
+
+                {order.description && <p className={styles.description}>{order.description}</p>}
+
+                {order.reference_images.length > 0 && (
+                  <div className={styles.images}>
+                    {order.reference_images.map((url, index) => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                        <img src={url} alt={`Referência ${index + 1}`} loading="lazy" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                <div className={styles.contact}>
+                  <strong>{order.name}</strong>
+                  {order.phone && (
+                    <a
+                      href={`https://wa.me/${toWhatsAppNumber(order.phone)}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={order.preferred_contact === 'whatsapp' ? styles.preferred : undefined}
+                    >
+                      <IconWhatsapp size={16} />
+                      {order.phone}
+                    </a>
+                  )}
+                  <a
+                    href={`mailto:${order.email}?subject=${encodeURIComponent(`Pedido especial - ${order.product_type}`)}`}
+                    className={order.preferred_contact === 'email' ? styles.preferred : undefined}
+                  >
+                    <IconMail size={16} />
+                    {order.email}
+                  </a>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {totalPages > 1 && (
+            <div className={styles.pagination}>
+              <button type="button" disabled={page === 1} onClick={() => setPage(page - 1)}>
+                Anterior
+              </button>
+              <span>Página {page} de {totalPages}</span>
+              <button type="button" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Próxima
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CustomOrdersInbox;
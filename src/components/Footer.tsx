@@ -1,26 +1,29 @@
 import { IconHeart, IconInstagram } from './Icons';
+import { useStoreSettings } from '../hooks/useStoreSettings';
+import { getInstagramUrl } from '../services/storeSettings';
 import styles from './Footer.module.css';
 
 export const Footer = () => {
+  const settings = useStoreSettings();
+
   return (
     <footer className={styles.footer}>
       <div className={styles.content}>
         <div className={styles.brand}>
-          <h3>Mel Colorindo a Vida</h3>
-          <p>Acessórios encantados e divertidos 🌈</p>
-          <p>Feitos à mão com amor no Brasil 🇧🇷</p>
+          <h3>{settings.store_name}</h3>
+          {settings.footer.lines.map(line => <p key={line}>{line}</p>)}
         </div>
         
         <div className={styles.social}>
-          <a href="https://instagram.com/mel_colorindo_a_vida" target="_blank" rel="noopener noreferrer" className={styles.socialLink}>
+          <a href={getInstagramUrl(settings.instagram)} target="_blank" rel="noopener noreferrer" className={styles.socialLink}>
             <IconInstagram size={24} />
-            <span>@mel_colorindo_a_vida</span>
+            <span>@{settings.instagram}</span>
           </a>
         </div>
 
         <div className={styles.copyright}>
           <p>
-            Feito com <IconHeart size={14} className={styles.heart} fill="currentColor" /> para a Mel.
+            Feito com <IconHeart size={14} className={styles.heart} fill="currentColor" /> {settings.footer.dedication}
           </p>
           <p>© {new Date().getFullYear()} Todos os direitos reservados.</p>
         </div>
@@ -0,0 +1,27 @@
+import type { MatchRange } from '../utils/search';
+import styles from './Highlight.module.css';
+
+interface HighlightProps {
+  text: string;
+  ranges?: MatchRange[];
+}
+
+/**
+ * Texto com os trechos encontrados pela busca destacados
+ */
+export const Highlight = ({ text, ranges }: HighlightProps) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className={styles.mark}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default Highlight;
@@ -152,6 +152,19 @@ export const IconAdd = ({ size = 24, color = 'currentColor', className }: IconPr
   </svg>
 );
 
+export const IconMinus = ({ size = 24, color = 'currentColor', className }: IconProps) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M6 12H18" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+  </svg>
+);
+
+export const IconPlus = ({ size = 24, color = 'currentColor', className }: IconProps) => (
+  <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
+    <path d="M12 6V18" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+    <path d="M6 12H18" stroke={color} strokeWidth="2" strokeLinecap="round"/>
+  </svg>
+);
+
 export const IconPackage = ({ size = 24, color = 'currentColor', className }: IconProps) => (
   <svg width={size} height={size} viewBox="0 0 24 24" fill="none" className={className}>
     <path 
@@ -0,0 +1,210 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'motion/react';
+import { IconCamera } from './Icons';
+import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { clampCrop, getCenteredCrop, type CropArea } from '../utils/imageCrop';
+import { processImage } from '../utils/imageProcessing';
+import modalStyles from './LoginModal.module.css';
+import styles from './ImageCropModal.module.css';
+
+interface ImageCropModalProps {
+  file: File | null; // Modal aberto enquanto houver arquivo
+  onCancel: () => void;
+  onConfirm: (processed: File) => void;
+}
+
+interface DragState {
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  crop: CropArea;
+}
+
+/**
+ * Modal de recorte quadrado com caixa arrastável
+ * Ao confirmar, a imagem é corrigida, recortada, redimensionada e comprimida no worker
+ */
+export const ImageCropModal = ({ file, onCancel, onConfirm }: ImageCropModalProps) => {
+  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+  const [crop, setCrop] = useState<CropArea | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const { spring, overlayTransition, modalVariants, overlayVariants } = useMobileAnimations();
+
+  // Reiniciar o recorte a cada novo arquivo
+  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  if (file !== currentFile) {
+    setCurrentFile(file);
+    setDimensions(null);
+    setCrop(null);
+    setError(null);
+    setIsProcessing(false);
+  }
+
+  // URL de preview (o <img> já aplica a orientação EXIF, igual ao worker)
+  const previewUrl = useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    setDimensions({ width, height });
+    setCrop(getCenteredCrop(width, height));
+  };
+
+  const handlePointerDown = (mode: DragState['mode']) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!crop || isProcessing) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const image = imageRef.current;
+    if (!drag || !image || !dimensions) return;
+
+    const rect = image.getBoundingClientRect();
+    const { width, height } = dimensions;
+
+    if (drag.mode === 'move') {
+      setCrop(clampCrop({
+        ...drag.crop,
+        x: drag.crop.x + (e.clientX - drag.startX) / rect.width,
+        y: drag.crop.y + (e.clientY - drag.startY) / rect.height,
+      }, width, height));
+      return;
+    }
+
+    // Redimensionar pelo canto inferior direito, mantendo o canto superior esquerdo
+    const minSide = Math.min(width, height);
+    const delta = Math.max(e.clientX - drag.startX, e.clientY - drag.startY) / Math.min(rect.width, rect.height);
+    const maxSize = Math.min((1 - drag.crop.x) * width, (1 - drag.crop.y) * height) / minSide;
+    setCrop(clampCrop({ ...drag.crop, size: Math.min(drag.crop.size + delta, maxSize) }, width, height));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleConfirm = async () => {
+    if (!file) return;
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const result = await processImage(file, crop);
+      onConfirm(result.file);
+    } catch (err) {
+      console.error('[ImageCrop] Erro ao processar imagem:', err);
+      setError('Não foi possível processar a imagem. Você pode enviar a original.');
+      setIsProcessing(false);
+    }
+  };
+
+  // Posição da caixa em porcentagem da imagem exibida
+  const boxStyle = crop && dimensions ? (() => {
+    const side = Math.min(dimensions.width, dimensions.height) * crop.size;
+    return {
+      left: `${crop.x * 100}%`,
+      top: `${crop.y * 100}%`,
+      width: `${(side / dimensions.width) * 100}%`,
+      height: `${(side / dimensions.height) * 100}%`,
+    };
+  })() : undefined;
+
+  return createPortal(
+    <AnimatePresence>
+      {file && (
+        <motion.div
+          className={modalStyles.overlay}
+          style={{ zIndex: 1100 }}
+          variants={overlayVariants}
+          initial="hidden"
+          animate="visible"
+          exit="exit"
+          transition={overlayTransition}
+        >
+          <motion.div
+            className={modalStyles.modal}
+            style={{ maxWidth: '560px' }}
+            variants={modalVariants}
+            initial="hidden"
+            animate="visible"
+            exit="exit"
+            transition={spring}
+          >
+            <div className={modalStyles.modalContent}>
+              <div className={modalStyles.header}>
+                <div className={modalStyles.iconWrapper}>
+                  <IconCamera size={32} color="#6A4C93" />
+                </div>
+                <h2>Ajustar Imagem</h2>
+                <p>Arraste o quadro para escolher o recorte</p>
+              </div>
+
+              <div className={styles.cropArea}>
+                <div className={styles.cropImageWrapper}>
+                  {previewUrl && (
+                    <img ref={imageRef} src={previewUrl} alt="Imagem a recortar" onLoad={handleImageLoad} />
+                  )}
+                  {boxStyle && (
+                    <div
+                      className={styles.cropBox}
+                      style={boxStyle}
+                      onPointerDown={handlePointerDown('move')}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      onPointerCancel={handlePointerUp}
+                    >
+                      <div
+                        className={styles.resizeHandle}
+                        onPointerDown={handlePointerDown('resize')}
+                        aria-label="Redimensionar recorte"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {error
+                ? <p className={styles.error}>{error}</p>
+                : <p className={styles.hint}>A imagem será salva quadrada e otimizada para a web</p>}
+
+              <div className={styles.actions}>
+                <button
+                  type="button"
+                  className={modalStyles.switchLink}
+                  onClick={onCancel}
+                  disabled={isProcessing}
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="button"
+                  className={modalStyles.submitBtn}
+                  style={{ margin: 0 }}
+                  onClick={error ? () => onConfirm(file) : handleConfirm}
+                  disabled={isProcessing || !crop}
+                >
+                  {isProcessing ? 'Processando...' : error ? 'Usar original' : 'Aplicar'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+};
+
+export default ImageCropModal;
@@ -1,6 +1,8 @@
 import { Outlet } from 'react-router-dom';
 import { Navbar } from './Navbar';
 import { Footer } from './Footer';
+import { CommandPalette } from './CommandPalette';
+import { BagDrawer } from './BagDrawer';
 import { motion } from 'motion/react';
 import { useShouldReduceAnimations } from '../hooks/useIsMobile';
 
@@ -40,6 +42,8 @@ export const Layout = () => {
         </motion.div>
       </main>
       <Footer />
+      <CommandPalette />
+      <BagDrawer />
     </div>
   );
 };
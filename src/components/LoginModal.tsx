@@ -4,6 +4,7 @@ import { IconMail, IconKey, IconEye, IconEyeOff, IconAlertCircle, IconLogin } fr
 import { useAuth } from '../contexts/AuthContext';
 import { isValidEmail } from '../services/api';
 import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { useRateLimit, formatCountdown } from '../hooks/useRateLimit';
 import styles from './LoginModal.module.css';
 
 interface LoginModalProps {
@@ -22,6 +23,8 @@ export const LoginModal = ({ isOpen, onClose, onSwitchToRegister }: LoginModalPr
   
   const { login, error, clearError } = useAuth();
   const { spring, overlayTransition, modalVariants, overlayVariants } = useMobileAnimations();
+  // Endpoints /auth/* têm limite mais restrito que o resto da API
+  const { isLimited, secondsUntilReset } = useRateLimit('auth');
 
   // Limpar formulário quando modal fechar
   useEffect(() => {
@@ -204,7 +207,17 @@ export const LoginModal = ({ isOpen, onClose, onSwitchToRegister }: LoginModalPr
                 </div>
               </div>
 
-              {error && (
+              {isLimited ? (
+                <motion.div
+                  className={styles.error}
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  role="status"
+                >
+                  <IconAlertCircle size={20} color="#c62828" />
+                  <span>Muitas tentativas de login. Tente novamente em {formatCountdown(secondsUntilReset)}</span>
+                </motion.div>
+              ) : error && (
                 <motion.div
                   className={styles.error}
                   initial={{ opacity: 0, y: -10 }}
@@ -218,7 +231,7 @@ export const LoginModal = ({ isOpen, onClose, onSwitchToRegister }: LoginModalPr
               <button
                 type="submit"
                 className={styles.submitBtn}
-                disabled={isSubmitting || !email.trim() || !password.trim() || !!emailError}
+                disabled={isSubmitting || !email.trim() || !password.trim() || !!emailError || isLimited}
               >
                 {isSubmitting ? (
                   <span className={styles.loading}>
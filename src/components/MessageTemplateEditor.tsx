@@ -0,0 +1,148 @@
+import { useId, useRef, useState } from 'react';
+import type { Product } from '../services/api';
+import type { BagItem } from '../services/shoppingBag';
+import type { ShippingEstimate } from '../services/shipping';
+import { buildCustomOrderMessage, type SanitizedCustomOrder } from '../services/customOrders';
+import { STORE_SETTINGS_LIMITS } from '../services/storeSettings';
+import {
+  MAX_MESSAGE_URL_LENGTH,
+  MESSAGE_PLACEHOLDERS,
+  validateMessageTemplate,
+  type MessageTemplateContext,
+} from '../utils/messageTemplate';
+import { buildBagOrderMessage, buildProductMessage, getWhatsAppLinkLength } from '../utils/whatsapp';
+import styles from './MessageTemplateEditor.module.css';
+
+// Dados de exemplo da prévia
+const SAMPLE_PRODUCT: Pick<Product, 'id' | 'name' | 'price' | 'category'> = {
+  id: 'exemplo',
+  name: 'Tiara Arco-Íris',
+  price: 39.9,
+  category: 'Tiaras',
+};
+
+const SAMPLE_BAG: BagItem[] = [
+  { productId: 'exemplo', name: 'Tiara Arco-Íris', price: 39.9, quantity: 2, note: 'Uma rosa e uma lilás' },
+  { productId: 'exemplo-2', name: 'Presilha Unicórnio', price: 14.5, quantity: 1, note: '' },
+];
+
+const SAMPLE_SHIPPING: ShippingEstimate = {
+  price: 22,
+  days: [3, 6],
+  weightLabel: 'até 300 g',
+  zone: 'sudeste',
+  address: { cep: '20040020', city: 'Rio de Janeiro', state: 'RJ' },
+};
+
+const SAMPLE_CUSTOM_ORDER: SanitizedCustomOrder = {
+  product_type: 'Tiaras',
+  colors: 'Rosa e dourado',
+  theme: 'Aniversário de 5 anos',
+  quantity: 12,
+  deadline: '2030-05-20',
+  description: 'Lembrancinhas com o nome Alice.',
+  name: 'Maria Silva',
+  email: 'maria@exemplo.com',
+  phone: '11999999999',
+  preferred_contact: 'whatsapp',
+};
+
+const buildPreview = (context: MessageTemplateContext, template: string, withShipping: boolean) => {
+  const shipping = withShipping ? SAMPLE_SHIPPING : null;
+  switch (context) {
+    case 'product':
+      return buildProductMessage(SAMPLE_PRODUCT, shipping, template);
+    case 'bag':
+      return buildBagOrderMessage(SAMPLE_BAG, shipping, template);
+    case 'custom_order':
+      return buildCustomOrderMessage(SAMPLE_CUSTOM_ORDER, 2, template);
+  }
+};
+
+interface MessageTemplateEditorProps {
+  context: MessageTemplateContext;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Editor de um modelo de mensagem: campos clicáveis, prévia com dados de exemplo e tamanho do link
+ */
+export const MessageTemplateEditor = ({ context, label, value, onChange }: MessageTemplateEditorProps) => {
+  const inputId = useId();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [withShipping, setWithShipping] = useState(true);
+
+  const error = validateMessageTemplate(value, context);
+  const preview = error ? null : buildPreview(context, value, withShipping);
+  const linkLength = preview ? getWhatsAppLinkLength(preview) : 0;
+
+  // Insere o campo na posição do cursor
+  const insertPlaceholder = (key: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const token = `{${key}}`;
+    onChange(value.slice(0, start) + token + value.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.input}>
+        <label htmlFor={inputId}>{label}</label>
+        <textarea
+          ref={textareaRef}
+          id={inputId}
+          rows={8}
+          maxLength={STORE_SETTINGS_LIMITS.maxTemplate}
+          value={value}
+          aria-invalid={!!error}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <div className={styles.placeholders} aria-label="Campos disponíveis">
+          {MESSAGE_PLACEHOLDERS[context].map(placeholder => (
+            <button
+              key={placeholder.key}
+              type="button"
+              title={placeholder.description}
+              onClick={() => insertPlaceholder(placeholder.key)}
+            >
+              {`{${placeholder.key}}`}
+            </button>
+          ))}
+        </div>
+        {error && <span className={styles.error}>{error}</span>}
+      </div>
+
+      <div className={styles.preview}>
+        <div className={styles.previewHeader}>
+          <span>Prévia</span>
+          {context !== 'custom_order' && (
+            <label>
+              <input type="checkbox" checked={withShipping} onChange={(e) => setWithShipping(e.target.checked)} />
+              Com frete calculado
+            </label>
+          )}
+        </div>
+        <div className={styles.bubble} aria-live="polite">
+          {preview ?? 'Corrija o modelo para ver a prévia'}
+        </div>
+        {preview && (
+          <span className={linkLength > MAX_MESSAGE_URL_LENGTH ? styles.lengthOver : styles.length}>
+            {linkLength > MAX_MESSAGE_URL_LENGTH
+              ? `Link com ${linkLength} caracteres: a mensagem será cortada em ${MAX_MESSAGE_URL_LENGTH}`
+              : `Link com ${linkLength} de ${MAX_MESSAGE_URL_LENGTH} caracteres`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageTemplateEditor;
@@ -12,10 +12,16 @@ import {
   IconHeart
 } from './Icons';
 import { useAuth } from '../contexts/AuthContext';
+import { useBag } from '../hooks/useBag';
 import { LoginModal } from './LoginModal';
 import { RegisterModal } from './RegisterModal';
+import { NavbarSearch } from './NavbarSearch';
+import { getPrefetchProps } from '../routes/prefetch';
 import styles from './Navbar.module.css';
 
+// Atalho da paleta de comandos conforme o sistema
+const PALETTE_SHORTCUT = /Mac|iPhone|iPad/.test(navigator.userAgent) ? '⌘K' : 'Ctrl K';
+
 const baseLinks = [
   { path: '/', name: 'Início', icon: <IconHome size={18} color="#FF595E" /> },
   { path: '/produtos', name: 'Produtos', icon: <IconShopping size={18} color="#FF924C" /> },
@@ -29,6 +35,7 @@ export const Navbar = () => {
   const [isRegisterModalOpen, setIsRegisterModalOpen] = useState(false);
   const location = useLocation();
   const { isAuthenticated, isAdmin, user, logout } = useAuth();
+  const { itemCount, openBag } = useBag();
 
   // Escuta eventos customizados de outras páginas para abrir modal
   useEffect(() => {
@@ -58,7 +65,7 @@ export const Navbar = () => {
     <>
       <nav className={styles.navbar}>
         <div className={styles.container}>
-          <Link to="/" className={styles.logo}>
+          <Link to="/" className={styles.logo} {...getPrefetchProps('/')}>
             <img src="/logo.png" alt="Mel Colorindo" style={{ height: '60px', width: 'auto' }} />
             <span className={styles.logoText}>Mel</span>
             <span className={styles.logoHighlight}>Colorindo</span>
@@ -66,8 +73,18 @@ export const Navbar = () => {
 
           {/* Desktop Menu */}
           <div className={styles.desktopMenu}>
+            <NavbarSearch />
+            <button
+              className={styles.paletteButton}
+              onClick={() => window.dispatchEvent(new CustomEvent('openCommandPalette'))}
+              title={`Busca rápida (${PALETTE_SHORTCUT})`}
+              aria-label="Abrir busca rápida"
+            >
+              <kbd>{PALETTE_SHORTCUT}</kbd>
+            </button>
+
             {links.map((link) => (
-              <Link key={link.path} to={link.path} className={styles.navLink}>
+              <Link key={link.path} to={link.path} className={styles.navLink} {...getPrefetchProps(link.path)}>
                 {link.name}
                 {location.pathname === link.path && (
                   <motion.div
@@ -100,14 +117,43 @@ export const Navbar = () => {
             )}
           </div>
 
-          {/* Mobile Toggle */}
-          <button 
-            className={styles.menuToggle} 
-            onClick={() => setIsOpen(!isOpen)}
-            aria-label="Toggle menu"
-          >
-            {isOpen ? <IconClose size={24} color="#6A4C93" /> : <IconMenu size={24} color="#6A4C93" />}
-          </button>
+          <div className={styles.navActions}>
+            {/* Sacola (desktop e mobile) */}
+            <button
+              className={styles.bagButton}
+              onClick={() => {
+                setIsOpen(false);
+                openBag();
+              }}
+              title="Sacola"
+              aria-label={itemCount > 0 ? `Abrir sacola (${itemCount} itens)` : 'Abrir sacola'}
+            >
+              <IconShopping size={22} />
+              <AnimatePresence>
+                {itemCount > 0 && (
+                  <motion.span
+                    key={itemCount}
+                    className={styles.bagBadge}
+                    initial={{ scale: 0.5 }}
+                    animate={{ scale: 1 }}
+                    exit={{ scale: 0 }}
+                    transition={{ type: 'spring', stiffness: 500, damping: 20 }}
+                  >
+                    {itemCount > 99 ? '99+' : itemCount}
+                  </motion.span>
+                )}
+              </AnimatePresence>
+            </button>
+
+            {/* Mobile Toggle */}
+            <button 
+              className={styles.menuToggle} 
+              onClick={() => setIsOpen(!isOpen)}
+              aria-label="Toggle menu"
+            >
+              {isOpen ? <IconClose size={24} color="#6A4C93" /> : <IconMenu size={24} color="#6A4C93" />}
+            </button>
+          </div>
         </div>
 
         {/* Mobile Menu */}
@@ -120,12 +166,17 @@ export const Navbar = () => {
               transition={{ duration: 0.3, ease: "easeInOut" }}
               className={styles.mobileMenu}
             >
+              <div className={styles.mobileSearch}>
+                <NavbarSearch onNavigate={() => setIsOpen(false)} />
+              </div>
+
               {links.map((link) => (
                 <Link 
                   key={link.path} 
                   to={link.path} 
                   className={styles.mobileNavLink}
                   onClick={() => setIsOpen(false)}
+                  {...getPrefetchProps(link.path)}
                 >
                   <span className={styles.iconWrapper}>{link.icon}</span>
                   {link.name}
@@ -0,0 +1,144 @@
+import { useState, useDeferredValue, useId } from 'react';
+import type { KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SearchBox } from './SearchBox';
+import { Highlight } from './Highlight';
+import { useCatalogSearch } from '../hooks/useProductSearch';
+import { FILTER_PARAMS } from '../hooks/useProductFilters';
+import { prefetchRoute } from '../routes/prefetch';
+import { addRecentSearch } from '../services/recentSearches';
+import styles from './NavbarSearch.module.css';
+
+const MAX_SUGGESTIONS = 5;
+
+interface NavbarSearchProps {
+  /** Chamado ao navegar para um resultado (ex: fechar o menu mobile) */
+  onNavigate?: () => void;
+  className?: string;
+}
+
+/**
+ * Busca da barra de navegação
+ * Sugere os produtos mais relevantes enquanto digita; Enter abre todos os resultados em /produtos
+ */
+export const NavbarSearch = ({ onNavigate, className }: NavbarSearchProps) => {
+  const navigate = useNavigate();
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const deferredQuery = useDeferredValue(query);
+  const { results, isLoading } = useCatalogSearch(deferredQuery);
+  const suggestions = results?.slice(0, MAX_SUGGESTIONS) ?? [];
+  const showList = isOpen && query.trim() !== '';
+
+  // O termo usado entra nas buscas recentes da paleta de comandos
+  const goTo = (path: string) => {
+    addRecentSearch(query);
+    setQuery('');
+    setIsOpen(false);
+    setActiveIndex(-1);
+    onNavigate?.();
+    navigate(path);
+  };
+
+  const showAllResults = () => {
+    if (!query.trim()) return;
+    goTo(`/produtos?${new URLSearchParams({ [FILTER_PARAMS.search]: query.trim() })}`);
+  };
+
+  const handleChange = (value: string) => {
+    setQuery(value);
+    setIsOpen(true);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (suggestions.length ? (index + 1) % suggestions.length : -1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => (suggestions.length ? (index <= 0 ? suggestions.length : index) - 1 : -1));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (activeIndex >= 0 && suggestions[activeIndex]) {
+          goTo(`/produto/${suggestions[activeIndex].item.id}`);
+        } else {
+          showAllResults();
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  return (
+    <div className={`${styles.navbarSearch} ${className ?? ''}`}>
+      <SearchBox
+        value={query}
+        onChange={handleChange}
+        placeholder="Buscar produtos..."
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        ariaControls={listId}
+        ariaExpanded={showList}
+        ariaActiveDescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+      />
+
+      {showList && (
+        // preventDefault no mousedown: o campo não perde o foco antes do clique
+        <ul id={listId} role="listbox" className={styles.suggestions} onMouseDown={(e) => e.preventDefault()}>
+          {isLoading || (query !== deferredQuery && suggestions.length === 0) ? (
+            <li className={styles.status}>Buscando...</li>
+          ) : suggestions.length === 0 ? (
+            <li className={styles.status}>Nenhum produto encontrado</li>
+          ) : (
+            suggestions.map(({ item, matches }, index) => (
+              <li
+                key={item.id}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`${styles.suggestion} ${index === activeIndex ? styles.active : ''}`}
+                onClick={() => goTo(`/produto/${item.id}`)}
+                onMouseEnter={() => {
+                  setActiveIndex(index);
+                  prefetchRoute(`/produto/${item.id}`);
+                }}
+                onTouchStart={() => prefetchRoute(`/produto/${item.id}`)}
+              >
+                <img src={item.image_url || '/placeholder.jpg'} alt="" loading="lazy" />
+                <div className={styles.suggestionInfo}>
+                  <span className={styles.suggestionName}>
+                    <Highlight text={item.name} ranges={matches.name} />
+                  </span>
+                  <span className={styles.suggestionMeta}>
+                    <Highlight text={item.category} ranges={matches.category} />
+                  </span>
+                </div>
+                <span className={styles.suggestionPrice}>R$ {Number(item.price || 0).toFixed(2)}</span>
+              </li>
+            ))
+          )}
+
+          {results && results.length > 0 && (
+            <li className={styles.showAll} onClick={showAllResults}>
+              Ver {results.length === 1 ? 'o resultado' : `todos os ${results.length} resultados`}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NavbarSearch;
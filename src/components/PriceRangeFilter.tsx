@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import type { PriceBin, PriceBounds } from '../utils/productFacets';
+import styles from './PriceRangeFilter.module.css';
+
+interface PriceRangeFilterProps {
+  bounds: PriceBounds;
+  bins: PriceBin[];
+  /** Faixa escolhida; null = sem limite daquele lado */
+  min: number | null;
+  max: number | null;
+  onChange: (min: number | null, max: number | null) => void;
+}
+
+const formatPrice = (value: number) => `R$ ${value.toFixed(0)}`;
+
+/**
+ * Faixa de preço com histograma dos resultados
+ * O valor arrastado fica local e só é aplicado ao soltar (evita uma navegação por pixel)
+ */
+export const PriceRangeFilter = ({ bounds, bins, min, max, onChange }: PriceRangeFilterProps) => {
+  const selected: [number, number] = [min ?? bounds.min, max ?? bounds.max];
+  const [draft, setDraft] = useState(selected);
+  const [lastSelected, setLastSelected] = useState(selected);
+
+  // Faixa alterada por fora (limpar filtros, voltar no histórico): refletir no controle
+  if (selected[0] !== lastSelected[0] || selected[1] !== lastSelected[1]) {
+    setLastSelected(selected);
+    setDraft(selected);
+  }
+
+  const [low, high] = draft;
+  const step = bounds.max - bounds.min > 100 ? 5 : 1;
+  const maxCount = Math.max(...bins.map(bin => bin.count), 1);
+  const span = Math.max(bounds.max - bounds.min, 1);
+
+  const commit = () => {
+    if (low === selected[0] && high === selected[1]) return;
+    // Nos limites do catálogo, o lado fica sem filtro
+    onChange(low <= bounds.min ? null : low, high >= bounds.max ? null : high);
+  };
+
+  const commitProps = {
+    onPointerUp: commit,
+    onKeyUp: commit,
+    onBlur: commit,
+  };
+
+  return (
+    <div className={styles.priceRange}>
+      <div className={styles.histogram} aria-hidden="true">
+        {bins.map((bin, i) => (
+          <div
+            key={i}
+            className={`${styles.bar} ${bin.to > low && bin.from < high ? styles.inRange : ''}`}
+            style={{ height: `${Math.max((bin.count / maxCount) * 100, bin.count > 0 ? 6 : 0)}%` }}
+            title={`${formatPrice(bin.from)} – ${formatPrice(bin.to)}: ${bin.count}`}
+          />
+        ))}
+      </div>
+
+      <div className={styles.sliders}>
+        <div
+          className={styles.track}
+          style={{
+            left: `${((low - bounds.min) / span) * 100}%`,
+            right: `${((bounds.max - high) / span) * 100}%`,
+          }}
+        />
+        <input
+          type="range"
+          min={bounds.min}
+          max={bounds.max}
+          step={step}
+          value={low}
+          aria-label="Preço mínimo"
+          aria-valuetext={formatPrice(low)}
+          onChange={(e) => setDraft([Math.min(Number(e.target.value), high), high])}
+          {...commitProps}
+        />
+        <input
+          type="range"
+          min={bounds.min}
+          max={bounds.max}
+          step={step}
+          value={high}
+          aria-label="Preço máximo"
+          aria-valuetext={formatPrice(high)}
+          onChange={(e) => setDraft([low, Math.max(Number(e.target.value), low)])}
+          {...commitProps}
+        />
+      </div>
+
+      <div className={styles.labels}>
+        <span>{formatPrice(low)}</span>
+        <span>{high >= bounds.max ? `${formatPrice(high)}+` : formatPrice(high)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceRangeFilter;
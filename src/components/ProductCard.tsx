@@ -1,17 +1,27 @@
 import { memo, useCallback, useMemo } from 'react';
 import { motion } from 'motion/react';
 import { useNavigate } from 'react-router-dom';
-import { IconHeart, IconWhatsapp } from './Icons';
+import { IconHeart, IconShopping, IconWhatsapp } from './Icons';
 import type { Product } from '../services/api';
+import type { MatchRange } from '../utils/search';
+import { Highlight } from './Highlight';
 import { getSubcategoryColor } from '../utils/subcategoryColors';
+import { getProductWhatsAppLink } from '../utils/whatsapp';
 import { usePrefersReducedMotion } from '../hooks/useIsMobile';
 import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { useStoreSettings } from '../hooks/useStoreSettings';
+import { getPrefetchProps } from '../routes/prefetch';
 import styles from '../pages/Products.module.css';
 
 interface ProductCardProps {
   product: Product;
   isFavorite: boolean;
   onFavoriteToggle: (productId: string, event: React.MouseEvent) => void;
+  onAddToBag: (product: Product) => void;
+  /** Trechos encontrados pela busca, destacados no card */
+  matches?: Record<string, MatchRange[]>;
+  /** false no grid virtualizado: cards montados durante a rolagem aparecem sem animação de entrada */
+  animated?: boolean;
 }
 
 /**
@@ -19,30 +29,29 @@ interface ProductCardProps {
  * Previne re-renders desnecessários para melhor performance
  * Animações otimizadas para 60fps+ em mobile usando apenas CSS transforms
  */
-export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle }: ProductCardProps) => {
+export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle, onAddToBag, matches, animated = true }: ProductCardProps) => {
   const prefersReducedMotion = usePrefersReducedMotion();
   const { shouldUseLayout } = useMobileAnimations();
   const navigate = useNavigate();
+  // Re-renderiza o link do WhatsApp quando as configurações da loja chegam da API
+  useStoreSettings();
   
   const handleCardClick = useCallback(() => {
     navigate(`/produto/${product.id}`);
   }, [navigate, product.id]);
+
+  // Pré-carrega a página do produto ao passar o mouse ou tocar no card
+  const prefetchProps = useMemo(() => getPrefetchProps(`/produto/${product.id}`), [product.id]);
   
   const handleFavoriteClick = useCallback((event: React.MouseEvent) => {
     event.stopPropagation();
     onFavoriteToggle(product.id, event);
   }, [product.id, onFavoriteToggle]);
 
-  const generateWhatsAppLink = useCallback(() => {
-    const phone = '5511997967401';
-    const baseUrl = import.meta.env.VITE_URL_PREFIX || window.location.origin;
-    const productLink = `${baseUrl}/produto/${product.id}`;
-    
-    const message = encodeURIComponent(
-      `Olá! Tenho interesse no produto: ${product.name} - R$ ${Number(product.price).toFixed(2)}\n${productLink}`
-    );
-    return `https://wa.me/${phone}?text=${message}`;
-  }, [product]);
+  const handleAddToBagClick = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    onAddToBag(product);
+  }, [product, onAddToBag]);
 
   // Memo para evitar recálculo das cores da subcategoria
   const subcategoryColors = useMemo(() => {
@@ -73,15 +82,16 @@ export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle }: Prod
 
   return (
     <motion.div 
-      layout
+      layout={animated}
       className={styles.cardWrapper}
-      initial={motionProps.initial}
+      initial={animated ? motionProps.initial : false}
       animate={motionProps.animate}
       exit={motionProps.exit}
     >
       <motion.div
         className={styles.card}
         onClick={handleCardClick}
+        {...prefetchProps}
         whileHover={prefersReducedMotion ? undefined : "hover"}
         animate={prefersReducedMotion ? undefined : "rest"}
         whileTap={motionProps.whileTap}
@@ -107,7 +117,9 @@ export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle }: Prod
           </div>
           
           <div className={styles.cardInfo}>
-            <span className={styles.categoryTag}>{product.category}</span>
+            <span className={styles.categoryTag}>
+              <Highlight text={product.category} ranges={matches?.category} />
+            </span>
             {subcategoryColors && (
               <span 
                 className={styles.subcategoryTag}
@@ -116,10 +128,10 @@ export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle }: Prod
                   color: subcategoryColors.text,
                 }}
               >
-                {product.subcategory}
+                <Highlight text={product.subcategory ?? ''} ranges={matches?.subcategory} />
               </span>
             )}
-            <h3>{product.name}</h3>
+            <h3><Highlight text={product.name} ranges={matches?.name} /></h3>
             <div className={styles.cardFooter}>
               <span className={styles.price}>R$ {Number(product.price || 0).toFixed(2)}</span>
               <span className={styles.viewBtn}>Ver Detalhes</span>
@@ -129,7 +141,7 @@ export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle }: Prod
           {/* Botões de ação no footer */}
           <div className={styles.cardActions}>
             <a
-              href={generateWhatsAppLink()}
+              href={getProductWhatsAppLink(product)}
               target="_blank"
               rel="noopener noreferrer"
               className={styles.whatsappBtn}
@@ -139,6 +151,15 @@ export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle }: Prod
               <IconWhatsapp size={24} />
             </a>
 
+            <button
+              className={styles.bagBtn}
+              onClick={handleAddToBagClick}
+              title="Adicionar à sacola"
+              aria-label="Adicionar à sacola"
+            >
+              <IconShopping size={22} />
+            </button>
+
             <button
               className={`${styles.favoriteBtn} ${isFavorite ? styles.favoriteActive : ''}`}
               onClick={handleFavoriteClick}
@@ -163,7 +184,10 @@ export const ProductCard = memo(({ product, isFavorite, onFavoriteToggle }: Prod
     prevProps.product.price === nextProps.product.price &&
     prevProps.product.image_url === nextProps.product.image_url &&
     prevProps.product.is_featured === nextProps.product.is_featured &&
-    prevProps.onFavoriteToggle === nextProps.onFavoriteToggle
+    prevProps.onFavoriteToggle === nextProps.onFavoriteToggle &&
+    prevProps.onAddToBag === nextProps.onAddToBag &&
+    prevProps.matches === nextProps.matches &&
+    prevProps.animated === nextProps.animated
   );
 });
 
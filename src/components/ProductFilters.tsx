@@ -1,21 +1,37 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'motion/react';
 import { IconFilter, IconClose, IconCheck, IconChevronDown } from './Icons';
 import { useMobileAnimations } from '../hooks/useMobileAnimations';
-import type { CategoryInfo } from '../services/api';
-import type { SortOption } from '../hooks/useProductFilters';
+import { PriceRangeFilter } from './PriceRangeFilter';
+import type { CategoryInfo, Product } from '../services/api';
+import { NEW_IN_DAYS_OPTIONS, type FacetFilters, type SortOption, type UseProductFiltersReturn } from '../hooks/useProductFilters';
+import { countFacets, getPriceBounds, type FacetFilterState } from '../utils/productFacets';
 import styles from './ProductFilters.module.css';
 
+const formatPriceRange = (min: number | null, max: number | null) => {
+  if (min !== null && max !== null) return `R$ ${min} – R$ ${max}`;
+  return min !== null ? `A partir de R$ ${min}` : `Até R$ ${max}`;
+};
+
 interface ProductFiltersProps {
   categories: CategoryInfo[];
   isLoadingCategories: boolean;
   selectedCategory: string | null;
   selectedSubcategories: string[];
+  facets: FacetFilters;
+  /** Produtos considerados nas contagens e no histograma (null enquanto o catálogo carrega) */
+  facetProducts: Product[] | null;
+  /** Referência de "agora" para o filtro de novidades */
+  now: number;
   sortBy: SortOption;
   onCategoryChange: (category: string | null) => void;
   onSubcategoryToggle: (subcategory: string) => void;
+  onPriceRangeChange: (min: number | null, max: number | null) => void;
+  onFeaturedOnlyChange: (featuredOnly: boolean) => void;
+  onNewInDaysChange: (days: number | null) => void;
   onSortChange: (sort: SortOption) => void;
+  onApplyFilters: UseProductFiltersReturn['applyFilters'];
   onClearFilters: () => void;
   hasActiveFilters: boolean;
   getTotalProductCount: () => number;
@@ -27,10 +43,17 @@ export function ProductFilters({
   isLoadingCategories,
   selectedCategory,
   selectedSubcategories,
+  facets,
+  facetProducts,
+  now,
   sortBy,
   onCategoryChange,
   onSubcategoryToggle,
+  onPriceRangeChange,
+  onFeaturedOnlyChange,
+  onNewInDaysChange,
   onSortChange,
+  onApplyFilters,
   onClearFilters,
   hasActiveFilters,
   getTotalProductCount,
@@ -40,6 +63,8 @@ export function ProductFilters({
   const [expandedSections, setExpandedSections] = useState({
     categories: true,
     subcategories: true,
+    price: true,
+    highlights: true,
     sort: true,
   });
 
@@ -48,6 +73,23 @@ export function ProductFilters({
   // Mantemos como array no temp também
   const [tempSubcategories, setTempSubcategories] = useState<string[]>(selectedSubcategories);
   const [tempSortBy, setTempSortBy] = useState<SortOption>(sortBy);
+  const [tempFacets, setTempFacets] = useState<FacetFilters>(facets);
+
+  // Contagens ao vivo: cada opção mostra quantos produtos restariam ao escolhê-la
+  const priceBounds = useMemo(() => facetProducts && getPriceBounds(facetProducts), [facetProducts]);
+  const getCounts = useCallback((filters: FacetFilterState) => {
+    if (!facetProducts || !priceBounds) return null;
+    return countFacets(facetProducts, filters, priceBounds, now, { newInDays: NEW_IN_DAYS_OPTIONS });
+  }, [facetProducts, priceBounds, now]);
+  const counts = useMemo(
+    () => getCounts({ category: selectedCategory, subcategories: selectedSubcategories, ...facets }),
+    [getCounts, selectedCategory, selectedSubcategories, facets]
+  );
+  // No modal, as contagens seguem as escolhas ainda não aplicadas
+  const tempCounts = useMemo(
+    () => (isModalOpen ? getCounts({ category: tempCategory, subcategories: tempSubcategories, ...tempFacets }) : null),
+    [isModalOpen, getCounts, tempCategory, tempSubcategories, tempFacets]
+  );
   
   // Animações otimizadas para mobile
   const { spring, overlayTransition, overlayVariants, bottomSheetVariants } = useMobileAnimations();
@@ -81,40 +123,28 @@ export function ProductFilters({
     setTempCategory(selectedCategory);
     setTempSubcategories(selectedSubcategories);
     setTempSortBy(sortBy);
+    setTempFacets(facets);
     setIsModalOpen(true);
-  }, [selectedCategory, selectedSubcategories, sortBy]);
+  }, [selectedCategory, selectedSubcategories, sortBy, facets]);
 
   const closeModal = useCallback(() => {
     setIsModalOpen(false);
   }, []);
 
   const applyMobileFilters = useCallback(() => {
-    // Aplicar categoria
-    if (tempCategory !== selectedCategory) {
-      onCategoryChange(tempCategory);
-    }
-    
-    // Aplicar sort
-    if (tempSortBy !== sortBy) {
-      onSortChange(tempSortBy);
-    }
+    // Tudo numa única navegação: o botão voltar desfaz a aplicação inteira
+    const subcategoriesChanged = tempSubcategories.length !== selectedSubcategories.length
+      || tempSubcategories.some(s => !selectedSubcategories.includes(s));
 
-    // Aplicar subcategorias (calculando diff ou apenas enviando novos clicks seria complexo com a prop toggle)
-    // Mas a prop é toggle. Se quisermos setar exato, o hook useProductFilters precisaria de 'setSubcategories'.
-    // Como só temos toggle, vamos comparar e fazer os toggles necessários?
-    // Não, o ideal é o parent expor um setSubcategories OU nós chamarmos toggle para cada diferença.
-    // Vamos assumir que para simplificar, no mobile, podemos chamar o toggle para cada item que mudou de estado.
-    // OU MELHOR: Vamos atualizar o hook useProductFilters para aceitar setar o array todo?
-    // User pediu "refactor". 
-    // Dado que toggle é o padrão, vamos inferir os toggles.
-    
-    const toAdd = tempSubcategories.filter(s => !selectedSubcategories.includes(s));
-    const toRemove = selectedSubcategories.filter(s => !tempSubcategories.includes(s));
-    
-    [...toAdd, ...toRemove].forEach(sub => onSubcategoryToggle(sub));
+    const facetsChanged = (Object.keys(tempFacets) as (keyof FacetFilters)[])
+      .some(key => tempFacets[key] !== facets[key]);
+
+    if (tempCategory !== selectedCategory || tempSortBy !== sortBy || subcategoriesChanged || facetsChanged) {
+      onApplyFilters({ category: tempCategory, subcategories: tempSubcategories, sortBy: tempSortBy, ...tempFacets });
+    }
 
     closeModal();
-  }, [tempCategory, selectedCategory, tempSortBy, sortBy, tempSubcategories, selectedSubcategories, onCategoryChange, onSortChange, onSubcategoryToggle, closeModal]);
+  }, [tempCategory, selectedCategory, tempSortBy, sortBy, tempSubcategories, selectedSubcategories, tempFacets, facets, onApplyFilters, closeModal]);
 
   const toggleTempSubcategory = (sub: string) => {
     setTempSubcategories(prev => {
@@ -128,6 +158,9 @@ export function ProductFilters({
   const activeFilterCount = [
     selectedCategory !== null,
     selectedSubcategories.length > 0,
+    facets.priceMin !== null || facets.priceMax !== null,
+    facets.featuredOnly,
+    facets.newInDays !== null,
     sortBy !== 'default',
   ].filter(Boolean).length;
 
@@ -161,6 +194,21 @@ export function ProductFilters({
                     {sub} <IconClose size={14} />
                   </button>
                 ))}
+                {(facets.priceMin !== null || facets.priceMax !== null) && (
+                  <button className={styles.filterChip} onClick={() => onPriceRangeChange(null, null)}>
+                    {formatPriceRange(facets.priceMin, facets.priceMax)} <IconClose size={14} />
+                  </button>
+                )}
+                {facets.featuredOnly && (
+                  <button className={styles.filterChip} onClick={() => onFeaturedOnlyChange(false)}>
+                    Destaques <IconClose size={14} />
+                  </button>
+                )}
+                {facets.newInDays !== null && (
+                  <button className={styles.filterChip} onClick={() => onNewInDaysChange(null)}>
+                    Novos ({facets.newInDays} dias) <IconClose size={14} />
+                  </button>
+                )}
               </div>
             )}
 
@@ -181,7 +229,7 @@ export function ProductFilters({
                     onClick={() => onCategoryChange(null)}
                   >
                     <span className={styles.categoryName}>Todos</span>
-                    <span className={styles.categoryCount}>{getTotalProductCount()}</span>
+                    <span className={styles.categoryCount}>{counts?.allCategories ?? getTotalProductCount()}</span>
                   </button>
                   
                   {categories.map((cat) => (
@@ -191,7 +239,7 @@ export function ProductFilters({
                       onClick={() => onCategoryChange(cat.category)}
                     >
                       <span className={styles.categoryName}>{cat.category}</span>
-                      <span className={styles.categoryCount}>{cat.productCount}</span>
+                      <span className={styles.categoryCount}>{counts ? counts.categories[cat.category] ?? 0 : cat.productCount}</span>
                     </button>
                   ))}
                 </div>
@@ -223,6 +271,7 @@ export function ProductFilters({
                             {isSelected && <IconCheck size={14} />}
                           </span>
                           <span className={styles.subcategoryName}>{sub}</span>
+                          {counts && <span className={styles.optionCount}>{counts.subcategories[sub] ?? 0}</span>}
                         </button>
                       );
                     })}
@@ -231,6 +280,74 @@ export function ProductFilters({
               </div>
             )}
 
+            {/* Preço */}
+            {priceBounds && counts && (
+              <div className={styles.filterSection}>
+                <button
+                  className={`${styles.filterHeader} ${expandedSections.price ? styles.open : ''}`}
+                  onClick={() => toggleSection('price')}
+                >
+                  <span className={styles.filterLabel}>Preço</span>
+                  <IconChevronDown size={18} />
+                </button>
+
+                {expandedSections.price && (
+                  <PriceRangeFilter
+                    bounds={priceBounds}
+                    bins={counts.priceBins}
+                    min={facets.priceMin}
+                    max={facets.priceMax}
+                    onChange={onPriceRangeChange}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Destaques e novidades */}
+            <div className={styles.filterSection}>
+              <button
+                className={`${styles.filterHeader} ${expandedSections.highlights ? styles.open : ''}`}
+                onClick={() => toggleSection('highlights')}
+              >
+                <span className={styles.filterLabel}>Destaques e novidades</span>
+                <IconChevronDown size={18} />
+              </button>
+
+              {expandedSections.highlights && (
+                <div className={styles.filterOptions}>
+                  <button
+                    className={styles.subcategoryOption}
+                    onClick={() => onFeaturedOnlyChange(!facets.featuredOnly)}
+                    aria-pressed={facets.featuredOnly}
+                  >
+                    <span className={`${styles.checkbox} ${facets.featuredOnly ? styles.checked : ''}`}>
+                      {facets.featuredOnly && <IconCheck size={14} />}
+                    </span>
+                    <span className={styles.subcategoryName}>Apenas destaques</span>
+                    {counts && <span className={styles.optionCount}>{counts.featured}</span>}
+                  </button>
+
+                  <button
+                    className={`${styles.categoryOption} ${facets.newInDays === null ? styles.active : ''}`}
+                    onClick={() => onNewInDaysChange(null)}
+                  >
+                    <span className={styles.categoryName}>Qualquer data</span>
+                    {counts && <span className={styles.categoryCount}>{counts.allDates}</span>}
+                  </button>
+                  {NEW_IN_DAYS_OPTIONS.map(days => (
+                    <button
+                      key={days}
+                      className={`${styles.categoryOption} ${facets.newInDays === days ? styles.active : ''}`}
+                      onClick={() => onNewInDaysChange(days)}
+                    >
+                      <span className={styles.categoryName}>Novos nos últimos {days} dias</span>
+                      {counts && <span className={styles.categoryCount}>{counts.newIn[days]}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Ordenação */}
             <div className={styles.filterSection}>
               <button
@@ -313,7 +430,7 @@ export function ProductFilters({
                         className={`${styles.categoryBtn} ${tempCategory === null ? styles.active : ''}`}
                         onClick={() => { setTempCategory(null); }}
                       >
-                        Todos ({getTotalProductCount()})
+                        Todos ({tempCounts?.allCategories ?? getTotalProductCount()})
                       </button>
                       {categories.map((cat) => (
                         <button
@@ -321,7 +438,7 @@ export function ProductFilters({
                           className={`${styles.categoryBtn} ${tempCategory === cat.category ? styles.active : ''}`}
                           onClick={() => { setTempCategory(cat.category); }}
                         >
-                          {cat.category} ({cat.productCount})
+                          {cat.category} ({tempCounts ? tempCounts.categories[cat.category] ?? 0 : cat.productCount})
                         </button>
                       ))}
                     </div>
@@ -347,7 +464,7 @@ export function ProductFilters({
                                 className={`${styles.subcategoryBtn} ${isSelected ? styles.active : ''}`}
                                 onClick={() => toggleTempSubcategory(sub)}
                               >
-                                {sub}
+                                {sub}{tempCounts && ` (${tempCounts.subcategories[sub] ?? 0})`}
                               </button>
                             );
                           })}
@@ -356,6 +473,51 @@ export function ProductFilters({
                     );
                   })()}
 
+                  {/* Preço */}
+                  {priceBounds && tempCounts && (
+                    <div className={styles.modalSection}>
+                      <div className={styles.modalSectionTitle}>Preço</div>
+                      <PriceRangeFilter
+                        bounds={priceBounds}
+                        bins={tempCounts.priceBins}
+                        min={tempFacets.priceMin}
+                        max={tempFacets.priceMax}
+                        onChange={(priceMin, priceMax) => setTempFacets(prev => ({ ...prev, priceMin, priceMax }))}
+                      />
+                    </div>
+                  )}
+
+                  {/* Destaques e novidades */}
+                  <div className={styles.modalSection}>
+                    <div className={styles.modalSectionTitle}>Destaques e novidades</div>
+                    <div className={styles.modalOptions}>
+                      <button
+                        className={`${styles.subcategoryBtn} ${tempFacets.featuredOnly ? styles.active : ''}`}
+                        onClick={() => setTempFacets(prev => ({ ...prev, featuredOnly: !prev.featuredOnly }))}
+                        aria-pressed={tempFacets.featuredOnly}
+                      >
+                        Apenas destaques{tempCounts && ` (${tempCounts.featured})`}
+                      </button>
+                    </div>
+                    <div className={`${styles.modalOptions} ${styles.modalOptionsSpaced}`}>
+                      <button
+                        className={`${styles.categoryBtn} ${tempFacets.newInDays === null ? styles.active : ''}`}
+                        onClick={() => setTempFacets(prev => ({ ...prev, newInDays: null }))}
+                      >
+                        Qualquer data{tempCounts && ` (${tempCounts.allDates})`}
+                      </button>
+                      {NEW_IN_DAYS_OPTIONS.map(days => (
+                        <button
+                          key={days}
+                          className={`${styles.categoryBtn} ${tempFacets.newInDays === days ? styles.active : ''}`}
+                          onClick={() => setTempFacets(prev => ({ ...prev, newInDays: days }))}
+                        >
+                          {days} dias{tempCounts && ` (${tempCounts.newIn[days]})`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
                   {/* Ordenação */}
                   <div className={styles.modalSection}>
                     <div className={styles.modalSectionTitle}>Ordenar por</div>
@@ -374,7 +536,7 @@ export function ProductFilters({
                 
                 <div className={styles.modalFooter}>
                   <button className={styles.applyButton} onClick={applyMobileFilters}>
-                    Aplicar Filtros
+                    {tempCounts ? `Ver ${tempCounts.total} produto${tempCounts.total !== 1 ? 's' : ''}` : 'Aplicar Filtros'}
                   </button>
                 </div>
               </motion.div>
@@ -4,6 +4,7 @@ import { IconMail, IconKey, IconEye, IconEyeOff, IconAlertCircle, IconUserPlus }
 import { useAuth } from '../contexts/AuthContext';
 import { isValidEmail } from '../services/api';
 import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { useRateLimit, formatCountdown } from '../hooks/useRateLimit';
 import styles from './LoginModal.module.css'; // Reusa os estilos do LoginModal
 
 interface RegisterModalProps {
@@ -25,6 +26,8 @@ export const RegisterModal = ({ isOpen, onClose, onSwitchToLogin }: RegisterModa
   
   const { register, error, clearError } = useAuth();
   const { spring, overlayTransition, modalVariants, overlayVariants } = useMobileAnimations();
+  // Endpoints /auth/* têm limite mais restrito que o resto da API
+  const { isLimited, secondsUntilReset } = useRateLimit('auth');
 
   // Limpar formulário quando modal fechar
   useEffect(() => {
@@ -248,7 +251,17 @@ export const RegisterModal = ({ isOpen, onClose, onSwitchToLogin }: RegisterModa
                 )}
               </div>
 
-              {error && (
+              {isLimited ? (
+                <motion.div
+                  className={styles.error}
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  role="status"
+                >
+                  <IconAlertCircle size={20} color="#c62828" />
+                  <span>Muitas tentativas de cadastro. Tente novamente em {formatCountdown(secondsUntilReset)}</span>
+                </motion.div>
+              ) : error && (
                 <motion.div
                   className={styles.error}
                   initial={{ opacity: 0, y: -10 }}
@@ -262,7 +275,7 @@ export const RegisterModal = ({ isOpen, onClose, onSwitchToLogin }: RegisterModa
               <button
                 type="submit"
                 className={styles.submitBtn}
-                disabled={isSubmitting || !email.trim() || !password.trim() || !confirmPassword.trim()}
+                disabled={isSubmitting || !email.trim() || !password.trim() || !confirmPassword.trim() || isLimited}
               >
                 {isSubmitting ? (
                   <span className={styles.loading}>
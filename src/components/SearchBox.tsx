@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import type { KeyboardEvent, FocusEvent, Ref } from 'react';
+import { IconSearch, IconClose } from './Icons';
+import styles from './SearchBox.module.css';
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (query: string) => void;
+  placeholder?: string;
+  className?: string;
+  inputRef?: Ref<HTMLInputElement>;
+  onKeyDown?: (event: KeyboardEvent<HTMLInputElement>) => void;
+  onFocus?: (event: FocusEvent<HTMLInputElement>) => void;
+  onBlur?: (event: FocusEvent<HTMLInputElement>) => void;
+  /** Atributos de combobox quando há lista de sugestões */
+  ariaControls?: string;
+  ariaExpanded?: boolean;
+  ariaActiveDescendant?: string;
+}
+
+/**
+ * Campo de busca com ícone e botão de limpar
+ * O texto digitado fica em estado local: o valor externo (ex: URL) pode atualizar de forma
+ * assíncrona sem mover o cursor; mudanças externas (voltar no histórico) são refletidas no campo
+ */
+export const SearchBox = ({
+  value,
+  onChange,
+  placeholder = 'Buscar produtos...',
+  className,
+  inputRef,
+  onKeyDown,
+  onFocus,
+  onBlur,
+  ariaControls,
+  ariaExpanded,
+  ariaActiveDescendant,
+}: SearchBoxProps) => {
+  const [text, setText] = useState(value);
+  const [lastValue, setLastValue] = useState(value);
+
+  if (value !== lastValue) {
+    setLastValue(value);
+    setText(value);
+  }
+
+  const handleChange = (query: string) => {
+    setText(query);
+    onChange(query);
+  };
+
+  return (
+    <div className={`${styles.searchBox} ${className ?? ''}`}>
+      <IconSearch size={18} color="#999" />
+      <input
+        ref={inputRef}
+        type="search"
+        value={text}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        role={ariaControls ? 'combobox' : undefined}
+        aria-controls={ariaControls}
+        aria-expanded={ariaControls ? ariaExpanded : undefined}
+        aria-activedescendant={ariaActiveDescendant}
+        aria-autocomplete={ariaControls ? 'list' : undefined}
+        autoComplete="off"
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={onKeyDown}
+        onFocus={onFocus}
+        onBlur={onBlur}
+      />
+      {text && (
+        <button
+          type="button"
+          className={styles.clearButton}
+          onClick={() => handleChange('')}
+          aria-label="Limpar busca"
+        >
+          <IconClose size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
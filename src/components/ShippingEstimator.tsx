@@ -0,0 +1,85 @@
+import { useState, useId } from 'react';
+import { IconLoader, IconMapPin } from './Icons';
+import {
+  formatAddressLocation,
+  formatCep,
+  formatDeliveryDays,
+} from '../services/shipping';
+import type { UseShippingEstimateResult } from '../hooks/useShippingEstimate';
+import styles from './ShippingEstimator.module.css';
+
+interface ShippingEstimatorProps {
+  shipping: UseShippingEstimateResult;
+  /** Versão menor, usada na sacola */
+  compact?: boolean;
+}
+
+/**
+ * Campo de CEP com a estimativa de frete (endereço, valor e prazo)
+ */
+export const ShippingEstimator = ({ shipping, compact = false }: ShippingEstimatorProps) => {
+  const inputId = useId();
+  const [draft, setDraft] = useState(() => formatCep(shipping.cep));
+  const { estimate } = shipping;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    shipping.submit(draft);
+  };
+
+  return (
+    <div className={`${styles.estimator} ${compact ? styles.compact : ''}`}>
+      <form className={styles.form} onSubmit={handleSubmit} noValidate>
+        <label htmlFor={inputId} className={styles.label}>
+          <IconMapPin size={16} />
+          Calcular frete
+        </label>
+        <div className={styles.inputRow}>
+          <input
+            id={inputId}
+            type="text"
+            inputMode="numeric"
+            autoComplete="postal-code"
+            placeholder="00000-000"
+            value={draft}
+            maxLength={9}
+            aria-invalid={!!shipping.error}
+            onChange={(e) => setDraft(formatCep(e.target.value))}
+          />
+          <button type="submit" disabled={shipping.isLoading}>
+            {shipping.isLoading ? <IconLoader size={16} /> : 'Calcular'}
+          </button>
+        </div>
+        <a
+          href="https://buscacepinter.correios.com.br/app/endereco/index.php"
+          target="_blank"
+          rel="noopener noreferrer"
+          className={styles.helpLink}
+        >
+          Não sei meu CEP
+        </a>
+      </form>
+
+      {shipping.error && <p className={styles.error} role="alert">{shipping.error}</p>}
+
+      {estimate && !shipping.error && (
+        <div className={styles.result} aria-live="polite">
+          <div className={styles.address}>
+            {[estimate.address.street, estimate.address.neighborhood].filter(Boolean).join(', ')}
+            {(estimate.address.street || estimate.address.neighborhood) && ' - '}
+            {formatAddressLocation(estimate.address)}
+          </div>
+          <div className={styles.quote}>
+            <strong>R$ {estimate.price.toFixed(2)}</strong>
+            <span>{formatDeliveryDays(estimate.days)}</span>
+          </div>
+          <p className={styles.note}>
+            Estimativa para pacote {estimate.weightLabel}. O valor final é confirmado pelo WhatsApp.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShippingEstimator;
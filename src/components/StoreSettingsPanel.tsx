@@ -0,0 +1,254 @@
+import { useState, useId } from 'react';
+import { IconAlert, IconLoader } from './Icons';
+import { ApiError, getErrorMessage, settingsApi, type StoreSettings } from '../services/api';
+import { cacheTags } from '../services/cache';
+import {
+  DEFAULT_STORE_SETTINGS,
+  STORE_SETTINGS_LIMITS,
+  formatPhone,
+  normalizeStoreSettings,
+  setStoreSettings,
+  validateStoreSettings,
+  type StoreSettingsErrors,
+} from '../services/storeSettings';
+import { validateMessageTemplate, type MessageTemplateContext } from '../utils/messageTemplate';
+import { MessageTemplateEditor } from './MessageTemplateEditor';
+import { useMutation } from '../hooks/useMutation';
+import { useQuery } from '../hooks/useQuery';
+import { useStoreSettings } from '../hooks/useStoreSettings';
+import styles from './StoreSettingsPanel.module.css';
+
+interface StoreSettingsPanelProps {
+  onSaved?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+const TEMPLATE_EDITORS: { context: MessageTemplateContext; label: string }[] = [
+  { context: 'product', label: 'Interesse em um produto' },
+  { context: 'bag', label: 'Pedido da sacola' },
+  { context: 'custom_order', label: 'Pedido especial' },
+];
+
+// Listas editadas como uma linha por item
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (value: string) => value.split('\n');
+
+/**
+ * Aba de configurações do Admin: contatos, modelos das mensagens, destaques do produto e rodapé
+ */
+export const StoreSettingsPanel = ({ onSaved, onError }: StoreSettingsPanelProps) => {
+  const formId = useId();
+  const settings = useStoreSettings();
+  const [base, setBase] = useState(settings);
+  const [draft, setDraft] = useState<StoreSettings>(settings);
+  const [errors, setErrors] = useState<StoreSettingsErrors>({});
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(base);
+  // Modelo inválido seria trocado pelo padrão ao salvar: bloquear até corrigir
+  const hasTemplateError = TEMPLATE_EDITORS.some(({ context }) => validateMessageTemplate(draft.messages[context], context));
+
+  // Configurações atualizadas pela API: recarregar o formulário se não houver edição em andamento
+  if (settings !== base) {
+    setBase(settings);
+    if (!isDirty) setDraft(settings);
+  }
+
+  // /settings ainda fora do swagger: sem a rota, não há onde salvar (valem os padrões do .env)
+  const settingsQuery = useQuery<Partial<StoreSettings>>(
+    ['settings'],
+    (context) => settingsApi.get(true, context),
+    { tags: [cacheTags.settings], refetchOnWindowFocus: false }
+  );
+  const isApiMissing = settingsQuery.error instanceof ApiError && settingsQuery.error.kind === 'not-found';
+
+  const saveMutation = useMutation(
+    (next: StoreSettings) => settingsApi.update(next),
+    { invalidates: [cacheTags.settings] }
+  );
+
+  const update = (patch: Partial<StoreSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    const fields = Object.keys(patch) as (keyof StoreSettingsErrors)[];
+    if (fields.some(field => errors[field])) {
+      setErrors(prev => ({ ...prev, ...Object.fromEntries(fields.map(field => [field, undefined])) }));
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validation = validateStoreSettings(draft);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0 || hasTemplateError || isApiMissing) return;
+
+    const next = normalizeStoreSettings(draft);
+    try {
+      // Campos que a API não devolver ficam com o que foi enviado
+      const saved = normalizeStoreSettings(await saveMutation.mutate(next), next);
+      setStoreSettings(saved);
+      setDraft(saved);
+      onSaved?.('Configurações da loja salvas');
+    } catch (error) {
+      console.error('[StoreSettings] Erro ao salvar:', error);
+      onError?.(error instanceof ApiError && error.kind === 'not-found'
+        ? 'A API ainda não salva configurações. Use as variáveis VITE_STORE_* do .env.'
+        : getErrorMessage(error, { fallback: 'Erro ao salvar as configurações' }));
+    }
+  };
+
+  const fieldProps = (field: keyof StoreSettingsErrors) => ({
+    id: `${formId}-${field}`,
+    'aria-invalid': !!errors[field],
+  });
+
+  const fieldError = (field: keyof StoreSettingsErrors) =>
+    errors[field] && <span className={styles.fieldError}>{errors[field]}</span>;
+
+  return (
+    <form className={styles.panel} onSubmit={handleSubmit} noValidate>
+      {isApiMissing && (
+        <div className={styles.notice} role="status">
+          <IconAlert size={20} />
+          <p>
+            A API ainda não tem a rota de configurações, então não é possível salvar por aqui.
+            Enquanto isso, a loja usa as variáveis VITE_STORE_* do .env.
+          </p>
+        </div>
+      )}
+
+      <section className={styles.section}>
+        <h2>Contato</h2>
+        <div className={styles.grid}>
+          <label className={styles.field}>
+            <span>Nome da loja</span>
+            <input
+              {...fieldProps('store_name')}
+              type="text"
+              maxLength={STORE_SETTINGS_LIMITS.maxText}
+              value={draft.store_name}
+              onChange={(e) => update({ store_name: e.target.value })}
+            />
+            {fieldError('store_name')}
+          </label>
+
+          <label className={styles.field}>
+            <span>WhatsApp</span>
+            <input
+              {...fieldProps('whatsapp_phone')}
+              type="tel"
+              inputMode="numeric"
+              placeholder="5511999999999"
+              value={draft.whatsapp_phone}
+              onChange={(e) => update({ whatsapp_phone: e.target.value.replace(/\D/g, '') })}
+            />
+            {fieldError('whatsapp_phone') || <small>{formatPhone(draft.whatsapp_phone)}</small>}
+          </label>
+
+          <label className={styles.field}>
+            <span>Email</span>
+            <input
+              {...fieldProps('email')}
+              type="email"
+              value={draft.email}
+              onChange={(e) => update({ email: e.target.value })}
+            />
+            {fieldError('email')}
+          </label>
+
+          <label className={styles.field}>
+            <span>Instagram</span>
+            <input
+              {...fieldProps('instagram')}
+              type="text"
+              placeholder="usuario"
+              value={draft.instagram}
+              onChange={(e) => update({ instagram: e.target.value })}
+            />
+            {fieldError('instagram')}
+          </label>
+        </div>
+      </section>
+
+      <section className={styles.section}>
+        <h2>Mensagens do WhatsApp</h2>
+        <p className={styles.sectionHint}>
+          Clique nos campos para inseri-los. Linhas com campos vazios (ex: frete não calculado) saem da mensagem.
+        </p>
+        {TEMPLATE_EDITORS.map(({ context, label }) => (
+          <MessageTemplateEditor
+            key={context}
+            context={context}
+            label={label}
+            value={draft.messages[context]}
+            onChange={(template) => update({ messages: { ...draft.messages, [context]: template } })}
+          />
+        ))}
+      </section>
+
+      <section className={styles.section}>
+        <h2>Textos do site</h2>
+        <div className={styles.grid}>
+          <label className={styles.field}>
+            <span>Destaques na página do produto</span>
+            <textarea
+              rows={4}
+              value={toLines(draft.product_features)}
+              onChange={(e) => update({ product_features: fromLines(e.target.value) })}
+            />
+            <small>Um por linha (até {STORE_SETTINGS_LIMITS.maxListItems})</small>
+          </label>
+
+          <label className={styles.field}>
+            <span>Rodapé</span>
+            <textarea
+              rows={4}
+              value={toLines(draft.footer.lines)}
+              onChange={(e) => update({ footer: { ...draft.footer, lines: fromLines(e.target.value) } })}
+            />
+            <small>Uma frase por linha</small>
+          </label>
+
+          <label className={`${styles.field} ${styles.fullWidth}`}>
+            <span>Assinatura do rodapé ("Feito com ♥ ...")</span>
+            <input
+              type="text"
+              maxLength={STORE_SETTINGS_LIMITS.maxText}
+              value={draft.footer.dedication}
+              onChange={(e) => update({ footer: { ...draft.footer, dedication: e.target.value } })}
+            />
+          </label>
+        </div>
+      </section>
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.linkButton}
+          onClick={() => setDraft(DEFAULT_STORE_SETTINGS)}
+        >
+          Restaurar padrões
+        </button>
+        <button
+          type="button"
+          className={styles.secondaryButton}
+          disabled={!isDirty || saveMutation.isPending}
+          onClick={() => {
+            setDraft(base);
+            setErrors({});
+          }}
+        >
+          Descartar
+        </button>
+        <button
+          type="submit"
+          className={styles.saveButton}
+          disabled={!isDirty || hasTemplateError || isApiMissing || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? <IconLoader size={18} /> : 'Salvar'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default StoreSettingsPanel;
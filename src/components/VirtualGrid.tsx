@@ -0,0 +1,141 @@
+import { Fragment, useCallback, useLayoutEffect, useRef, useState, type ReactNode } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  /** Cada item vira um filho direto do grid (sem wrapper, para manter o CSS dos cards) */
+  renderItem: (item: T) => ReactNode;
+  /** Classe do grid: colunas e espaçamento vêm do CSS (inclusive nos breakpoints) */
+  className?: string;
+  /** Linhas montadas acima e abaixo da área visível */
+  overscan?: number;
+  /** Chamado quando a rolagem chega perto da última linha carregada */
+  onEndReached?: () => void;
+}
+
+interface GridLayout {
+  columns: number;
+  /** Altura de uma linha somada ao espaçamento entre linhas */
+  rowStride: number;
+  startRow: number;
+  endRow: number;
+}
+
+// Estimativa até o primeiro card ser medido
+const ESTIMATED_ROW_STRIDE = 480;
+// Linhas restantes que disparam onEndReached
+const END_THRESHOLD_ROWS = 2;
+
+/**
+ * Grid virtualizado na rolagem da janela: só as linhas visíveis (mais a margem) ficam montadas
+ * O espaço das demais é reservado com padding, mantendo a altura total e a barra de rolagem
+ */
+export function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  className,
+  overscan = 2,
+  onEndReached,
+}: VirtualGridProps<T>) {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [layout, setLayout] = useState<GridLayout>({
+    columns: 1,
+    rowStride: ESTIMATED_ROW_STRIDE,
+    startRow: 0,
+    endRow: 3,
+  });
+
+  const itemCountRef = useRef(items.length);
+  const onEndReachedRef = useRef(onEndReached);
+  useLayoutEffect(() => {
+    itemCountRef.current = items.length;
+    onEndReachedRef.current = onEndReached;
+  });
+
+  // Lê colunas e altura das linhas do DOM e recalcula as linhas visíveis
+  const measure = useCallback(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+
+    const style = getComputedStyle(grid);
+    const columns = Math.max(style.gridTemplateColumns.split(' ').filter(Boolean).length, 1);
+    const cards = grid.children as HTMLCollectionOf<HTMLElement>;
+
+    setLayout(prev => {
+      let rowStride = prev.rowStride;
+      if (cards.length > columns) {
+        rowStride = cards[columns].offsetTop - cards[0].offsetTop;
+      } else if (cards.length > 0) {
+        rowStride = cards[0].offsetHeight + (parseFloat(style.rowGap) || 0);
+      }
+      rowStride = Math.max(rowStride, 1);
+
+      const rows = Math.ceil(itemCountRef.current / columns);
+      const gridTop = grid.getBoundingClientRect().top + window.scrollY;
+      const viewTop = window.scrollY - gridTop;
+      const viewBottom = viewTop + window.innerHeight;
+      const startRow = Math.min(Math.max(Math.floor(viewTop / rowStride) - overscan, 0), rows);
+      const endRow = Math.min(Math.max(Math.ceil(viewBottom / rowStride) + overscan, startRow), rows);
+
+      if (
+        prev.columns === columns && prev.rowStride === rowStride
+        && prev.startRow === startRow && prev.endRow === endRow
+      ) {
+        return prev;
+      }
+      return { columns, rowStride, startRow, endRow };
+    });
+  }, [overscan]);
+
+  useLayoutEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+
+    let frame = 0;
+    const schedule = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(measure);
+    };
+
+    // Também dispara logo ao observar: é a primeira medição
+    const observer = new ResizeObserver(schedule);
+    observer.observe(grid);
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [measure]);
+
+  const rows = Math.ceil(items.length / layout.columns);
+  const startRow = Math.min(layout.startRow, rows);
+  const endRow = Math.min(Math.max(layout.endRow, startRow), rows);
+  const visibleItems = items.slice(startRow * layout.columns, endRow * layout.columns);
+
+  // Perto do fim do que já foi carregado: pedir mais (a lista cresce e o grid mede de novo)
+  const isNearEnd = rows - endRow <= END_THRESHOLD_ROWS;
+  useLayoutEffect(() => {
+    if (isNearEnd && items.length > 0) onEndReachedRef.current?.();
+  }, [isNearEnd, items.length]);
+
+  return (
+    <div
+      ref={gridRef}
+      className={className}
+      style={{
+        paddingTop: startRow * layout.rowStride,
+        paddingBottom: (rows - endRow) * layout.rowStride,
+      }}
+    >
+      {visibleItems.map(item => (
+        <Fragment key={getKey(item)}>{renderItem(item)}</Fragment>
+      ))}
+    </div>
+  );
+}
+
+export default VirtualGrid;
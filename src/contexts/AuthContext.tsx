@@ -1,7 +1,11 @@
 import { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { ReactNode } from 'react';
-import { authApi, ApiError, setForceLogoutCallback, setTokenRefreshedCallback, clearTokens } from '../services/api';
+import { authApi, getErrorMessage, setForceLogoutCallback, setTokenRefreshedCallback, clearTokens } from '../services/api';
 import type { User } from '../services/api';
+import { sessionScheduler } from '../services/session';
+import { broadcastAuthEvent, subscribeAuthEvents } from '../services/authSync';
+import { mergeGuestBag } from '../services/shoppingBag';
+import { decodeJwtPayload, isTokenExpired } from '../utils/jwt';
 
 // Tipos
 interface AuthContextType {
@@ -24,69 +28,6 @@ const ACCESS_TOKEN_KEY = 'auth_access_token';
 const REFRESH_TOKEN_KEY = 'auth_refresh_token';
 const USER_KEY = 'auth_user';
 
-/**
- * Decodifica payload do JWT de forma segura
- * NOTA: Apenas decodifica, não valida a assinatura (backend é responsável)
- * @param token - Token JWT
- * @returns Payload decodificado ou null se inválido
- */
-function decodeJwtPayload(token: string): Record<string, unknown> | null {
-  try {
-    // Validação básica do formato JWT (3 partes separadas por ponto)
-    if (!token || typeof token !== 'string') {
-      return null;
-    }
-
-    const parts = token.split('.');
-    if (parts.length !== 3) {
-      console.warn('[Auth] Token JWT mal formado: número de partes inválido');
-      return null;
-    }
-
-    const base64Url = parts[1];
-    if (!base64Url || base64Url.length === 0) {
-      console.warn('[Auth] Token JWT mal formado: payload vazio');
-      return null;
-    }
-
-    // Substituir caracteres URL-safe
-    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-    
-    // Adicionar padding se necessário
-    const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
-    
-    const jsonPayload = decodeURIComponent(
-      atob(padded)
-        .split('')
-        .map((c) => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
-        .join('')
-    );
-    
-    const payload = JSON.parse(jsonPayload);
-    
-    // Validação básica do payload
-    if (typeof payload !== 'object' || payload === null) {
-      console.warn('[Auth] Token JWT mal formado: payload não é um objeto');
-      return null;
-    }
-
-    return payload;
-  } catch (error) {
-    console.warn('[Auth] Erro ao decodificar token JWT:', error);
-    return null;
-  }
-}
-
-// Verificar se o token expirou
-function isTokenExpired(token: string): boolean {
-  const payload = decodeJwtPayload(token);
-  if (!payload || typeof payload.exp !== 'number') {
-    return true;
-  }
-  // Adiciona 60 segundos de margem
-  return Date.now() >= payload.exp * 1000 - 60000;
-}
-
 // Provider
 interface AuthProviderProps {
   children: ReactNode;
@@ -98,13 +39,19 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Função de logout interna (usada pelo callback de forceLogout)
-  const performLogout = useCallback(() => {
+  // Função de logout interna (usada pelo callback de forceLogout e pela sincronização entre abas)
+  // shouldBroadcast = false quando o logout já veio de outra aba
+  const performLogout = useCallback((shouldBroadcast = true) => {
+    sessionScheduler.stop();
     clearTokens();
     localStorage.removeItem(USER_KEY);
     setUser(null);
     setIsAdmin(false);
     setError(null);
+
+    if (shouldBroadcast) {
+      broadcastAuthEvent({ type: 'logout' });
+    }
   }, []);
 
   // Registrar callback de logout forçado na API
@@ -115,25 +62,61 @@ export function AuthProvider({ children }: AuthProviderProps) {
     });
   }, [performLogout]);
 
+  // Atualiza isAdmin e re-agenda a renovação a partir de um token recém-renovado
+  const applyRefreshedToken = useCallback((newAccessToken: string) => {
+    // Re-agendar a próxima renovação proativa a partir do novo exp
+    sessionScheduler.start(newAccessToken);
+    
+    const payload = decodeJwtPayload(newAccessToken);
+    if (payload) {
+      const hasAdminRole = 
+        payload?.is_admin === true || 
+        payload?.role === 'admin' ||
+        (payload?.roles as string[])?.includes('admin');
+      
+      setIsAdmin(!!hasAdminRole);
+      console.log('[Auth] isAdmin atualizado para:', !!hasAdminRole);
+    }
+  }, []);
+
   // NOVO: Registrar callback para atualizar isAdmin quando token for renovado
   // Isso é importante porque quando o token expira, isAdmin é false por segurança
   // Quando o token é renovado automaticamente, precisamos atualizar isAdmin corretamente
   useEffect(() => {
     setTokenRefreshedCallback((newAccessToken: string) => {
       console.log('[Auth] Token renovado - atualizando status de admin');
-      
-      const payload = decodeJwtPayload(newAccessToken);
-      if (payload) {
-        const hasAdminRole = 
-          payload?.is_admin === true || 
-          payload?.role === 'admin' ||
-          (payload?.roles as string[])?.includes('admin');
-        
-        setIsAdmin(!!hasAdminRole);
-        console.log('[Auth] isAdmin atualizado para:', !!hasAdminRole);
+      applyRefreshedToken(newAccessToken);
+    });
+  }, [applyRefreshedToken]);
+
+  // Sincronizar sessão com as outras abas
+  // Os tokens já estão no localStorage compartilhado; aqui só atualizamos o estado desta aba
+  useEffect(() => {
+    return subscribeAuthEvents((event) => {
+      switch (event.type) {
+        case 'logout':
+          console.log('[Auth] Logout recebido de outra aba');
+          performLogout(false);
+          break;
+        case 'login': {
+          console.log('[Auth] Login recebido de outra aba');
+          setUser(event.user);
+          setError(null);
+          const storedAccessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+          if (storedAccessToken) {
+            applyRefreshedToken(storedAccessToken);
+          }
+          break;
+        }
+        case 'token-refreshed':
+          // Ignorar se esta aba não tem sessão (ex: logout concorrente)
+          if (!localStorage.getItem(REFRESH_TOKEN_KEY)) break;
+          console.log('[Auth] Token renovado por outra aba');
+          applyRefreshedToken(event.accessToken);
+          break;
       }
     });
-  }, []);
+  }, [performLogout, applyRefreshedToken]);
 
   // Carregar dados do localStorage na inicialização
   useEffect(() => {
@@ -165,6 +148,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
               // Token inválido, não dar acesso admin
               setIsAdmin(false);
             }
+
+            // Agendar renovação proativa antes do exp
+            sessionScheduler.start(storedAccessToken);
           } else if (storedRefreshToken) {
             // Access token expirado, mas temos refresh token
             // O token será renovado automaticamente na próxima requisição
@@ -177,6 +163,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
             setIsAdmin(false);
             
             console.log('[Auth] Access token expirado, isAdmin desabilitado até renovação do token');
+
+            // Prazo já passou: o agendador renova imediatamente (ou quando a aba ficar visível)
+            sessionScheduler.start(storedAccessToken);
           } else {
             // Sem refresh token, limpar dados
             clearTokens();
@@ -208,6 +197,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const userData: User = response.user;
 
       localStorage.setItem(USER_KEY, JSON.stringify(userData));
+      // Sacola montada antes de entrar passa para a da conta neste navegador (antes de avisar as outras abas)
+      mergeGuestBag(userData.id);
       
       setUser(userData);
       
@@ -220,17 +211,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
         (payload?.roles as string[])?.includes('admin');
 
       setIsAdmin(!!hasAdminRole);
+
+      sessionScheduler.start(response.accessToken);
+      broadcastAuthEvent({ type: 'login', user: userData });
       
     } catch (err) {
-      if (err instanceof ApiError) {
-        if (err.status === 401) {
-          setError('Email ou senha incorretos');
-        } else {
-          setError(err.message || 'Erro ao fazer login');
-        }
-      } else {
-        setError('Erro de conexão. Verifique sua internet.');
-      }
+      setError(getErrorMessage(err, {
+        overrides: { unauthorized: 'Email ou senha incorretos' },
+        fallback: 'Erro ao fazer login',
+      }));
       throw err;
     } finally {
       setIsLoading(false);
@@ -248,15 +237,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
       await login(email, password);
       
     } catch (err) {
-      if (err instanceof ApiError) {
-        if (err.status === 400) {
-          setError('Email já cadastrado ou inválido');
-        } else {
-          setError(err.message || 'Erro ao criar conta');
-        }
-      } else {
-        setError('Erro de conexão. Verifique sua internet.');
-      }
+      setError(getErrorMessage(err, {
+        // 400 no cadastro: mensagem própria em vez da genérica de validação
+        overrides: { validation: 'Email já cadastrado ou inválido', conflict: 'Este email já está cadastrado' },
+        fallback: 'Erro ao criar conta',
+      }));
       throw err;
     } finally {
       setIsLoading(false);
@@ -0,0 +1,133 @@
+import { createContext, useState, useEffect, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import type { Product } from '../services/api';
+import {
+  bagStorageKey,
+  clampQuantity,
+  createBagItem,
+  loadBag,
+  saveBag,
+  MAX_NOTE_LENGTH,
+  type BagItem,
+} from '../services/shoppingBag';
+import { getBagItemCount, getBagSubtotal } from '../utils/whatsapp';
+import { useAuth } from './AuthContext';
+
+// Tipos
+interface BagContextType {
+  items: BagItem[];
+  /** Soma das quantidades (badge da Navbar) */
+  itemCount: number;
+  subtotal: number;
+  isOpen: boolean;
+  addItem: (product: Product, quantity?: number) => void;
+  updateQuantity: (productId: string, quantity: number) => void;
+  updateNote: (productId: string, note: string) => void;
+  removeItem: (productId: string) => void;
+  clearBag: () => void;
+  openBag: () => void;
+  closeBag: () => void;
+}
+
+interface BagState {
+  /** Dono da sacola carregada; null = visitante */
+  owner: string | null;
+  items: BagItem[];
+}
+
+// Contexto
+const BagContext = createContext<BagContextType | undefined>(undefined);
+
+// Provider
+interface BagProviderProps {
+  children: ReactNode;
+}
+
+export function BagProvider({ children }: BagProviderProps) {
+  const { user } = useAuth();
+  const owner = user?.id ?? null;
+  const [state, setState] = useState<BagState>(() => ({ owner, items: loadBag(owner) }));
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Entrou ou saiu da conta: carregar a sacola do novo dono
+  // (a do visitante já foi somada à da conta no login)
+  if (state.owner !== owner) {
+    setState({ owner, items: loadBag(owner) });
+  }
+
+  // Salvar a cada alteração
+  useEffect(() => {
+    saveBag(state.owner, state.items);
+  }, [state]);
+
+  // Sacola alterada em outra aba
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== bagStorageKey(owner)) return;
+      setState({ owner, items: loadBag(owner) });
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [owner]);
+
+  const updateItems = useCallback((update: (items: BagItem[]) => BagItem[]) => {
+    setState(prev => ({ ...prev, items: update(prev.items) }));
+  }, []);
+
+  // Produto já na sacola: soma a quantidade
+  const addItem = useCallback((product: Product, quantity = 1) => {
+    updateItems(items => {
+      if (!items.some(item => item.productId === product.id)) {
+        return [...items, createBagItem(product, quantity)];
+      }
+      return items.map(item => item.productId === product.id
+        ? { ...item, quantity: clampQuantity(item.quantity + quantity) }
+        : item);
+    });
+  }, [updateItems]);
+
+  const updateQuantity = useCallback((productId: string, quantity: number) => {
+    updateItems(items => items.map(item => item.productId === productId
+      ? { ...item, quantity: clampQuantity(quantity) }
+      : item));
+  }, [updateItems]);
+
+  const updateNote = useCallback((productId: string, note: string) => {
+    updateItems(items => items.map(item => item.productId === productId
+      ? { ...item, note: note.slice(0, MAX_NOTE_LENGTH) }
+      : item));
+  }, [updateItems]);
+
+  const removeItem = useCallback((productId: string) => {
+    updateItems(items => items.filter(item => item.productId !== productId));
+  }, [updateItems]);
+
+  const clearBag = useCallback(() => {
+    updateItems(() => []);
+  }, [updateItems]);
+
+  const openBag = useCallback(() => setIsOpen(true), []);
+  const closeBag = useCallback(() => setIsOpen(false), []);
+
+  const value = useMemo(() => ({
+    items: state.items,
+    itemCount: getBagItemCount(state.items),
+    subtotal: getBagSubtotal(state.items),
+    isOpen,
+    addItem,
+    updateQuantity,
+    updateNote,
+    removeItem,
+    clearBag,
+    openBag,
+    closeBag,
+  }), [state.items, isOpen, addItem, updateQuantity, updateNote, removeItem, clearBag, openBag, closeBag]);
+
+  return (
+    <BagContext.Provider value={value}>
+      {children}
+    </BagContext.Provider>
+  );
+}
+
+export default BagContext;
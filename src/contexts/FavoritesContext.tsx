@@ -1,6 +1,6 @@
 import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type { ReactNode } from 'react';
-import { favoritesApi, type Product } from '../services/api';
+import { favoritesApi, getErrorMessage, type Product } from '../services/api';
 import { useAuth } from './AuthContext';
 
 // Tipos
@@ -61,7 +61,7 @@ export function FavoritesProvider({ children }: FavoritesProviderProps) {
       setHasLoaded(true);
     } catch (err) {
       console.error('Erro ao carregar favoritos:', err);
-      setError('Erro ao carregar favoritos');
+      setError(getErrorMessage(err, { fallback: 'Erro ao carregar favoritos' }));
     } finally {
       setIsLoading(false);
       isLoadingRef.current = false;
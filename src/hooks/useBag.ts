@@ -0,0 +1,15 @@
+import { useContext } from 'react';
+import BagContext from '../contexts/BagContext';
+
+/**
+ * Sacola de compras (itens, totais e a gaveta)
+ */
+export function useBag() {
+  const context = useContext(BagContext);
+  if (context === undefined) {
+    throw new Error('useBag deve ser usado dentro de um BagProvider');
+  }
+  return context;
+}
+
+export default useBag;
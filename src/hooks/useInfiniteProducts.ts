@@ -0,0 +1,160 @@
+import { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+import { productsApi, isAbortError, type Product, type ProductsQueryParams } from '../services/api';
+import { cacheService, cacheTags } from '../services/cache';
+
+interface InfiniteState {
+  hash: string;
+  enabled: boolean;
+  products: Product[];
+  total: number | null;
+  /** Próxima página a buscar (1 = nada carregado) */
+  nextPage: number;
+  isFetching: boolean;
+  error: unknown;
+}
+
+export interface UseInfiniteProductsOptions {
+  enabled?: boolean;
+  pageSize: number;
+  /** Itens a carregar de uma vez na primeira busca (ex: voltar para uma posição salva) */
+  initialCount?: number;
+}
+
+export interface UseInfiniteProductsResult {
+  products: Product[];
+  total: number;
+  /** Primeira leva ainda carregando */
+  isLoading: boolean;
+  /** Carregando mais itens no fim da lista */
+  isFetchingMore: boolean;
+  hasMore: boolean;
+  isError: boolean;
+  loadMore: () => void;
+  /** Repete a última busca que falhou */
+  retry: () => void;
+}
+
+const createState = (hash: string, enabled: boolean): InfiniteState => ({
+  hash,
+  enabled,
+  products: [],
+  total: null,
+  nextPage: 1,
+  isFetching: enabled,
+  error: null,
+});
+
+/**
+ * Listagem em rolagem contínua: as páginas são buscadas em sequência e acumuladas
+ * Cada página passa pelo productsApi/cacheService (voltar para a lista sai do cache)
+ * @param params - Filtros da listagem (page/maxResults são controlados aqui)
+ */
+export function useInfiniteProducts(
+  params: Omit<ProductsQueryParams, 'page' | 'maxResults'>,
+  options: UseInfiniteProductsOptions
+): UseInfiniteProductsResult {
+  const { enabled = true, pageSize } = options;
+  const hash = JSON.stringify([params, pageSize]);
+  const [state, setState] = useState<InfiniteState>(() => createState(hash, enabled));
+
+  // Filtros mudaram: recomeçar do início (a busca sai no efeito)
+  if (state.hash !== hash || state.enabled !== enabled) {
+    setState(createState(hash, enabled));
+  }
+
+  const paramsRef = useRef(params);
+  const initialCountRef = useRef(options.initialCount ?? 0);
+  const controllerRef = useRef<AbortController | null>(null);
+  const loadedCountRef = useRef(0);
+  useLayoutEffect(() => {
+    paramsRef.current = params;
+    loadedCountRef.current = state.products.length;
+  });
+
+  /**
+   * Busca as páginas a partir de fromPage até reunir pelo menos minCount itens (ou acabar a lista)
+   * Quem chama marca isFetching antes (na primeira leva, o estado já nasce buscando)
+   */
+  const fetchPages = useCallback(async (fromPage: number, minCount: number, reset: boolean) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
+    const loaded: Product[] = [];
+    let page = fromPage;
+    let total: number | null = null;
+
+    try {
+      do {
+        const list = await productsApi.getAll({ ...paramsRef.current, page, maxResults: pageSize }, true, { signal });
+        loaded.push(...list.products);
+        total = list.total;
+        page++;
+        if (list.products.length < pageSize) break;
+      } while (loaded.length < minCount);
+
+      if (signal.aborted) return;
+      setState(prev => ({
+        ...prev,
+        products: reset ? loaded : [...prev.products, ...loaded],
+        total,
+        nextPage: page,
+        isFetching: false,
+        error: null,
+      }));
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) return;
+      console.error('[Products] Falha ao carregar mais produtos:', error);
+      setState(prev => ({ ...prev, isFetching: false, error }));
+    }
+  }, [pageSize]);
+
+  // Primeira leva a cada mudança de filtro (só a primeira vez restaura a quantidade salva)
+  useEffect(() => {
+    if (!enabled) return;
+    const minCount = Math.max(initialCountRef.current, 1);
+    initialCountRef.current = 0;
+    fetchPages(1, minCount, true);
+    return () => controllerRef.current?.abort();
+  }, [hash, enabled, fetchPages]);
+
+  // Produto criado, editado ou excluído: recarregar a mesma quantidade já exibida
+  useEffect(() => {
+    if (!enabled) return;
+    return cacheService.subscribe((tags) => {
+      if (tags === null || tags.includes(cacheTags.list)) {
+        setState(prev => ({ ...prev, isFetching: true }));
+        fetchPages(1, Math.max(loadedCountRef.current, 1), true);
+      }
+    });
+  }, [enabled, fetchPages]);
+
+  const hasMore = state.total === null || state.products.length < state.total;
+
+  // Chamado a cada rolagem perto do fim: ignora enquanto busca, após erro ou no fim da lista
+  const loadMore = useCallback(() => {
+    if (!enabled || state.isFetching || state.error || !hasMore) return;
+    setState(prev => ({ ...prev, isFetching: true }));
+    fetchPages(state.nextPage, 1, false);
+  }, [enabled, state.isFetching, state.error, state.nextPage, hasMore, fetchPages]);
+
+  const retry = useCallback(() => {
+    if (!enabled || state.isFetching) return;
+    setState(prev => ({ ...prev, isFetching: true, error: null }));
+    fetchPages(state.nextPage, 1, state.nextPage === 1);
+  }, [enabled, state.isFetching, state.nextPage, fetchPages]);
+
+  return {
+    products: state.products,
+    total: state.total ?? 0,
+    isLoading: state.isFetching && state.products.length === 0,
+    isFetchingMore: state.isFetching && state.products.length > 0,
+    hasMore,
+    isError: state.error !== null,
+    loadMore,
+    retry,
+  };
+}
+
+export default useInfiniteProducts;
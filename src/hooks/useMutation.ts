@@ -0,0 +1,73 @@
+import { useState, useLayoutEffect, useCallback, useRef } from 'react';
+import { cacheService } from '../services/cache';
+
+export interface UseMutationOptions<TData, TVariables> {
+  /** Tags invalidadas após o sucesso; as queries que as observam são atualizadas */
+  invalidates?: string[] | ((data: TData, variables: TVariables) => string[]);
+  /** Atualização otimista; retorna a função que a desfaz em caso de erro */
+  onMutate?: (variables: TVariables) => (() => void) | void;
+}
+
+export interface UseMutationResult<TData, TVariables> {
+  /** Executa a mutação; rejeita com o erro da API (tratar com try/catch) */
+  mutate: (variables: TVariables) => Promise<TData>;
+  isPending: boolean;
+  error: unknown;
+  reset: () => void;
+}
+
+interface MutationState {
+  pending: number; // Mutações simultâneas em andamento
+  error: unknown;
+}
+
+/**
+ * Hook de escrita: executa a mutação, desfaz a atualização otimista em caso de erro
+ * e invalida as tags afetadas para que as queries inscritas se atualizem
+ * @param mutationFn - Chamada à API (ex: id => productsApi.delete(id))
+ */
+export function useMutation<TData, TVariables = void>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables> = {}
+): UseMutationResult<TData, TVariables> {
+  const [state, setState] = useState<MutationState>({ pending: 0, error: null });
+
+  const mutationFnRef = useRef(mutationFn);
+  const optionsRef = useRef(options);
+  useLayoutEffect(() => {
+    mutationFnRef.current = mutationFn;
+    optionsRef.current = options;
+  });
+
+  const mutate = useCallback(async (variables: TVariables): Promise<TData> => {
+    const { invalidates, onMutate } = optionsRef.current;
+    const rollback = onMutate?.(variables);
+    setState(prev => ({ pending: prev.pending + 1, error: null }));
+
+    try {
+      const data = await mutationFnRef.current(variables);
+      if (invalidates) {
+        cacheService.invalidateTags(typeof invalidates === 'function' ? invalidates(data, variables) : invalidates);
+      }
+      setState(prev => ({ ...prev, pending: prev.pending - 1 }));
+      return data;
+    } catch (error) {
+      rollback?.();
+      setState(prev => ({ pending: prev.pending - 1, error }));
+      throw error;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    mutate,
+    isPending: state.pending > 0,
+    error: state.error,
+    reset,
+  };
+}
+
+export default useMutation;
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useLayoutEffect, useRef } from 'react';
+import { useLocation, useNavigate, useNavigationType } from 'react-router-dom';
+import {
+  flushNavigationHistory,
+  getEntryState,
+  getPreviousEntry,
+  recordNavigation,
+  updateEntryState,
+} from '../services/navigationHistory';
+
+// Tempo máximo esperando a página crescer até a posição salva (dados ainda carregando)
+const RESTORE_TIMEOUT = 4000;
+
+/**
+ * Espera a página ter altura suficiente e rola até a posição salva
+ * Interação do usuário (rolar, tocar, teclado) cancela a espera
+ * @returns Função que cancela a restauração
+ */
+function restoreScroll(y: number): () => void {
+  const deadline = performance.now() + RESTORE_TIMEOUT;
+  let frame = 0;
+
+  const cancel = () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener('wheel', cancel);
+    window.removeEventListener('touchstart', cancel);
+    window.removeEventListener('keydown', cancel);
+  };
+
+  const attempt = () => {
+    const maxY = document.documentElement.scrollHeight - window.innerHeight;
+    if (maxY >= y || performance.now() > deadline) {
+      window.scrollTo(0, Math.min(y, Math.max(maxY, 0)));
+      cancel();
+      return;
+    }
+    frame = requestAnimationFrame(attempt);
+  };
+
+  window.addEventListener('wheel', cancel, { passive: true });
+  window.addEventListener('touchstart', cancel, { passive: true });
+  window.addEventListener('keydown', cancel);
+  attempt();
+  return cancel;
+}
+
+/**
+ * Gerencia o histórico do app (usado uma vez, na raiz das rotas)
+ * - Registra cada navegação na pilha que espelha o histórico do navegador
+ * - Salva a posição de rolagem de cada entrada
+ * - Voltar/avançar restaura a posição da entrada; nova rota começa no topo;
+ *   mudanças só na query (filtros) mantêm a posição
+ */
+export function useNavigationStateManager(): void {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const currentKeyRef = useRef<string | null>(null);
+  const currentPathRef = useRef<string | null>(null);
+
+  // A restauração passa a ser nossa; a sessão é salva ao sair da página
+  useEffect(() => {
+    const previous = window.history.scrollRestoration;
+    window.history.scrollRestoration = 'manual';
+    window.addEventListener('pagehide', flushNavigationHistory);
+    return () => {
+      window.history.scrollRestoration = previous;
+      window.removeEventListener('pagehide', flushNavigationHistory);
+    };
+  }, []);
+
+  // Posição salva a cada rolagem, sempre na entrada atual
+  useEffect(() => {
+    const handleScroll = () => {
+      if (currentKeyRef.current) updateEntryState(currentKeyRef.current, { scrollY: window.scrollY });
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  // Layout effect: a entrada muda antes dos eventos de rolagem da página nova (altura menor etc.)
+  useLayoutEffect(() => {
+    const { key, pathname, search } = location;
+    recordNavigation({ key, pathname, search }, navigationType);
+
+    const samePath = currentPathRef.current === pathname;
+    currentKeyRef.current = key;
+    currentPathRef.current = pathname;
+
+    if (navigationType === 'POP') {
+      return restoreScroll(getEntryState(key)?.scrollY ?? 0);
+    }
+    if (!samePath) {
+      window.scrollTo(0, 0);
+    }
+  }, [location, navigationType]);
+}
+
+export interface BackTarget {
+  /** Caminho com a query (filtros) da entrada anterior, ou o destino padrão */
+  to: string;
+  label: string;
+  /** true quando o destino é a entrada anterior do histórico (clicar volta de verdade) */
+  fromHistory: boolean;
+  onClick: (event: React.MouseEvent) => void;
+}
+
+const BACK_LABELS: [test: (pathname: string) => boolean, label: string][] = [
+  [p => p === '/produtos', 'Voltar para produtos'],
+  [p => p === '/favoritos', 'Voltar para favoritos'],
+  [p => p.startsWith('/produto/'), 'Voltar ao produto anterior'],
+  [p => p === '/admin', 'Voltar para o admin'],
+  [p => p === '/', 'Voltar para o início'],
+];
+
+/**
+ * Destino do botão "voltar" a partir do histórico real
+ * Clicar volta uma entrada (restaurando rolagem e filtros); sem histórico no app, usa o destino padrão
+ * @param fallback - Destino quando a página foi aberta direto (link externo, nova aba)
+ */
+export function useBackTarget(fallback: { to: string; label: string }): BackTarget {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const navigate = useNavigate();
+
+  const previous = getPreviousEntry(location.key, navigationType);
+  const fromHistory = previous !== null;
+
+  const onClick = useCallback((event: React.MouseEvent) => {
+    // Ctrl/Cmd+clique abre o link em outra aba normalmente
+    if (!fromHistory || event.metaKey || event.ctrlKey || event.shiftKey) return;
+    event.preventDefault();
+    navigate(-1);
+  }, [fromHistory, navigate]);
+
+  if (!previous) {
+    return { ...fallback, fromHistory, onClick };
+  }
+  return {
+    to: previous.pathname + previous.search,
+    label: BACK_LABELS.find(([test]) => test(previous.pathname))?.[1] ?? 'Voltar',
+    fromHistory,
+    onClick,
+  };
+}
@@ -1,7 +1,188 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { productsApi, type CategoryInfo } from '../services/api';
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { productsApi, type CategoryInfo, type ProductsQueryParams } from '../services/api';
+import { cacheTags } from '../services/cache';
+import type { ProductSortOrder } from '../services/productMerge';
+import { useQuery } from './useQuery';
 
-export type SortOption = 'default' | 'name-asc' | 'price-asc' | 'price-desc';
+// 'default': ordem da API, com os destaques da página no topo
+export type SortOption = 'default' | ProductSortOrder;
+
+const SORT_OPTIONS: SortOption[] = ['default', 'name-asc', 'price-asc', 'price-desc'];
+
+// Itens por página iniciais (também usados pelo loader da rota /produtos)
+export const DEFAULT_ITEMS_PER_PAGE = 6;
+export const ITEMS_PER_PAGE_OPTIONS = [6, 10, 20];
+// Janelas do filtro "novidades", em dias
+export const NEW_IN_DAYS_OPTIONS = [7, 30, 90];
+// Itens buscados por vez na rolagem contínua (múltiplo de 2, 3 e 4 colunas)
+export const INFINITE_PAGE_SIZE = 24;
+
+// Paginação numerada ou rolagem contínua
+export type ProductViewMode = 'pages' | 'infinite';
+
+/**
+ * Formato dos filtros na URL de /produtos (valores padrão são omitidos):
+ *   busca=<texto>             busca textual no catálogo
+ *   categoria=<nome>          categoria selecionada
+ *   subcategoria=<nome>       repetido para cada subcategoria (ex: subcategoria=Prata&subcategoria=Ouro)
+ *   preco=<min>-<max>         faixa de preço em reais; um dos lados pode faltar (preco=20-, preco=-80)
+ *   destaques=1               apenas produtos em destaque
+ *   novos=<dias>              cadastrados nos últimos N dias (um de NEW_IN_DAYS_OPTIONS)
+ *   ordem=<SortOption>        name-asc | price-asc | price-desc
+ *   pagina=<n>                inteiro >= 1
+ *   itens=<n>                 um de ITEMS_PER_PAGE_OPTIONS
+ *   exibicao=rolagem          rolagem contínua (pagina e itens são ignorados)
+ * Valores desconhecidos são ignorados e voltam ao padrão; demais parâmetros da URL são preservados
+ */
+export const FILTER_PARAMS = {
+  search: 'busca',
+  category: 'categoria',
+  subcategory: 'subcategoria',
+  price: 'preco',
+  featured: 'destaques',
+  newIn: 'novos',
+  sort: 'ordem',
+  page: 'pagina',
+  itemsPerPage: 'itens',
+  view: 'exibicao',
+} as const;
+
+export interface ProductFilterState {
+  search: string;
+  category: string | null;
+  subcategories: string[];
+  priceMin: number | null;
+  priceMax: number | null;
+  featuredOnly: boolean;
+  newInDays: number | null;
+  sortBy: SortOption;
+  page: number;
+  itemsPerPage: number;
+  view: ProductViewMode;
+}
+
+/** Filtros que a API não aplica: com qualquer um ativo, a listagem é filtrada no catálogo completo */
+export type FacetFilters = Pick<ProductFilterState, 'priceMin' | 'priceMax' | 'featuredOnly' | 'newInDays'>;
+
+export const DEFAULT_FILTERS: ProductFilterState = {
+  search: '',
+  category: null,
+  subcategories: [],
+  priceMin: null,
+  priceMax: null,
+  featuredOnly: false,
+  newInDays: null,
+  sortBy: 'default',
+  page: 1,
+  itemsPerPage: DEFAULT_ITEMS_PER_PAGE,
+  view: 'pages',
+};
+
+const parsePositiveInt = (value: string | null): number | null => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const number = Number(value);
+  return number >= 1 ? number : null;
+};
+
+const parsePrice = (value: string): number | null => {
+  if (!/^\d+(\.\d{1,2})?$/.test(value)) return null;
+  return Number(value);
+};
+
+// "20-80", "20-" ou "-80"; faixa invertida é corrigida
+const parsePriceRange = (value: string | null): Pick<ProductFilterState, 'priceMin' | 'priceMax'> => {
+  const match = value?.match(/^([\d.]*)-([\d.]*)$/);
+  if (!match) return { priceMin: null, priceMax: null };
+
+  const min = match[1] ? parsePrice(match[1]) : null;
+  const max = match[2] ? parsePrice(match[2]) : null;
+  if (min !== null && max !== null && min > max) return { priceMin: max, priceMax: min };
+  return { priceMin: min, priceMax: max };
+};
+
+/**
+ * Filtros de faceta (preço, destaques, novidades) ativos
+ */
+export const hasFacetFilters = (filters: FacetFilters): boolean =>
+  filters.priceMin !== null || filters.priceMax !== null || filters.featuredOnly || filters.newInDays !== null;
+
+/**
+ * Lê os filtros da URL validando o formato (usado pelo hook e pelo loader da rota)
+ */
+export function parseFilterParams(searchParams: URLSearchParams): ProductFilterState {
+  const sort = searchParams.get(FILTER_PARAMS.sort) as SortOption | null;
+  const itemsPerPage = parsePositiveInt(searchParams.get(FILTER_PARAMS.itemsPerPage));
+  const subcategories = searchParams.getAll(FILTER_PARAMS.subcategory).map(s => s.trim()).filter(Boolean);
+  const newInDays = parsePositiveInt(searchParams.get(FILTER_PARAMS.newIn));
+
+  return {
+    // Sem trim: o campo de busca reflete a URL enquanto o termo é digitado
+    search: searchParams.get(FILTER_PARAMS.search) ?? '',
+    category: searchParams.get(FILTER_PARAMS.category)?.trim() || null,
+    subcategories: Array.from(new Set(subcategories)),
+    ...parsePriceRange(searchParams.get(FILTER_PARAMS.price)),
+    featuredOnly: searchParams.get(FILTER_PARAMS.featured) === '1',
+    newInDays: newInDays && NEW_IN_DAYS_OPTIONS.includes(newInDays) ? newInDays : null,
+    sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : DEFAULT_FILTERS.sortBy,
+    page: parsePositiveInt(searchParams.get(FILTER_PARAMS.page)) ?? DEFAULT_FILTERS.page,
+    itemsPerPage: itemsPerPage && ITEMS_PER_PAGE_OPTIONS.includes(itemsPerPage)
+      ? itemsPerPage
+      : DEFAULT_FILTERS.itemsPerPage,
+    view: searchParams.get(FILTER_PARAMS.view) === 'rolagem' ? 'infinite' : DEFAULT_FILTERS.view,
+  };
+}
+
+/**
+ * Escreve os filtros na URL, mantendo os parâmetros que não são de filtro
+ */
+export function serializeFilterParams(
+  filters: ProductFilterState,
+  base?: URLSearchParams
+): URLSearchParams {
+  const params = new URLSearchParams(base);
+  Object.values(FILTER_PARAMS).forEach(key => params.delete(key));
+
+  if (filters.search.trim()) params.set(FILTER_PARAMS.search, filters.search);
+  if (filters.category) params.set(FILTER_PARAMS.category, filters.category);
+  filters.subcategories.forEach(sub => params.append(FILTER_PARAMS.subcategory, sub));
+  if (filters.priceMin !== null || filters.priceMax !== null) {
+    params.set(FILTER_PARAMS.price, `${filters.priceMin ?? ''}-${filters.priceMax ?? ''}`);
+  }
+  if (filters.featuredOnly) params.set(FILTER_PARAMS.featured, '1');
+  if (filters.newInDays !== null) params.set(FILTER_PARAMS.newIn, String(filters.newInDays));
+  if (filters.sortBy !== DEFAULT_FILTERS.sortBy) params.set(FILTER_PARAMS.sort, filters.sortBy);
+  if (filters.page !== DEFAULT_FILTERS.page) params.set(FILTER_PARAMS.page, String(filters.page));
+  if (filters.itemsPerPage !== DEFAULT_FILTERS.itemsPerPage) {
+    params.set(FILTER_PARAMS.itemsPerPage, String(filters.itemsPerPage));
+  }
+  if (filters.view === 'infinite') params.set(FILTER_PARAMS.view, 'rolagem');
+  return params;
+}
+
+/**
+ * Parâmetros da API para os filtros (mesmo formato no loader e na página, para casar o cache)
+ */
+export function toProductsQueryParams(filters: ProductFilterState): ProductsQueryParams {
+  // Na rolagem contínua, a primeira leva de itens
+  const isInfinite = filters.view === 'infinite';
+  return {
+    maxResults: isInfinite ? INFINITE_PAGE_SIZE : filters.itemsPerPage,
+    page: isInfinite ? 1 : filters.page,
+    ...(filters.category && { category: filters.category }),
+    ...(filters.subcategories.length > 0 && { subcategory: filters.subcategories }),
+    // Ordenação aplicada em todas as páginas, não só na exibida
+    ...(filters.sortBy !== 'default' && { sort: filters.sortBy }),
+  };
+}
+
+interface NavigateOptions {
+  /** Substitui a entrada do histórico em vez de criar uma nova (correções automáticas) */
+  replace?: boolean;
+}
+
+/** Alterações aplicáveis de uma vez (tudo exceto busca, paginação e exibição) */
+export type FilterChanges = Partial<Omit<ProductFilterState, 'search' | 'page' | 'itemsPerPage' | 'view'>>;
 
 export interface UseProductFiltersReturn {
   // Dados de categorias
@@ -9,20 +190,32 @@ export interface UseProductFiltersReturn {
   isLoadingCategories: boolean;
   
   // Estado de filtros
+  searchQuery: string;
   selectedCategory: string | null;
   selectedSubcategories: string[];
+  facets: FacetFilters;
   sortBy: SortOption;
+  /** Estado completo, no formato da URL */
+  filters: ProductFilterState;
   
   // Paginação
   currentPage: number;
   itemsPerPage: number;
+  viewMode: ProductViewMode;
   
   // Actions
+  setSearchQuery: (query: string) => void;
   setCategory: (category: string | null) => void;
   toggleSubcategory: (subcategory: string) => void;
+  setPriceRange: (min: number | null, max: number | null) => void;
+  setFeaturedOnly: (featuredOnly: boolean) => void;
+  setNewInDays: (days: number | null) => void;
   setSortBy: (sort: SortOption) => void;
-  setCurrentPage: (page: number) => void;
+  setCurrentPage: (page: number, options?: NavigateOptions) => void;
   setItemsPerPage: (count: number) => void;
+  setViewMode: (view: ProductViewMode) => void;
+  /** Aplica várias alterações numa única entrada do histórico (ex: modal mobile) */
+  applyFilters: (changes: FilterChanges) => void;
   clearFilters: () => void;
   
   // Helpers
@@ -34,68 +227,106 @@ export interface UseProductFiltersReturn {
 
 /**
  * Hook para gerenciar estado de filtros de produtos
- * Carrega categorias do endpoint /products/categories e gerencia seleções
+ * Carrega categorias do endpoint /products/categories e mantém as seleções na URL
+ * (recarregar ou compartilhar o link preserva os filtros; o botão voltar desfaz cada mudança)
+ * @param initialCategories - Categorias já carregadas (ex: pelo loader da rota)
  */
-export function useProductFilters(): UseProductFiltersReturn {
-  // Estado de categorias
-  const [categories, setCategories] = useState<CategoryInfo[]>([]);
-  const [isLoadingCategories, setIsLoadingCategories] = useState(true);
+export function useProductFilters(initialCategories?: CategoryInfo[]): UseProductFiltersReturn {
+  // Categorias stale são exibidas na hora e atualizadas no lugar após a revalidação
+  const { data: categoriesData, isLoading: isLoadingCategories } = useQuery<CategoryInfo[]>(
+    ['products', 'categories'],
+    (context) => productsApi.getCategories(true, context),
+    { tags: [cacheTags.categories], initialData: initialCategories }
+  );
+  const categories = useMemo(() => categoriesData ?? [], [categoriesData]);
   
-  // Estado de filtros
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [selectedSubcategories, setSelectedSubcategories] = useState<string[]>([]);
-  const [sortBy, setSortBy] = useState<SortOption>('default');
-  
-  // Paginação
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(6);
-
-  // Carregar categorias do endpoint dedicado
-  useEffect(() => {
-    const loadCategories = async () => {
-      setIsLoadingCategories(true);
-      try {
-        const data = await productsApi.getCategories();
-        setCategories(data);
-      } catch (error) {
-        console.error('Erro ao carregar categorias:', error);
-        setCategories([]);
-      } finally {
-        setIsLoadingCategories(false);
-      }
-    };
-    
-    loadCategories();
-  }, []);
+  // Estado de filtros (lido da URL)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.toString();
+  const parsedFilters = useMemo(() => parseFilterParams(new URLSearchParams(search)), [search]);
+
+  // Categoria/subcategorias que não existem mais são ignoradas (após carregar as categorias)
+  const filters = useMemo((): ProductFilterState => {
+    if (categories.length === 0) return parsedFilters;
+
+    const knownSubcategories = new Set(categories.flatMap(c => c.subcategories));
+    const category = categories.some(c => c.category === parsedFilters.category) ? parsedFilters.category : null;
+    const subcategories = parsedFilters.subcategories.filter(s => knownSubcategories.has(s));
+    if (category === parsedFilters.category && subcategories.length === parsedFilters.subcategories.length) {
+      return parsedFilters;
+    }
+    return { ...parsedFilters, category, subcategories };
+  }, [parsedFilters, categories]);
+
+  const { search: searchQuery, category: selectedCategory, subcategories: selectedSubcategories, sortBy, page: currentPage, itemsPerPage, view: viewMode } = filters;
+  const facets = useMemo((): FacetFilters => ({
+    priceMin: filters.priceMin,
+    priceMax: filters.priceMax,
+    featuredOnly: filters.featuredOnly,
+    newInDays: filters.newInDays,
+  }), [filters.priceMin, filters.priceMax, filters.featuredOnly, filters.newInDays]);
+
+  // Cada mudança é uma navegação: o histórico guarda os estados de filtro
+  const updateFilters = useCallback((changes: Partial<ProductFilterState>, options: NavigateOptions = {}) => {
+    setSearchParams(
+      prev => serializeFilterParams({ ...filters, ...changes }, prev),
+      { replace: options.replace, preventScrollReset: true }
+    );
+  }, [filters, setSearchParams]);
+
+  // Enquanto o termo é digitado a entrada do histórico é substituída: voltar desfaz a busca inteira
+  const setSearchQuery = useCallback((query: string) => {
+    updateFilters({ search: query, page: 1 }, { replace: searchQuery !== '' && query !== '' });
+  }, [searchQuery, updateFilters]);
 
   // Resetar página ao mudar filtros
   const setCategory = useCallback((category: string | null) => {
-    setSelectedCategory(category);
     // Não resetamos subcategorias pois elas são independentes/globais
-    setCurrentPage(1);
-  }, []);
+    updateFilters({ category, page: 1 });
+  }, [updateFilters]);
 
   const toggleSubcategory = useCallback((subcategory: string) => {
-    setSelectedSubcategories(prev => {
-      if (prev.includes(subcategory)) {
-        return prev.filter(s => s !== subcategory);
-      }
-      return [...prev, subcategory];
-    });
-    setCurrentPage(1);
-  }, []);
+    const subcategories = selectedSubcategories.includes(subcategory)
+      ? selectedSubcategories.filter(s => s !== subcategory)
+      : [...selectedSubcategories, subcategory];
+    updateFilters({ subcategories, page: 1 });
+  }, [selectedSubcategories, updateFilters]);
+
+  const setPriceRange = useCallback((min: number | null, max: number | null) => {
+    updateFilters({ priceMin: min, priceMax: max, page: 1 });
+  }, [updateFilters]);
+
+  const setFeaturedOnly = useCallback((featuredOnly: boolean) => {
+    updateFilters({ featuredOnly, page: 1 });
+  }, [updateFilters]);
+
+  const setNewInDays = useCallback((days: number | null) => {
+    updateFilters({ newInDays: days, page: 1 });
+  }, [updateFilters]);
+
+  const setSortBy = useCallback((sort: SortOption) => {
+    updateFilters({ sortBy: sort });
+  }, [updateFilters]);
+
+  const setCurrentPage = useCallback((page: number, options?: NavigateOptions) => {
+    updateFilters({ page }, options);
+  }, [updateFilters]);
 
   const handleSetItemsPerPage = useCallback((count: number) => {
-    setItemsPerPage(count);
-    setCurrentPage(1);
-  }, []);
+    updateFilters({ itemsPerPage: count, page: 1 });
+  }, [updateFilters]);
+
+  const setViewMode = useCallback((view: ProductViewMode) => {
+    updateFilters({ view, page: 1 });
+  }, [updateFilters]);
+
+  const applyFilters = useCallback((changes: FilterChanges) => {
+    updateFilters({ ...changes, page: 1 });
+  }, [updateFilters]);
 
   const clearFilters = useCallback(() => {
-    setSelectedCategory(null);
-    setSelectedSubcategories([]);
-    setSortBy('default');
-    setCurrentPage(1);
-  }, []);
+    updateFilters({ ...DEFAULT_FILTERS, itemsPerPage, view: viewMode });
+  }, [itemsPerPage, viewMode, updateFilters]);
 
   // Helpers
   const getAvailableSubcategories = useCallback((): string[] => {
@@ -123,8 +354,9 @@ export function useProductFilters(): UseProductFiltersReturn {
   }, [categories]);
 
   const hasActiveFilters = useMemo(() => {
-    return selectedCategory !== null || selectedSubcategories.length > 0 || sortBy !== 'default';
-  }, [selectedCategory, selectedSubcategories, sortBy]);
+    return searchQuery !== '' || selectedCategory !== null || selectedSubcategories.length > 0
+      || hasFacetFilters(facets) || sortBy !== 'default';
+  }, [searchQuery, selectedCategory, selectedSubcategories, facets, sortBy]);
 
   return {
     // Dados de categorias
@@ -132,20 +364,30 @@ export function useProductFilters(): UseProductFiltersReturn {
     isLoadingCategories,
     
     // Estado de filtros
+    searchQuery,
     selectedCategory,
     selectedSubcategories,
+    facets,
     sortBy,
+    filters,
     
     // Paginação
     currentPage,
     itemsPerPage,
+    viewMode,
     
     // Actions
+    setSearchQuery,
     setCategory,
     toggleSubcategory,
+    setPriceRange,
+    setFeaturedOnly,
+    setNewInDays,
     setSortBy,
     setCurrentPage,
     setItemsPerPage: handleSetItemsPerPage,
+    setViewMode,
+    applyFilters,
     clearFilters,
     
     // Helpers
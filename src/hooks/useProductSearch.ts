@@ -0,0 +1,47 @@
+import { useMemo } from 'react';
+import { productsApi, type Product, type ProductList } from '../services/api';
+import { cacheTags } from '../services/cache';
+import { createSearchIndex, type SearchField, type SearchResult } from '../utils/search';
+import { useQuery } from './useQuery';
+
+// Nome pesa mais que categoria/subcategoria, que pesam mais que a descrição
+export const PRODUCT_SEARCH_FIELDS: SearchField<Product>[] = [
+  { name: 'name', get: p => p.name, weight: 3 },
+  { name: 'category', get: p => p.category, weight: 2 },
+  { name: 'subcategory', get: p => p.subcategory, weight: 2 },
+  { name: 'description', get: p => p.description, weight: 1 },
+];
+
+export type ProductSearchResult = SearchResult<Product>;
+
+/**
+ * Busca nos produtos informados (o índice é refeito apenas quando a lista muda)
+ * @returns Resultados ordenados por relevância, ou null sem termo de busca
+ */
+export function useProductSearch(products: Product[] | undefined, query: string): ProductSearchResult[] | null {
+  const index = useMemo(() => createSearchIndex(products ?? [], PRODUCT_SEARCH_FIELDS), [products]);
+  return useMemo(() => (query.trim() ? index.search(query) : null), [index, query]);
+}
+
+/**
+ * Catálogo completo (busca e facetas são calculadas sobre ele no navegador)
+ */
+export function useCatalog(options: { enabled?: boolean; initialData?: ProductList } = {}) {
+  const { data, isLoading } = useQuery<ProductList>(
+    ['products', 'catalog'],
+    (context) => productsApi.getCatalog(true, context),
+    { enabled: options.enabled ?? true, tags: [cacheTags.list], initialData: options.initialData }
+  );
+  return { catalog: data, isLoading };
+}
+
+/**
+ * Busca no catálogo completo; o catálogo só é carregado quando há termo de busca (ou enabled)
+ */
+export function useCatalogSearch(query: string, options: { enabled?: boolean } = {}) {
+  const { catalog, isLoading } = useCatalog({ enabled: options.enabled ?? query.trim() !== '' });
+  const results = useProductSearch(catalog?.products, query);
+  return { results, isLoading };
+}
+
+export default useProductSearch;
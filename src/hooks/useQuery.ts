@@ -0,0 +1,228 @@
+import { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+import { cacheService } from '../services/cache';
+import { isAbortError, isRetryableError } from '../services/api';
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * Contexto recebido pela função de busca
+ * Compatível com as opções das APIs: productsApi.getAll(params, true, context)
+ */
+export interface QueryContext<T> {
+  signal: AbortSignal;
+  /** Atualiza os dados no lugar quando uma entrada stale é revalidada */
+  onRevalidate: (data: T) => void;
+}
+
+export interface UseQueryOptions<T> {
+  /** false mantém a query parada (ex: depende de outra query ou do login) */
+  enabled?: boolean;
+  /** Tags do cacheService observadas: invalidá-las refaz a busca */
+  tags?: string[];
+  /** Novas tentativas em falhas transitórias (rede, timeout, 5xx) */
+  retry?: number;
+  retryDelay?: (attempt: number) => number;
+  refetchOnWindowFocus?: boolean;
+  /** Manter os dados da chave anterior enquanto a nova carrega */
+  keepPreviousData?: boolean;
+  /** Dados já disponíveis para a chave atual (ex: loader da rota), exibidos sem estado de carregamento */
+  initialData?: T;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  status: QueryStatus;
+  /** Buscando sem dados para exibir (primeira carga da chave) */
+  isLoading: boolean;
+  /** Qualquer busca em andamento, inclusive atualizações em segundo plano */
+  isFetching: boolean;
+  isError: boolean;
+  refetch: () => Promise<void>;
+  /** Atualização local (ex: otimista) dos dados exibidos */
+  setData: (updater: (previous: T | undefined) => T | undefined) => void;
+}
+
+interface QueryState<T> {
+  hash: string;
+  enabled: boolean;
+  data: T | undefined;
+  error: unknown;
+  status: QueryStatus;
+  isFetching: boolean;
+}
+
+const DEFAULT_RETRY = 2;
+// Intervalo mínimo entre buscas disparadas pelo foco da janela
+const FOCUS_REFETCH_INTERVAL = 30 * 1000;
+
+const defaultRetryDelay = (attempt: number) => Math.min(1000 * 2 ** attempt, 8000);
+
+// Espera interrompida pelo cancelamento
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+const createState = <T>(hash: string, enabled: boolean, data?: T): QueryState<T> => ({
+  hash,
+  enabled,
+  data,
+  error: null,
+  status: data !== undefined ? 'success' : enabled ? 'loading' : 'idle',
+  isFetching: enabled,
+});
+
+/**
+ * Hook de leitura declarativa sobre as APIs e o cacheService
+ * - Refaz a busca quando a chave muda, cancelando a anterior
+ * - Repete falhas transitórias e atualiza no foco da janela
+ * - Atualiza sozinho quando uma mutação invalida uma das tags observadas
+ * @param key - Identifica os dados (ex: ['products', params]); comparada por valor
+ * @param fetcher - Busca os dados; deve repassar o contexto (signal/onRevalidate) para a API
+ */
+export function useQuery<T>(
+  key: readonly unknown[],
+  fetcher: (context: QueryContext<T>) => Promise<T>,
+  options: UseQueryOptions<T> = {}
+): UseQueryResult<T> {
+  const {
+    enabled = true,
+    tags,
+    refetchOnWindowFocus = true,
+    keepPreviousData = false,
+  } = options;
+
+  const hash = JSON.stringify(key);
+  const [state, setState] = useState<QueryState<T>>(() => createState(hash, enabled, options.initialData));
+
+  // Chave ou habilitação mudou: reiniciar o estado durante o render (a busca sai no efeito)
+  if (state.hash !== hash || state.enabled !== enabled) {
+    const keepData = state.hash === hash || keepPreviousData;
+    setState(createState(hash, enabled, keepData ? state.data : options.initialData));
+  }
+
+  // Sempre a versão mais recente da função de busca e das opções, sem refazer os efeitos
+  const fetcherRef = useRef(fetcher);
+  const optionsRef = useRef(options);
+  const hashRef = useRef(hash);
+  useLayoutEffect(() => {
+    fetcherRef.current = fetcher;
+    optionsRef.current = options;
+    hashRef.current = hash;
+  });
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const lastFetchRef = useRef(0);
+
+  const execute = useCallback(async (): Promise<void> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+    lastFetchRef.current = Date.now();
+
+    const { retry = DEFAULT_RETRY, retryDelay = defaultRetryDelay } = optionsRef.current;
+    const onRevalidate = (data: T) => {
+      if (!signal.aborted) {
+        setState(prev => ({ ...prev, data, error: null, status: 'success' }));
+      }
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await fetcherRef.current({ signal, onRevalidate });
+        if (!signal.aborted) {
+          setState(prev => ({ ...prev, data, error: null, status: 'success', isFetching: false }));
+        }
+        return;
+      } catch (error) {
+        if (signal.aborted || isAbortError(error)) return;
+
+        if (attempt < retry && isRetryableError(error)) {
+          console.log(`[Query] Nova tentativa ${attempt + 1}/${retry}`);
+          await wait(retryDelay(attempt), signal);
+          if (signal.aborted) return;
+          continue;
+        }
+
+        console.error(`[Query] Falha ao buscar ${hashRef.current}:`, error);
+        setState(prev => ({ ...prev, error, status: 'error', isFetching: false }));
+        return;
+      }
+    }
+  }, []);
+
+  const abortCurrent = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const refetch = useCallback((): Promise<void> => {
+    if (!enabled) return Promise.resolve();
+    setState(prev => ({
+      ...prev,
+      isFetching: true,
+      status: prev.data === undefined ? 'loading' : prev.status,
+    }));
+    return execute();
+  }, [enabled, execute]);
+
+  // Busca inicial e a cada mudança de chave
+  useEffect(() => {
+    if (!enabled) return;
+    execute();
+    return abortCurrent;
+  }, [hash, enabled, execute, abortCurrent]);
+
+  // Atualizar ao voltar para a aba/janela
+  useEffect(() => {
+    if (!enabled || !refetchOnWindowFocus) return;
+
+    const handleFocus = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (Date.now() - lastFetchRef.current < FOCUS_REFETCH_INTERVAL) return;
+      refetch();
+    };
+
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+    };
+  }, [enabled, refetchOnWindowFocus, refetch]);
+
+  // Atualizar quando uma mutação invalidar uma das tags observadas
+  const tagsKey = tags?.join('\n') ?? '';
+  useEffect(() => {
+    if (!enabled || !tagsKey) return;
+
+    const watched = new Set(tagsKey.split('\n'));
+    return cacheService.subscribe((invalidated) => {
+      if (invalidated === null || invalidated.some(tag => watched.has(tag))) {
+        refetch();
+      }
+    });
+  }, [enabled, tagsKey, refetch]);
+
+  const setData = useCallback((updater: (previous: T | undefined) => T | undefined) => {
+    setState(prev => ({ ...prev, data: updater(prev.data) }));
+  }, []);
+
+  return {
+    data: state.data,
+    error: state.error,
+    status: state.status,
+    isLoading: state.status === 'loading',
+    isFetching: state.isFetching,
+    isError: state.status === 'error',
+    refetch,
+    setData,
+  };
+}
+
+export default useQuery;
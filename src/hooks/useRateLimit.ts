@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { rateLimiter, type RateLimitScope } from '../services/rateLimit';
+
+export interface UseRateLimitReturn {
+  /** Se o orçamento do escopo está esgotado */
+  isLimited: boolean;
+  /** Segundos até o limite ser renovado (0 quando liberado) */
+  secondsUntilReset: number;
+}
+
+const getSecondsUntilReset = (scope: RateLimitScope): number => {
+  const { remaining, resetAt } = rateLimiter.getState(scope);
+  if (remaining === null || remaining > 0 || resetAt === null) return 0;
+  return Math.max(Math.ceil((resetAt - Date.now()) / 1000), 0);
+};
+
+/**
+ * Hook que acompanha o rate limit de um escopo com contagem regressiva
+ * @param scope - 'auth' para /auth/* ou 'global' (padrão)
+ */
+export function useRateLimit(scope: RateLimitScope = 'global'): UseRateLimitReturn {
+  const [secondsUntilReset, setSecondsUntilReset] = useState(() => getSecondsUntilReset(scope));
+
+  // Atualizar quando o rateLimiter registrar novos headers ou um 429
+  useEffect(() => {
+    return rateLimiter.subscribe((changedScope) => {
+      if (changedScope === scope) {
+        setSecondsUntilReset(getSecondsUntilReset(scope));
+      }
+    });
+  }, [scope]);
+
+  // Contagem regressiva enquanto limitado
+  useEffect(() => {
+    if (secondsUntilReset <= 0) return;
+
+    const timeoutId = setTimeout(() => {
+      setSecondsUntilReset(getSecondsUntilReset(scope));
+    }, 1000);
+
+    return () => clearTimeout(timeoutId);
+  }, [scope, secondsUntilReset]);
+
+  return {
+    isLimited: secondsUntilReset > 0,
+    secondsUntilReset,
+  };
+}
+
+/**
+ * Formata segundos como mm:ss para exibição da contagem regressiva
+ */
+export function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default useRateLimit;
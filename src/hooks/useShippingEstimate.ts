@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getErrorMessage } from '../services/errors';
+import { isAbortError } from '../services/upload';
+import {
+  estimateShipping,
+  getSavedCep,
+  isValidCep,
+  normalizeCep,
+  saveCep,
+  type ShippingEstimate,
+} from '../services/shipping';
+
+interface EstimateResult {
+  /** CEP + quantidade a que o resultado se refere */
+  key: string;
+  estimate: ShippingEstimate | null;
+  error: string | null;
+}
+
+export interface UseShippingEstimateResult {
+  /** CEP calculado (somente dígitos), ou '' */
+  cep: string;
+  estimate: ShippingEstimate | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Valida e calcula; false quando o CEP é inválido (o erro fica em error) */
+  submit: (cep: string) => boolean;
+  clear: () => void;
+}
+
+/**
+ * Frete estimado para o último CEP informado (salvo entre páginas e visitas)
+ * Mudar a quantidade de itens recalcula com o mesmo CEP
+ * @param itemCount - Peças no pacote (0 = nada a calcular)
+ */
+export function useShippingEstimate(itemCount: number): UseShippingEstimateResult {
+  const [cep, setCep] = useState(getSavedCep);
+  const [result, setResult] = useState<EstimateResult | null>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const key = cep && itemCount > 0 ? `${cep}:${itemCount}` : '';
+
+  useEffect(() => {
+    if (!key) return;
+    const controller = new AbortController();
+    estimateShipping(cep, { itemCount }, { signal: controller.signal })
+      .then(estimate => setResult({ key, estimate, error: null }))
+      .catch(error => {
+        if (controller.signal.aborted || isAbortError(error)) return;
+        setResult({
+          key,
+          estimate: null,
+          error: getErrorMessage(error, {
+            overrides: { 'not-found': 'CEP não encontrado', 'validation': 'CEP inválido' },
+            fallback: 'Não foi possível calcular o frete',
+          }),
+        });
+      });
+    return () => controller.abort();
+  }, [key, cep, itemCount]);
+
+  const submit = useCallback((value: string) => {
+    const digits = normalizeCep(value);
+    if (!isValidCep(digits)) {
+      setInputError('Digite um CEP válido com 8 números');
+      return false;
+    }
+    setInputError(null);
+    setCep(digits);
+    saveCep(digits);
+    return true;
+  }, []);
+
+  const clear = useCallback(() => {
+    setInputError(null);
+    setCep('');
+    saveCep('');
+  }, []);
+
+  const current = result?.key === key ? result : null;
+  return {
+    cep,
+    estimate: current?.estimate ?? null,
+    isLoading: !!key && !current,
+    error: inputError ?? current?.error ?? null,
+    submit,
+    clear,
+  };
+}
+
+export default useShippingEstimate;
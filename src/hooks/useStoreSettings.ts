@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { getStoreSettings, subscribeStoreSettings } from '../services/storeSettings';
+import type { StoreSettings } from '../services/api';
+
+/**
+ * Configurações da loja em uso; re-renderiza quando a API ou o Admin as atualizam
+ */
+export function useStoreSettings(): StoreSettings {
+  return useSyncExternalStore(subscribeStoreSettings, getStoreSettings);
+}
+
+export default useStoreSettings;
@@ -0,0 +1,141 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { isAbortError, type UploadRequestOptions } from '../services/upload';
+import { getErrorMessage } from '../services/errors';
+
+export type UploadStatus = 'pending' | 'uploading' | 'done' | 'error' | 'canceled';
+
+// Uma requisição de upload (ex: um produto com sua imagem)
+export interface UploadTask {
+  id: string;
+  size: number; // Bytes enviados, usado para ponderar o progresso geral
+  send: (options: UploadRequestOptions) => Promise<unknown>;
+}
+
+export interface UploadTaskState {
+  status: UploadStatus;
+  progress: number; // 0 a 1
+  error?: string;
+  size: number;
+}
+
+export interface UploadQueueResult {
+  done: number;     // Tarefas desta execução concluídas
+  failed: number;   // Tarefas desta execução com erro
+  canceled: boolean;
+}
+
+export interface UseUploadQueueReturn {
+  tasks: Record<string, UploadTaskState>;
+  isUploading: boolean;
+  /** Progresso geral (0 a 1) ponderado pelo tamanho de cada tarefa */
+  overallProgress: number;
+  run: (tasks: UploadTask[]) => Promise<UploadQueueResult>;
+  cancel: () => void;
+  reset: () => void;
+}
+
+/**
+ * Hook que envia uploads em sequência com progresso por tarefa e cancelamento
+ * Tarefas já concluídas mantêm o estado entre execuções: para tentar novamente,
+ * basta chamar run() apenas com as que falharam
+ */
+export function useUploadQueue(): UseUploadQueueReturn {
+  const [tasks, setTasks] = useState<Record<string, UploadTaskState>>({});
+  const [isUploading, setIsUploading] = useState(false);
+  const statesRef = useRef<Record<string, UploadTaskState>>({});
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const updateTask = useCallback((id: string, patch: Partial<UploadTaskState>) => {
+    statesRef.current = {
+      ...statesRef.current,
+      [id]: { ...statesRef.current[id], ...patch },
+    };
+    setTasks(statesRef.current);
+  }, []);
+
+  const run = useCallback(async (queue: UploadTask[]): Promise<UploadQueueResult> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsUploading(true);
+
+    queue.forEach(task => {
+      updateTask(task.id, { status: 'pending', progress: 0, error: undefined, size: task.size });
+    });
+
+    try {
+      for (const task of queue) {
+        if (controller.signal.aborted) {
+          updateTask(task.id, { status: 'canceled' });
+          continue;
+        }
+
+        updateTask(task.id, { status: 'uploading', progress: 0 });
+
+        try {
+          await task.send({
+            signal: controller.signal,
+            onUploadProgress: ({ loaded, total }) => {
+              updateTask(task.id, { progress: total > 0 ? loaded / total : 0 });
+            },
+          });
+          updateTask(task.id, { status: 'done', progress: 1 });
+        } catch (error) {
+          if (isAbortError(error) || controller.signal.aborted) {
+            updateTask(task.id, { status: 'canceled', progress: 0 });
+          } else {
+            updateTask(task.id, {
+              status: 'error',
+              progress: 0,
+              error: getErrorMessage(error, { fallback: 'Falha no envio' }),
+            });
+          }
+        }
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsUploading(false);
+      }
+    }
+
+    // Só as tarefas desta execução: as concluídas em tentativas anteriores já foram contadas
+    const states = queue.map(task => statesRef.current[task.id]);
+    return {
+      done: states.filter(s => s.status === 'done').length,
+      failed: states.filter(s => s.status === 'error').length,
+      canceled: controller.signal.aborted,
+    };
+  }, [updateTask]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    statesRef.current = {};
+    setTasks({});
+  }, []);
+
+  // Cancelar uploads em andamento ao desmontar
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  const states = Object.values(tasks);
+  const totalSize = states.reduce((sum, s) => sum + Math.max(s.size, 1), 0);
+  const overallProgress = totalSize > 0
+    ? states.reduce((sum, s) => sum + s.progress * Math.max(s.size, 1), 0) / totalSize
+    : 0;
+
+  return {
+    tasks,
+    isUploading,
+    overallProgress,
+    run,
+    cancel,
+    reset,
+  };
+}
+
+export default useUploadQueue;
@@ -2,9 +2,37 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { createAppRouter } from './routes/router'
+import { cacheService } from './services/cache'
+import { IndexedDBCacheBackend } from './services/cacheStorage'
+import { loadStoreSettings } from './services/storeSettings'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Espera máxima pelo cache persistente antes do primeiro render
+const CACHE_HYDRATION_TIMEOUT = 300
+
+// Cache persistente (desativável com VITE_PERSISTENT_CACHE=false)
+const persistenceEnabled = import.meta.env.VITE_PERSISTENT_CACHE !== 'false' && IndexedDBCacheBackend.isSupported()
+
+const hydrateCache = persistenceEnabled
+  ? cacheService.enablePersistence(new IndexedDBCacheBackend()).catch(error => {
+      console.warn('[Cache] Falha ao restaurar cache persistente:', error)
+    })
+  : Promise.resolve()
+
+// Catálogo salvo aparece já no primeiro render em visitas repetidas
+Promise.race([
+  hydrateCache,
+  new Promise(resolve => setTimeout(resolve, CACHE_HYDRATION_TIMEOUT)),
+]).finally(() => {
+  // Contatos e textos da loja: padrões até a API responder
+  loadStoreSettings()
+
+  // Criado aqui, não ao importar o App: os loaders da rota inicial já encontram o cache restaurado
+  const router = createAppRouter()
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App router={router} />
+    </StrictMode>,
+  )
+})
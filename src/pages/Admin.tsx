@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
@@ -16,25 +16,74 @@ import {
   IconCamera,
   IconCheck
 } from '../components/Icons';
-import { productsApi, ApiError } from '../services/api';
-import type { Product } from '../services/api';
+import { productsApi, getErrorMessage, isAbortError } from '../services/api';
+import type { Product, ProductList, ProductsQueryParams, UploadRequestOptions } from '../services/api';
+import { cacheTags } from '../services/cache';
 import { useAuth } from '../contexts/AuthContext';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useFetcher, useLoaderData, useLocation, useNavigate } from 'react-router-dom';
+import { ADMIN_ITEMS_PER_PAGE, type adminLoader } from '../routes/loaders';
+import type { AdminActionResult } from '../routes/actions';
+import { getAdminCommand, type AdminCommand } from '../routes/adminCommands';
 import { ToastContainer } from '../components/Toast';
+import { ImageCropModal } from '../components/ImageCropModal';
+import { Highlight } from '../components/Highlight';
+import { CustomOrdersInbox } from '../components/CustomOrdersInbox';
+import { StoreSettingsPanel } from '../components/StoreSettingsPanel';
 import { useToast } from '../hooks/useToast';
 import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { useQuery } from '../hooks/useQuery';
+import { useProductSearch, type ProductSearchResult } from '../hooks/useProductSearch';
+import { useUploadQueue, type UploadQueueResult, type UploadTaskState } from '../hooks/useUploadQueue';
 import { getSubcategoryColor } from '../utils/subcategoryColors';
 import styles from './Admin.module.css';
 import modalStyles from '../components/LoginModal.module.css';
 
+// Barra de progresso de upload
+const UPLOAD_STATUS_LABELS: Record<UploadTaskState['status'], string> = {
+  pending: 'Aguardando',
+  uploading: 'Enviando',
+  done: 'Enviado',
+  error: 'Falhou',
+  canceled: 'Cancelado',
+};
+
+interface UploadProgressBarProps {
+  progress: number; // 0 a 1
+  status: UploadTaskState['status'];
+  label?: string;
+}
+
+const UploadProgressBar = ({ progress, status, label }: UploadProgressBarProps) => {
+  const percent = Math.round(progress * 100);
+  return (
+    <div className={styles.uploadProgress} data-status={status}>
+      <div className={styles.uploadProgressHeader}>
+        <span>{label ?? UPLOAD_STATUS_LABELS[status]}</span>
+        <span>{status === 'uploading' || status === 'done' ? `${percent}%` : UPLOAD_STATUS_LABELS[status]}</span>
+      </div>
+      <div
+        className={styles.uploadProgressTrack}
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className={styles.uploadProgressFill} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
 // Modal de produto (criar/editar)
 interface ProductModalProps {
   isOpen: boolean;
   product: Product | null;
   onClose: () => void;
-  onSave: (formData: FormData, isEdit: boolean) => Promise<void>;
+  onSave: (formData: FormData, isEdit: boolean, upload: UploadRequestOptions) => Promise<void>;
 }
 
+const PRODUCT_UPLOAD_TASK = 'product';
+
 const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) => {
   const [name, setName] = useState('');
   const [price, setPrice] = useState('');
@@ -42,15 +91,28 @@ const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) =
   const [subcategory, setSubcategory] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [fileToCrop, setFileToCrop] = useState<File | null>(null);
   const [existingCategories, setExistingCategories] = useState<string[]>([]);
   const [existingSubcategories, setExistingSubcategories] = useState<string[]>([]);
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
   const [showSubcategoryDropdown, setShowSubcategoryDropdown] = useState(false);
+  const upload = useUploadQueue();
+  const uploadState = upload.tasks[PRODUCT_UPLOAD_TASK];
+  const isSubmitting = upload.isUploading;
   
   const { spring, overlayTransition, modalVariants, overlayVariants } = useMobileAnimations();
 
-  useEffect(() => {
+  // Fechar o modal cancela um upload em andamento
+  const { reset: resetUpload } = upload;
+  const handleClose = useCallback(() => {
+    resetUpload();
+    onClose();
+  }, [resetUpload, onClose]);
+
+  // Sincronizar o formulário ao abrir ou trocar de produto (durante o render, sem efeito em cascata)
+  const [syncedWith, setSyncedWith] = useState<{ product: Product | null; isOpen: boolean } | null>(null);
+  if (!syncedWith || syncedWith.product !== product || syncedWith.isOpen !== isOpen) {
+    setSyncedWith({ product, isOpen });
     if (product) {
       setName(product.name);
       setPrice(product.price.toString());
@@ -65,7 +127,7 @@ const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) =
       setImageFile(null);
       setImagePreview(null);
     }
-  }, [product, isOpen]);
+  }
 
   // Carregar categorias e subcategorias existentes
   useEffect(() => {
@@ -108,47 +170,62 @@ const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) =
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
       if (e.key === 'Escape' && isOpen) {
-        onClose();
+        // Com o recorte aberto, ESC fecha apenas o recorte
+        if (fileToCrop) {
+          setFileToCrop(null);
+        } else {
+          handleClose();
+        }
       }
     };
     window.addEventListener('keydown', handleEsc);
     return () => window.removeEventListener('keydown', handleEsc);
-  }, [isOpen, onClose]);
+  }, [isOpen, handleClose, fileToCrop]);
 
+  // A foto escolhida passa pelo recorte/compressão antes de virar a imagem do produto
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      setImageFile(file);
-      setImagePreview(URL.createObjectURL(file));
+      setFileToCrop(file);
     }
+    e.target.value = '';
+  };
+
+  const handleCropConfirm = (processed: File) => {
+    setImageFile(processed);
+    setImagePreview(URL.createObjectURL(processed));
+    setFileToCrop(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSubmitting(true);
 
-    try {
-      const formData = new FormData();
-      formData.append('name', name);
-      formData.append('price', price);
-      formData.append('category', category);
-      if (subcategory.trim()) {
-        formData.append('subcategory', subcategory.trim());
-      }
-      if (imageFile) {
-        formData.append('image', imageFile);
-      }
+    const formData = new FormData();
+    formData.append('name', name);
+    formData.append('price', price);
+    formData.append('category', category);
+    if (subcategory.trim()) {
+      formData.append('subcategory', subcategory.trim());
+    }
+    if (imageFile) {
+      formData.append('image', imageFile);
+    }
 
-      await onSave(formData, !!product);
-      onClose();
-    } catch {
-      // Erro tratado no componente pai
-    } finally {
-      setIsSubmitting(false);
+    // Erros são exibidos pelo componente pai; o formulário fica preservado para tentar novamente
+    const result = await upload.run([{
+      id: PRODUCT_UPLOAD_TASK,
+      size: imageFile?.size ?? 0,
+      send: (options) => onSave(formData, !!product, options),
+    }]);
+
+    if (result.failed === 0 && !result.canceled) {
+      handleClose();
     }
   };
 
   return createPortal(
+    <>
+    <ImageCropModal file={fileToCrop} onCancel={() => setFileToCrop(null)} onConfirm={handleCropConfirm} />
     <AnimatePresence>
       {isOpen && (
         <motion.div
@@ -158,7 +235,7 @@ const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) =
           animate="visible"
           exit="exit"
           transition={overlayTransition}
-          onClick={(e) => e.target === e.currentTarget && onClose()}
+          onClick={(e) => e.target === e.currentTarget && handleClose()}
         >
           <motion.div
             className={modalStyles.modal}
@@ -170,7 +247,7 @@ const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) =
           >
             <button
               className={modalStyles.closeBtn}
-              onClick={onClose}
+              onClick={handleClose}
               aria-label="Fechar modal"
             >
               <img src="/closeicon.svg" alt="Fechar" width={24} height={24} />
@@ -347,22 +424,34 @@ const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) =
                   </div>
                 </div>
 
+                {uploadState && uploadState.status !== 'done' && (
+                  <UploadProgressBar
+                    progress={uploadState.progress}
+                    status={uploadState.status}
+                    label={uploadState.status === 'error' ? uploadState.error : imageFile ? 'Enviando imagem' : 'Salvando'}
+                  />
+                )}
+
                 <button
                   type="submit"
                   className={modalStyles.submitBtn}
                   disabled={isSubmitting || !name || !price || !category}
                 >
-                  {isSubmitting ? 'Salvando...' : product ? 'Atualizar Produto' : 'Criar Produto'}
+                  {isSubmitting
+                    ? `Salvando... ${Math.round(upload.overallProgress * 100)}%`
+                    : uploadState?.status === 'error' || uploadState?.status === 'canceled'
+                      ? 'Tentar novamente'
+                      : product ? 'Atualizar Produto' : 'Criar Produto'}
                 </button>
 
                 <div style={{ textAlign: 'center' }}>
                   <button
                     type="button"
-                    onClick={onClose}
+                    onClick={isSubmitting ? upload.cancel : handleClose}
                     className={modalStyles.switchLink}
                     style={{ fontSize: '0.9rem' }}
                   >
-                    Cancelar
+                    {isSubmitting ? 'Cancelar envio' : 'Cancelar'}
                   </button>
                 </div>
               </form>
@@ -370,7 +459,8 @@ const ProductModal = ({ isOpen, product, onClose, onSave }: ProductModalProps) =
           </motion.div>
         </motion.div>
       )}
-    </AnimatePresence>,
+    </AnimatePresence>
+    </>,
     document.body
   );
 };
@@ -438,29 +528,49 @@ const ConfirmDeleteModal = ({ isOpen, productName, onClose, onConfirm, isDeletin
 };
 
 // Modal de criação em massa
+// Cada produto é enviado em sua própria requisição: falhas são repetidas individualmente
 interface BulkProductModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (formData: FormData) => Promise<void>;
+  onSave: (formData: FormData, upload: UploadRequestOptions) => Promise<void>;
+  onComplete: (result: UploadQueueResult) => void;
 }
 
-const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) => {
-  const [drafts, setDrafts] = useState<Array<{
-    id: number;
-    name: string;
-    price: string;
-    category: string;
-    subcategory: string;
-    imageFile: File | null;
-    imagePreview: string | null;
-  }>>([]);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+interface BulkDraft {
+  id: number;
+  name: string;
+  price: string;
+  category: string;
+  subcategory: string;
+  imageFile: File | null;
+  imagePreview: string | null;
+}
+
+const createDraft = (): BulkDraft => ({
+  id: Date.now() + Math.random(),
+  name: '',
+  price: '',
+  category: '',
+  subcategory: '',
+  imageFile: null,
+  imagePreview: null
+});
+
+const BulkProductModal = ({ isOpen, onClose, onSave, onComplete }: BulkProductModalProps) => {
+  const [drafts, setDrafts] = useState<BulkDraft[]>(() => [createDraft()]);
+  const [cropTarget, setCropTarget] = useState<{ draftId: number; file: File } | null>(null);
   const [existingCategories, setExistingCategories] = useState<string[]>([]);
   const [existingSubcategories, setExistingSubcategories] = useState<string[]>([]);
   const [activeDropdown, setActiveDropdown] = useState<{index: number, type: 'category' | 'subcategory'} | null>(null);
+  const upload = useUploadQueue();
+  const isSubmitting = upload.isUploading;
   
   const { spring, overlayTransition, modalVariants, overlayVariants } = useMobileAnimations();
 
+  const addDraft = () => {
+    setDrafts(prev => [...prev, createDraft()]);
+  };
+
   // Carregar categorias e subcategorias existentes
   useEffect(() => {
     const loadExistingData = async () => {
@@ -483,24 +593,9 @@ const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) =>
     
     if (isOpen) {
       loadExistingData();
-      if (drafts.length === 0) {
-        addDraft();
-      }
     }
   }, [isOpen]);
 
-  const addDraft = () => {
-    setDrafts(prev => [...prev, {
-      id: Date.now(),
-      name: '',
-      price: '',
-      category: '',
-      subcategory: '',
-      imageFile: null,
-      imagePreview: null
-    }]);
-  };
-
   const removeDraft = (id: number) => {
     if (drafts.length > 1) {
       setDrafts(prev => prev.filter(d => d.id !== id));
@@ -514,48 +609,74 @@ const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) =>
   const handleImageChange = (id: number, e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      updateDraft(id, 'imageFile', file);
-      updateDraft(id, 'imagePreview', URL.createObjectURL(file));
+      setCropTarget({ draftId: id, file });
     }
+    e.target.value = '';
+  };
+
+  const handleCropConfirm = (processed: File) => {
+    if (cropTarget) {
+      updateDraft(cropTarget.draftId, 'imageFile', processed);
+      updateDraft(cropTarget.draftId, 'imagePreview', URL.createObjectURL(processed));
+    }
+    setCropTarget(null);
+  };
+
+  // Produtos já enviados em uma tentativa anterior não são reenviados
+  const isDraftUploaded = (id: number) => upload.tasks[String(id)]?.status === 'done';
+  const pendingDrafts = drafts.filter(d => !isDraftUploaded(d.id));
+  const hasFailedDrafts = drafts.some(d => {
+    const status = upload.tasks[String(d.id)]?.status;
+    return status === 'error' || status === 'canceled';
+  });
+
+  // Fechar descarta a tentativa: ao reabrir, nada de status antigos nem rascunhos já enviados
+  const handleClose = () => {
+    upload.reset();
+    setDrafts([createDraft()]);
+    onClose();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (drafts.some(d => !d.name || !d.price || !d.category || !d.imageFile)) {
+    if (pendingDrafts.some(d => !d.name || !d.price || !d.category || !d.imageFile)) {
       alert('Preencha todos os campos obrigatórios e adicione imagens para todos os produtos.');
       return;
     }
 
-    setIsSubmitting(true);
-    try {
+    const tasks = pendingDrafts.map(d => {
       const formData = new FormData();
-      const productsData = drafts.map(d => ({
+      formData.append('products', JSON.stringify([{
         name: d.name,
         price: parseFloat(d.price),
         category: d.category,
         subcategory: d.subcategory,
         is_featured: false
-      }));
+      }]));
+      if (d.imageFile) {
+        formData.append('images', d.imageFile);
+      }
 
-      formData.append('products', JSON.stringify(productsData));
-      
-      drafts.forEach(d => {
-        if (d.imageFile) {
-          formData.append('images', d.imageFile);
-        }
-      });
+      return {
+        id: String(d.id),
+        size: d.imageFile?.size ?? 0,
+        send: (options: UploadRequestOptions) => onSave(formData, options),
+      };
+    });
+
+    const result = await upload.run(tasks);
+    onComplete(result);
 
-      await onSave(formData);
-      setDrafts([]);
+    if (result.failed === 0 && !result.canceled) {
+      setDrafts([createDraft()]);
+      upload.reset();
       onClose();
-    } catch (err) {
-      console.error(err);
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
   return createPortal(
+    <>
+    <ImageCropModal file={cropTarget?.file ?? null} onCancel={() => setCropTarget(null)} onConfirm={handleCropConfirm} />
     <AnimatePresence>
       {isOpen && (
         <motion.div
@@ -575,7 +696,7 @@ const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) =>
             exit="exit"
             transition={spring}
           >
-            <button className={modalStyles.closeBtn} onClick={onClose}>
+            <button className={modalStyles.closeBtn} onClick={handleClose}>
               <img src="/closeicon.svg" alt="Fechar" width={24} height={24} />
             </button>
 
@@ -589,13 +710,17 @@ const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) =>
 
             <div style={{ flex: 1, overflowY: 'auto', padding: '0 2rem 2rem' }}>
               <form id="bulkForm" onSubmit={handleSubmit}>
-                {drafts.map((draft, index) => (
+                {drafts.map((draft, index) => {
+                  const uploadState = upload.tasks[String(draft.id)];
+                  const isLocked = isSubmitting || uploadState?.status === 'done';
+                  return (
                   <motion.div 
                     key={draft.id} 
                     initial={{ opacity: 0, x: -20 }}
                     animate={{ opacity: 1, x: 0 }}
                     className={styles.bulkItemWrapper}
                   >
+                    <fieldset disabled={isLocked} className={styles.bulkFieldset}>
                     <div className={styles.bulkGrid}>
                       {/* Image Upload */}
                       <div>
@@ -713,8 +838,17 @@ const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) =>
                          </div>
                       </div>
                     </div>
+                    </fieldset>
+
+                    {uploadState && (
+                      <UploadProgressBar
+                        progress={uploadState.progress}
+                        status={uploadState.status}
+                        label={uploadState.status === 'error' ? uploadState.error : undefined}
+                      />
+                    )}
                     
-                    {drafts.length > 1 && (
+                    {drafts.length > 1 && !isLocked && (
                       <button 
                         type="button" 
                         onClick={() => removeDraft(draft.id)}
@@ -732,11 +866,13 @@ const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) =>
                       </button>
                     )}
                   </motion.div>
-                ))}
+                  );
+                })}
 
                 <button 
                   type="button" 
                   onClick={addDraft}
+                  disabled={isSubmitting}
                   style={{ 
                     width: '100%', 
                     padding: '1rem', 
@@ -757,28 +893,43 @@ const BulkProductModal = ({ isOpen, onClose, onSave }: BulkProductModalProps) =>
               </form>
             </div>
 
+            {Object.keys(upload.tasks).length > 0 && (
+              <div style={{ padding: '1rem 2rem 0' }}>
+                <UploadProgressBar
+                  progress={upload.overallProgress}
+                  status={isSubmitting ? 'uploading' : hasFailedDrafts ? 'error' : 'done'}
+                  label={`${drafts.length - pendingDrafts.length} de ${drafts.length} produtos enviados`}
+                />
+              </div>
+            )}
+
             <div className={modalStyles.footer} style={{ padding: '1.5rem 2rem', borderTop: '1px solid #eee', display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
                <button 
                   type="button" 
-                  onClick={onClose}
+                  onClick={isSubmitting ? upload.cancel : handleClose}
                   className={styles.cancelBtn}
                >
-                 Cancelar
+                 {isSubmitting ? 'Cancelar envio' : 'Cancelar'}
                </button>
                <button 
                   type="submit" 
                   form="bulkForm"
                   className={modalStyles.submitBtn}
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || pendingDrafts.length === 0}
                   style={{ width: 'auto', padding: '0 2rem', margin: 0 }}
                >
-                 {isSubmitting ? 'Salvando...' : `Salvar ${drafts.length} Produtos`}
+                 {isSubmitting
+                   ? `Enviando... ${Math.round(upload.overallProgress * 100)}%`
+                   : hasFailedDrafts
+                     ? `Tentar novamente (${pendingDrafts.length})`
+                     : `Salvar ${pendingDrafts.length} Produtos`}
                </button>
             </div>
           </motion.div>
         </motion.div>
       )}
-    </AnimatePresence>,
+    </AnimatePresence>
+    </>,
     document.body
   );
 };
@@ -867,46 +1018,95 @@ const MobileActionModal = ({ isOpen, product, onClose, onEdit, onDelete, onToggl
   );
 };
 
-// Componente principal Admin
-export const Admin = () => {
-  const { isAuthenticated, isAdmin } = useAuth();
-  const [products, setProducts] = useState<Product[]>([]);
-  // We keep a separate state for categories/subcategories options
-  const [filterOptions, setFilterOptions] = useState<{categories: string[], subcategories: string[]}>({ categories: [], subcategories: [] });
-  
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  
-  // Pagination & Filtering State
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(10);
-  const [totalProducts, setTotalProducts] = useState(0);
-  const [selectedCategory, setSelectedCategory] = useState('');
-  const [selectedSubcategory, setSelectedSubcategory] = useState('');
-  
-  // Sorting State
-  const [sortConfig, setSortConfig] = useState<{ key: keyof Product | 'featured'; direction: 'asc' | 'desc' } | null>(null);
+// Opções de filtro e estatísticas do painel a partir do catálogo
+const summarizeCatalog = (products: Product[]) => {
+  const categories = new Set<string>();
+  const subcategories = new Set<string>();
+  let recentCount = 0;
+  let featuredCount = 0;
+
+  const weekAgo = new Date();
+  weekAgo.setDate(weekAgo.getDate() - 7);
+
+  products.forEach(p => {
+    if (p.category) categories.add(p.category);
+    if (p.subcategory) subcategories.add(p.subcategory);
+    if (p.is_featured) featuredCount++;
+    if (p.created_at && new Date(p.created_at) > weekAgo) recentCount++;
+  });
 
-  // Selection State
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  return {
+    filterOptions: {
+      categories: Array.from(categories).sort(),
+      subcategories: Array.from(subcategories).sort(),
+    },
+    stats: {
+      categoriesCount: categories.size,
+      recentCount,
+      featuredCount,
+    },
+  };
+};
 
-  // Statistics State
-  const [stats, setStats] = useState({
-    productsCount: 0,
-    categoriesCount: 0,
-    recentCount: 0,
-    featuredCount: 0
-  });
+type CatalogSummary = ReturnType<typeof summarizeCatalog>;
+
+interface AdminProductsTabProps {
+  products: Product[]; // Página atual, já com o estado otimista das actions
+  matchesById: Map<string, ProductSearchResult['matches']>;
+  isLoadingProducts: boolean;
+  totalProducts: number;
+  stats: CatalogSummary['stats'];
+  filterOptions: CatalogSummary['filterOptions'];
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
+  selectedCategory: string;
+  onCategoryChange: (category: string) => void;
+  selectedSubcategory: string;
+  onSubcategoryChange: (subcategory: string) => void;
+  currentPage: number;
+  onPageChange: (page: number) => void;
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  isTogglingFeatured: boolean;
+  onToggleFeatured: (product: Product) => void;
+  onEdit: (product: Product) => void;
+  onDelete: (product: Product) => void;
+  onBulkDelete: () => void;
+  onOpenActions: (product: Product) => void;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// Aba de produtos: estatísticas, tabela (lista no mobile) e pedidos especiais
+const AdminProductsTab = ({
+  products,
+  matchesById,
+  isLoadingProducts,
+  totalProducts,
+  stats,
+  filterOptions,
+  searchQuery,
+  onSearchChange,
+  selectedCategory,
+  onCategoryChange,
+  selectedSubcategory,
+  onSubcategoryChange,
+  currentPage,
+  onPageChange,
+  selectedIds,
+  onSelectionChange,
+  isTogglingFeatured,
+  onToggleFeatured,
+  onEdit,
+  onDelete,
+  onBulkDelete,
+  onOpenActions,
+  onSuccess,
+  onError,
+}: AdminProductsTabProps) => {
+  // Sorting State
+  const [sortConfig, setSortConfig] = useState<{ key: keyof Product | 'featured'; direction: 'asc' | 'desc' } | null>(null);
 
-  // Modal States
-  const [isProductModalOpen, setIsProductModalOpen] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
-  const [deleteProduct, setDeleteProduct] = useState<Product | null>(null); // For single delete
-  const [isDeleting, setIsDeleting] = useState(false);
-  const [isBulkDeleteModalOpen, setIsBulkDeleteModalOpen] = useState(false);
-  const [isBulkProductModalOpen, setIsBulkProductModalOpen] = useState(false);
-  const [mobileActionProduct, setMobileActionProduct] = useState<Product | null>(null);
-  
   // Selection Mode (Long Press) Ref
   const longPressTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isLongPress = useRef(false);
@@ -927,89 +1127,8 @@ export const Admin = () => {
       clearTimeout(longPressTimeout.current);
     }
   };
-  
-  const toast = useToast();
-
-  // Redirecionar se não for admin
-  if (!isAuthenticated || !isAdmin) {
-    return <Navigate to="/" replace />;
-  }
-
-  // Carregar opções de filtro e estatísticas
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        // Busca 1000 itens para filtros e estatísticas
-        const data = await productsApi.getAll({ maxResults: 1000 }); 
-        const categories = new Set<string>();
-        const subcategories = new Set<string>();
-        let recent = 0;
-        let featured = 0;
-        
-        const weekAgo = new Date();
-        weekAgo.setDate(weekAgo.getDate() - 7);
-
-        data.products.forEach(p => {
-          if (p.category) categories.add(p.category);
-          if (p.subcategory) subcategories.add(p.subcategory);
-          if (p.is_featured) featured++;
-          if (p.created_at && new Date(p.created_at) > weekAgo) recent++;
-        });
-        
-        setFilterOptions({
-          categories: Array.from(categories).sort(),
-          subcategories: Array.from(subcategories).sort()
-        });
-
-        setStats({
-          productsCount: data.total || data.products.length,
-          categoriesCount: categories.size,
-          recentCount: recent,
-          featuredCount: featured
-        });
-      } catch (err) {
-        console.error('Erro ao carregar dados iniciais:', err);
-      }
-    };
-    loadData();
-  }, [products]); // Re-run when products change (e.g. after add/delete) to update stats? 
-  // Ideally we should move this to a separate callback called after mutations.
-  // But adding [products] might cause loop if products updates often. 
-  // Let's rely on explicit refresh or just initial load. 
-  // Actually, 'products' changes on pagination. We don't want to re-fetch stats on pagination.
-  // So [] is better, and we manually update stats after create/delete/feature toggle.
-  // Or we create a 'refreshStats' function.
-
-  // Carregar produtos com filtros e paginação
-  const loadProducts = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const params: any = {
-        page: currentPage,
-        maxResults: itemsPerPage
-      };
-
-      if (selectedCategory) params.category = selectedCategory;
-      if (selectedSubcategory) params.subcategory = selectedSubcategory;
-
-      const data = await productsApi.getAll(params);
-      setProducts(data.products);
-      setTotalProducts(data.total);
-    } catch (err) {
-      console.error('Erro ao carregar produtos:', err);
-      toast.error('Erro ao carregar produtos');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [currentPage, itemsPerPage, selectedCategory, selectedSubcategory]);
 
-  useEffect(() => {
-    loadProducts();
-  }, [loadProducts]);
-
-  // Handle Search... (same as before)
-
-  // Sorting Logic... (same as before)
+  // Sorting Logic
   const handleSort = (key: keyof Product | 'featured') => {
     let direction: 'asc' | 'desc' = 'asc';
     if (sortConfig && sortConfig.key === key && sortConfig.direction === 'asc') {
@@ -1018,7 +1137,8 @@ export const Admin = () => {
     setSortConfig({ key, direction });
   };
 
-  const sortedProducts = [...products].sort((a, b) => {
+  // Sem ordenação escolhida, mantém a ordem da API (ou de relevância, na busca)
+  const displayedProducts = [...products].sort((a, b) => {
     if (!sortConfig) return 0;
     const { key, direction } = sortConfig;
     let aValue: any = a[key as keyof Product];
@@ -1036,21 +1156,16 @@ export const Admin = () => {
     return 0;
   });
 
-  const displayedProducts = sortedProducts.filter(p => 
-    p.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    p.category.toLowerCase().includes(searchQuery.toLowerCase())
-  );
-
-  // Selection Logic... (same as before)
+  // Selection Logic
   const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.checked) {
       const newSelected = new Set(selectedIds);
       displayedProducts.forEach(p => newSelected.add(p.id));
-      setSelectedIds(newSelected);
+      onSelectionChange(newSelected);
     } else {
       const newSelected = new Set(selectedIds);
       displayedProducts.forEach(p => newSelected.delete(p.id));
-      setSelectedIds(newSelected);
+      onSelectionChange(newSelected);
     }
   };
 
@@ -1061,150 +1176,18 @@ export const Admin = () => {
     } else {
       newSelected.add(id);
     }
-    setSelectedIds(newSelected);
-  };
-
-  // Bulk Delete
-  const handleBulkDelete = async () => {
-    if (selectedIds.size === 0) return;
-    setIsDeleting(true);
-    try {
-      const idsToDelete = Array.from(selectedIds);
-      await productsApi.deleteBulk(idsToDelete);
-      toast.success(`${idsToDelete.length} produtos excluídos com sucesso!`);
-      setSelectedIds(new Set());
-      setIsBulkDeleteModalOpen(false);
-      loadProducts();
-      // Force reload page to update filters/stats?
-      // window.location.reload(); // Too aggressive.
-    } catch (err) {
-      toast.error('Erro ao excluir produtos em massa');
-      console.error(err);
-    } finally {
-      setIsDeleting(false);
-    }
-  };
-
-  // Single Delete
-  const handleDeleteProduct = async () => {
-     // ... (same as before)
-     if (!deleteProduct) return;
-    setIsDeleting(true);
-    try {
-      await productsApi.delete(deleteProduct.id);
-      toast.success('Produto excluído com sucesso!');
-      setDeleteProduct(null);
-      const newSelected = new Set(selectedIds);
-      if (newSelected.has(deleteProduct.id)) {
-        newSelected.delete(deleteProduct.id);
-        setSelectedIds(newSelected);
-      }
-      loadProducts();
-    } catch (err) {
-        toast.error('Erro ao excluir produto');
-    } finally {
-      setIsDeleting(false);
-    }
-  };
-
-  // Save/Edit/Toggle logic...
-  const handleSaveProduct = async (formData: FormData, isEdit: boolean) => {
-    // ...
-    try {
-      if (isEdit && editingProduct) {
-        await productsApi.update(editingProduct.id, formData);
-        toast.success('Produto atualizado com sucesso!');
-      } else {
-        await productsApi.create(formData);
-        toast.success('Produto criado com sucesso!');
-      }
-      loadProducts();
-    } catch (err) {
-      if (err instanceof ApiError) {
-        toast.error(err.message);
-      } else {
-        toast.error('Erro ao salvar produto');
-      }
-      throw err;
-    }
-  };
-
-  const handleBulkSave = async (formData: FormData) => {
-    try {
-      const result = await productsApi.createBulk(formData);
-      toast.success(result.message || `${result.createdCount} produtos criados!`);
-      loadProducts();
-    } catch (err) {
-      if (err instanceof ApiError) {
-        toast.error(err.message);
-      } else {
-        toast.error('Erro ao criar produtos em massa');
-      }
-      throw err;
-    }
-  };
-
-  const handleToggleFeatured = async (product: Product) => {
-    const newFeaturedState = !product.is_featured;
-    setProducts(prev => prev.map(p => p.id === product.id ? { ...p, is_featured: newFeaturedState } : p));
-    try {
-      await productsApi.toggleFeatured(product.id, newFeaturedState);
-      // Update stats count locally
-      setStats(prev => ({
-          ...prev,
-          featuredCount: newFeaturedState ? prev.featuredCount + 1 : prev.featuredCount - 1
-      }));
-      toast.success(newFeaturedState ? 'Adicionado aos destaques!' : 'Removido dos destaques');
-    } catch (err) {
-      setProducts(prev => prev.map(p => p.id === product.id ? { ...p, is_featured: !newFeaturedState } : p));
-      if (err instanceof ApiError && err.code === 'FEATURED_LIMIT_REACHED') {
-          toast.error('Limite de destaques atingido! (Max 6)');
-      } else {
-          toast.error('Erro ao alterar destaque');
-      }
-    }
+    onSelectionChange(newSelected);
   };
 
-  const totalPages = Math.ceil(totalProducts / itemsPerPage);
+  const totalPages = Math.ceil(totalProducts / ADMIN_ITEMS_PER_PAGE);
   const handlePageChange = (p: number) => {
     if (p >= 1 && p <= totalPages) {
-      setCurrentPage(p);
+      onPageChange(p);
     }
   };
 
   return (
-    <div className={styles.page}>
-      <div className={styles.header}>
-        <div className={styles.headerTitle}>
-          <IconDashboard size={28} color="#6A4C93" />
-          <h1>Administração</h1>
-        </div>
-        <div style={{ display: 'flex', gap: '1rem' }}>
-          <motion.button
-            className={styles.addBtn}
-            onClick={() => {
-              setEditingProduct(null);
-              setIsProductModalOpen(true);
-            }}
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-          >
-            <IconAdd size={20} color="white" />
-            Adicionar Produto
-          </motion.button>
-          <motion.button
-            className={styles.addBtn}
-            style={{ backgroundColor: '#4267AC' }}
-            onClick={() => setIsBulkProductModalOpen(true)}
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-          >
-            <IconAdd size={20} color="white" />
-            Adicionar Vários
-          </motion.button>
-        </div>
-      </div>
-
+    <>
       <div className={styles.stats}>
         <motion.div className={styles.statCard} whileHover={{ y: -4 }}>
           <div className={`${styles.statIcon} ${styles.products}`}>
@@ -1255,9 +1238,9 @@ export const Admin = () => {
             <IconSearch size={18} color="#999" />
             <input
               type="text"
-              placeholder="Buscar na página..."
+              placeholder="Buscar no catálogo..."
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => onSearchChange(e.target.value)}
             />
           </div>
         </div>
@@ -1267,7 +1250,7 @@ export const Admin = () => {
             <select 
               className={styles.filterSelect}
               value={selectedCategory}
-              onChange={(e) => { setSelectedCategory(e.target.value); setCurrentPage(1); }}
+              onChange={(e) => onCategoryChange(e.target.value)}
             >
               <option value="">Todas as Categorias</option>
               {filterOptions.categories.map(c => <option key={c} value={c}>{c}</option>)}
@@ -1276,7 +1259,7 @@ export const Admin = () => {
             <select 
               className={styles.filterSelect}
               value={selectedSubcategory}
-              onChange={(e) => { setSelectedSubcategory(e.target.value); setCurrentPage(1); }}
+              onChange={(e) => onSubcategoryChange(e.target.value)}
             >
               <option value="">Todas as Subcategorias</option>
               {filterOptions.subcategories.map(s => <option key={s} value={s}>{s}</option>)}
@@ -1302,11 +1285,11 @@ export const Admin = () => {
                     if (allSelected) {
                       const newSelected = new Set(selectedIds);
                       displayedProducts.forEach(p => newSelected.delete(p.id));
-                      setSelectedIds(newSelected);
+                      onSelectionChange(newSelected);
                     } else {
                       const newSelected = new Set(selectedIds);
                       displayedProducts.forEach(p => newSelected.add(p.id));
-                      setSelectedIds(newSelected);
+                      onSelectionChange(newSelected);
                     }
                   }}
                 >
@@ -1318,7 +1301,7 @@ export const Admin = () => {
 
                 <button 
                   className={styles.bulkDeleteBtn}
-                  onClick={() => setIsBulkDeleteModalOpen(true)}
+                  onClick={onBulkDelete}
                 >
                   <span style={{display:'inline-flex', marginRight: 6}}>
                     <IconDelete size={16} color="white" />
@@ -1330,7 +1313,7 @@ export const Admin = () => {
           )}
         </AnimatePresence>
 
-        {isLoading ? (
+        {isLoadingProducts ? (
           <div className={styles.loading}>
             <motion.div 
               className={styles.loadingSpinner}
@@ -1406,7 +1389,7 @@ export const Admin = () => {
                           className={styles.productImage}
                         />
                         <div className={styles.productInfo}>
-                          <h4>{product.name}</h4>
+                          <h4><Highlight text={product.name} ranges={matchesById.get(product.id)?.name} /></h4>
                           {product.subcategory && (
                             <span 
                               className={styles.subcategoryBadge}
@@ -1415,20 +1398,25 @@ export const Admin = () => {
                                 color: getSubcategoryColor(product.subcategory).text,
                               }}
                             >
-                              {product.subcategory}
+                              <Highlight text={product.subcategory} ranges={matchesById.get(product.id)?.subcategory} />
                             </span>
                           )}
                         </div>
                       </div>
                     </td>
-                    <td><span className={styles.categoryBadge}>{product.category}</span></td>
+                    <td>
+                      <span className={styles.categoryBadge}>
+                        <Highlight text={product.category} ranges={matchesById.get(product.id)?.category} />
+                      </span>
+                    </td>
                     <td><span className={styles.price}>R$ {Number(product.price || 0).toFixed(2)}</span></td>
                     <td>
                       <label className={styles.toggleSwitch}>
                         <input
                           type="checkbox"
                           checked={product.is_featured || false}
-                          onChange={() => handleToggleFeatured(product)}
+                          onChange={() => onToggleFeatured(product)}
+                          disabled={isTogglingFeatured}
                         />
                         <span className={styles.slider}></span>
                       </label>
@@ -1437,10 +1425,7 @@ export const Admin = () => {
                       <div className={styles.actions}>
                         <motion.button
                           className={`${styles.actionBtn} ${styles.edit}`}
-                          onClick={() => {
-                            setEditingProduct(product);
-                            setIsProductModalOpen(true);
-                          }}
+                          onClick={() => onEdit(product)}
                           whileHover={{ scale: 1.1 }}
                           whileTap={{ scale: 0.9 }}
                         >
@@ -1448,7 +1433,7 @@ export const Admin = () => {
                         </motion.button>
                         <motion.button
                           className={`${styles.actionBtn} ${styles.delete}`}
-                          onClick={() => setDeleteProduct(product)}
+                          onClick={() => onDelete(product)}
                           whileHover={{ scale: 1.1 }}
                           whileTap={{ scale: 0.9 }}
                         >
@@ -1483,7 +1468,7 @@ export const Admin = () => {
                     if (selectedIds.size > 0) {
                       handleSelectOne(product.id);
                     } else {
-                      setMobileActionProduct(product);
+                      onOpenActions(product);
                     }
                   }}
                   whileTap={{ scale: 0.98 }}
@@ -1513,11 +1498,15 @@ export const Admin = () => {
                   </div>
                   <div className={styles.mobileProductInfo}>
                     <div className={styles.mobileProductHeader}>
-                      <h4 className={styles.mobileProductName}>{product.name}</h4>
+                      <h4 className={styles.mobileProductName}>
+                        <Highlight text={product.name} ranges={matchesById.get(product.id)?.name} />
+                      </h4>
                       <span className={styles.mobileProductPrice}>R$ {Number(product.price).toFixed(2)}</span>
                     </div>
                     <div className={styles.mobileProductMeta}>
-                       <span className={styles.categoryBadge} style={{ fontSize: '0.7rem', padding: '0.15rem 0.5rem' }}>{product.category}</span>
+                       <span className={styles.categoryBadge} style={{ fontSize: '0.7rem', padding: '0.15rem 0.5rem' }}>
+                         <Highlight text={product.category} ranges={matchesById.get(product.id)?.category} />
+                       </span>
                        {product.is_featured && (
                          <span style={{ display: 'flex', alignItems: 'center', gap: '2px', color: '#ff9800', fontSize: '0.75rem', fontWeight: 600 }}>
                            <IconStar size={12} fill="#ff9800" color="#ff9800" />
@@ -1554,6 +1543,321 @@ export const Admin = () => {
         )}
       </div>
 
+      <CustomOrdersInbox onStatusChanged={onSuccess} onError={onError} />
+    </>
+  );
+};
+
+type AdminTab = 'products' | 'settings';
+
+const ADMIN_TABS: { id: AdminTab; label: string }[] = [
+  { id: 'products', label: 'Produtos e pedidos' },
+  { id: 'settings', label: 'Configurações da loja' },
+];
+
+// Componente principal Admin
+export const Admin = () => {
+  const loaderData = useLoaderData<typeof adminLoader>();
+  const { isAuthenticated, isAdmin } = useAuth();
+  const [searchQuery, setSearchQuery] = useState('');
+  
+  // Pagination & Filtering State
+  const [currentPage, setCurrentPage] = useState(1);
+  const itemsPerPage = ADMIN_ITEMS_PER_PAGE;
+  const [selectedCategory, setSelectedCategory] = useState('');
+  const [selectedSubcategory, setSelectedSubcategory] = useState('');
+  
+  // Selection State
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+
+  // Modal States
+  const [isProductModalOpen, setIsProductModalOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [deleteProduct, setDeleteProduct] = useState<Product | null>(null); // For single delete
+  const [isBulkDeleteModalOpen, setIsBulkDeleteModalOpen] = useState(false);
+  const [isBulkProductModalOpen, setIsBulkProductModalOpen] = useState(false);
+  const [mobileActionProduct, setMobileActionProduct] = useState<Product | null>(null);
+
+  // Comandos da paleta (Ctrl/Cmd+K) chegam pelo state da navegação e abrem o modal correspondente
+  const location = useLocation();
+  const navigate = useNavigate();
+  const adminCommand = getAdminCommand(location.state);
+  const [handledCommand, setHandledCommand] = useState<AdminCommand | null>(null);
+  if (adminCommand && adminCommand !== handledCommand) {
+    setHandledCommand(adminCommand);
+    if (adminCommand.type === 'bulk-upload') {
+      setIsBulkProductModalOpen(true);
+    } else {
+      setEditingProduct(adminCommand.type === 'edit-product' ? adminCommand.product : null);
+      setIsProductModalOpen(true);
+    }
+  }
+
+  // Comando consumido: limpar o state para não reabrir o modal ao voltar no histórico
+  useEffect(() => {
+    if (adminCommand) {
+      navigate({ pathname: location.pathname, search: location.search }, { replace: true, state: null });
+    }
+  }, [adminCommand, navigate, location.pathname, location.search]);
+  
+  const toast = useToast();
+  const [activeTab, setActiveTab] = useState<AdminTab>('products');
+
+  const isAllowed = isAuthenticated && isAdmin;
+
+  // Opções de filtro e estatísticas (busca todo o catálogo)
+  // Atualizadas sozinhas quando uma mutação invalida as listagens
+  const { data: catalog } = useQuery<ProductList>(
+    ['admin', 'catalog'],
+    (context) => productsApi.getCatalog(true, context),
+    { enabled: isAllowed, tags: [cacheTags.list], initialData: loaderData.catalog ?? undefined }
+  );
+  const { filterOptions, stats } = useMemo(() => summarizeCatalog(catalog?.products ?? []), [catalog]);
+
+  // Busca no catálogo inteiro (não só na página atual), sem acentos e tolerante a erros
+  const searchResults = useProductSearch(catalog?.products, searchQuery);
+
+  // Carregar produtos com filtros e paginação
+  const params: ProductsQueryParams = {
+    page: currentPage,
+    maxResults: itemsPerPage,
+    ...(selectedCategory && { category: selectedCategory }),
+    ...(selectedSubcategory && { subcategory: selectedSubcategory }),
+  };
+  // O loader traz apenas a primeira página sem filtros
+  const isInitialPage = currentPage === 1 && !selectedCategory && !selectedSubcategory;
+  const {
+    data: productPage,
+    isLoading,
+    isError,
+    error: loadError,
+  } = useQuery<ProductList>(
+    ['admin', 'products', params],
+    (context) => productsApi.getAll(params, true, context),
+    {
+      enabled: isAllowed,
+      tags: [cacheTags.list],
+      initialData: isInitialPage ? loaderData.products ?? undefined : undefined,
+    }
+  );
+
+  // Com busca, a listagem vem dos resultados (ordem de relevância), filtrada e paginada aqui
+  const searchMatches = searchResults
+    ?.map(result => result.item)
+    .filter(p => (!selectedCategory || p.category === selectedCategory)
+      && (!selectedSubcategory || p.subcategory === selectedSubcategory));
+  const matchesById = new Map(searchResults?.map(result => [result.item.id, result.matches]));
+  const pageProducts = searchMatches
+    ? searchMatches.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage)
+    : productPage?.products ?? [];
+  const totalProducts = searchMatches ? searchMatches.length : productPage?.total ?? 0;
+  const isLoadingProducts = searchMatches ? !catalog : isLoading;
+
+  // Mutações via action da rota; a API invalida as tags afetadas e as queries acima se atualizam
+  const deleteFetcher = useFetcher<AdminActionResult>();
+  const featuredFetcher = useFetcher<AdminActionResult>();
+  const isDeleting = deleteFetcher.state !== 'idle';
+  // Um novo envio no mesmo fetcher cancelaria o anterior: um destaque por vez
+  const isTogglingFeatured = featuredFetcher.state !== 'idle';
+
+  // Estado otimista: enquanto a action roda vale o que foi enviado; depois, o resultado
+  // dela, até a listagem invalidada voltar do servidor
+  const deletedIds = new Set(
+    deleteFetcher.formData
+      ? [...deleteFetcher.formData.getAll('id'), ...deleteFetcher.formData.getAll('ids')].map(String)
+      : deleteFetcher.data?.ok ? deleteFetcher.data.ids : []
+  );
+  const featuredOverride = featuredFetcher.formData
+    ? { id: String(featuredFetcher.formData.get('id')), isFeatured: featuredFetcher.formData.get('isFeatured') === 'true' }
+    : featuredFetcher.data?.ok ? { id: featuredFetcher.data.ids[0], isFeatured: featuredFetcher.data.isFeatured } : null;
+
+  const products = pageProducts
+    .filter(p => !deletedIds.has(p.id))
+    .map(p => (featuredOverride?.id === p.id ? { ...p, is_featured: featuredOverride.isFeatured } : p));
+
+  const showError = toast.error;
+  useEffect(() => {
+    if (isError) {
+      showError(getErrorMessage(loadError, { fallback: 'Erro ao carregar produtos' }));
+    }
+  }, [isError, loadError, showError]);
+
+  // Resultado das actions; uma recusa da API (ex: limite de 6 destaques) desfaz o estado otimista
+  // Um efeito por fetcher: o resultado de um não é notificado de novo quando o outro termina
+  const showSuccess = toast.success;
+  const notifyActionResult = useCallback((result: AdminActionResult | undefined) => {
+    if (!result) return;
+    if (result.ok) {
+      showSuccess(result.message);
+    } else {
+      showError(result.error);
+    }
+  }, [showSuccess, showError]);
+
+  useEffect(() => {
+    notifyActionResult(deleteFetcher.data);
+  }, [deleteFetcher.data, notifyActionResult]);
+
+  useEffect(() => {
+    notifyActionResult(featuredFetcher.data);
+  }, [featuredFetcher.data, notifyActionResult]);
+
+  // Redirecionar se não for admin
+  if (!isAllowed) {
+    return <Navigate to="/" replace />;
+  }
+
+  // Handle Search... (same as before)
+
+  // Bulk Delete
+  const handleBulkDelete = () => {
+    if (selectedIds.size === 0) return;
+    const formData = new FormData();
+    formData.set('intent', 'delete-bulk');
+    selectedIds.forEach(id => formData.append('ids', id));
+    deleteFetcher.submit(formData, { method: 'post' });
+    setSelectedIds(new Set());
+    setIsBulkDeleteModalOpen(false);
+  };
+
+  // Single Delete
+  const handleDeleteProduct = () => {
+    if (!deleteProduct) return;
+    deleteFetcher.submit({ intent: 'delete', id: deleteProduct.id }, { method: 'post' });
+    setDeleteProduct(null);
+    if (selectedIds.has(deleteProduct.id)) {
+      const newSelected = new Set(selectedIds);
+      newSelected.delete(deleteProduct.id);
+      setSelectedIds(newSelected);
+    }
+  };
+
+  // Save/Edit/Toggle logic...
+  const handleSaveProduct = async (formData: FormData, isEdit: boolean, upload: UploadRequestOptions) => {
+    // ...
+    try {
+      if (isEdit && editingProduct) {
+        await productsApi.update(editingProduct.id, formData, upload);
+        toast.success('Produto atualizado com sucesso!');
+      } else {
+        await productsApi.create(formData, upload);
+        toast.success('Produto criado com sucesso!');
+      }
+    } catch (err) {
+      // Cancelamento pelo usuário não é erro
+      if (!isAbortError(err)) {
+        toast.error(getErrorMessage(err, { fallback: 'Erro ao salvar produto' }));
+      }
+      throw err;
+    }
+  };
+
+  // Erros de cada produto são exibidos no próprio modal; aqui apenas o resumo
+  const handleBulkSave = async (formData: FormData, upload: UploadRequestOptions) => {
+    await productsApi.createBulk(formData, upload);
+  };
+
+  const handleBulkComplete = (result: UploadQueueResult) => {
+    if (result.canceled) {
+      toast.info('Envio cancelado. Os produtos já enviados foram mantidos.');
+    } else if (result.failed > 0) {
+      toast.error(`${result.failed} produto(s) não foram enviados. Tente novamente apenas os que falharam.`);
+    } else {
+      toast.success(`${result.done} produtos criados!`);
+    }
+  };
+
+  const handleToggleFeatured = (product: Product) => {
+    if (isTogglingFeatured) return;
+    featuredFetcher.submit(
+      { intent: 'toggle-featured', id: product.id, isFeatured: String(!product.is_featured) },
+      { method: 'post' }
+    );
+  };
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.header}>
+        <div className={styles.headerTitle}>
+          <IconDashboard size={28} color="#6A4C93" />
+          <h1>Administração</h1>
+        </div>
+        <div style={{ display: 'flex', gap: '1rem' }}>
+          <motion.button
+            className={styles.addBtn}
+            onClick={() => {
+              setEditingProduct(null);
+              setIsProductModalOpen(true);
+            }}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <IconAdd size={20} color="white" />
+            Adicionar Produto
+          </motion.button>
+          <motion.button
+            className={styles.addBtn}
+            style={{ backgroundColor: '#4267AC' }}
+            onClick={() => setIsBulkProductModalOpen(true)}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <IconAdd size={20} color="white" />
+            Adicionar Vários
+          </motion.button>
+        </div>
+      </div>
+
+      <div className={styles.tabs} role="tablist">
+        {ADMIN_TABS.map(tab => (
+          <button
+            key={tab.id}
+            type="button"
+            role="tab"
+            aria-selected={activeTab === tab.id}
+            className={`${styles.tab} ${activeTab === tab.id ? styles.tabActive : ''}`}
+            onClick={() => setActiveTab(tab.id)}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'settings' ? (
+        <StoreSettingsPanel onSaved={toast.success} onError={toast.error} />
+      ) : (
+        <AdminProductsTab
+          products={products}
+          matchesById={matchesById}
+          isLoadingProducts={isLoadingProducts}
+          totalProducts={totalProducts}
+          stats={stats}
+          filterOptions={filterOptions}
+          searchQuery={searchQuery}
+          onSearchChange={(query) => { setSearchQuery(query); setCurrentPage(1); }}
+          selectedCategory={selectedCategory}
+          onCategoryChange={(category) => { setSelectedCategory(category); setCurrentPage(1); }}
+          selectedSubcategory={selectedSubcategory}
+          onSubcategoryChange={(subcategory) => { setSelectedSubcategory(subcategory); setCurrentPage(1); }}
+          currentPage={currentPage}
+          onPageChange={setCurrentPage}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          isTogglingFeatured={isTogglingFeatured}
+          onToggleFeatured={handleToggleFeatured}
+          onEdit={(product) => {
+            setEditingProduct(product);
+            setIsProductModalOpen(true);
+          }}
+          onDelete={setDeleteProduct}
+          onBulkDelete={() => setIsBulkDeleteModalOpen(true)}
+          onOpenActions={setMobileActionProduct}
+          onSuccess={toast.success}
+          onError={toast.error}
+        />
+      )}
+
       {/* Modals */}
       <ProductModal
         isOpen={isProductModalOpen}
@@ -1586,6 +1890,7 @@ export const Admin = () => {
         isOpen={isBulkProductModalOpen}
         onClose={() => setIsBulkProductModalOpen(false)}
         onSave={handleBulkSave}
+        onComplete={handleBulkComplete}
       />
 
       <MobileActionModal
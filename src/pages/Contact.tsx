@@ -1,8 +1,14 @@
 import { motion } from 'motion/react';
 import { IconInstagram, IconMail, IconMapPin, IconPhone } from '../components/Icons';
+import { CustomOrderForm } from '../components/CustomOrderForm';
+import { useStoreSettings } from '../hooks/useStoreSettings';
+import { formatPhone, getInstagramUrl } from '../services/storeSettings';
+import { getWhatsAppLink } from '../utils/whatsapp';
 import styles from './Contact.module.css';
 
 export const Contact = () => {
+  const settings = useStoreSettings();
+
   return (
     <div className={styles.page}>
       <motion.div 
@@ -11,11 +17,13 @@ export const Contact = () => {
         className={styles.card}
       >
         <h1>Fale Conosco</h1>
-        <p className={styles.subtitle}>Tem alguma dúvida ou quer fazer um pedido especial?</p>
+        <p className={styles.subtitle}>
+          Tem alguma dúvida ou quer fazer um <a href="#pedido-especial">pedido especial</a>?
+        </p>
 
         <div className={styles.links}>
           <motion.a 
-            href="https://instagram.com/mel_colorindo_a_vida" 
+            href={getInstagramUrl(settings.instagram)}
             target="_blank" 
             rel="noopener noreferrer" 
             className={styles.linkItem}
@@ -27,12 +35,12 @@ export const Contact = () => {
             </div>
             <div>
               <h3>Instagram</h3>
-              <p>@mel_colorindo_a_vida</p>
+              <p>@{settings.instagram}</p>
             </div>
           </motion.a>
 
           <motion.a 
-            href="mailto:melcolorindo@gmail.com" 
+            href={`mailto:${settings.email}`}
             className={styles.linkItem}
             whileHover={{ x: 5, backgroundColor: "white", borderColor: "var(--color-blue-light)", boxShadow: "0 10px 20px rgba(0,0,0,0.05)" }}
             transition={{ duration: 0.2 }}
@@ -42,12 +50,12 @@ export const Contact = () => {
             </div>
             <div>
               <h3>Email</h3>
-              <p>melcolorindo@gmail.com</p>
+              <p>{settings.email}</p>
             </div>
           </motion.a>
 
           <motion.a 
-            href="https://wa.me/5511997967401" 
+            href={getWhatsAppLink()} 
             target="_blank" 
             rel="noopener noreferrer" 
             className={styles.linkItem}
@@ -59,7 +67,7 @@ export const Contact = () => {
             </div>
             <div>
               <h3>WhatsApp</h3>
-              <p>+55 (11) 99796-7401</p>
+              <p>{formatPhone(settings.whatsapp_phone)}</p>
             </div>
           </motion.a>
         </div>
@@ -68,6 +76,20 @@ export const Contact = () => {
            <IconMapPin size={16} /> Enviamos para todo o Brasil!
         </div>
       </motion.div>
+
+      <motion.section
+        id="pedido-especial"
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: 0.15 }}
+        className={`${styles.card} ${styles.orderCard}`}
+      >
+        <h2>Pedido especial</h2>
+        <p className={styles.subtitle}>
+          Conte como você imagina a peça e a gente responde com o orçamento.
+        </p>
+        <CustomOrderForm />
+      </motion.section>
     </div>
   );
 };
@@ -1,9 +1,10 @@
-import { Link } from 'react-router-dom';
+import { Link, useLoaderData } from 'react-router-dom';
 import { motion } from 'motion/react';
 import { useFavorites } from '../contexts/FavoritesContext';
 import { IconHeart, IconHeartFilled, IconAlertCircle } from '../components/Icons';
 import styles from './Favorites.module.css';
 import { getSubcategoryColor } from '../utils/subcategoryColors';
+import type { favoritesLoader } from '../routes/loaders';
 
 // Constantes de animação movidas para fora do componente para evitar recriação
 const containerVariants = {
@@ -23,13 +24,18 @@ const itemVariants = {
 
 export const Favorites = () => {
   const { 
-    favorites, 
-    isLoading, 
+    favorites: contextFavorites, 
+    isLoading: isContextLoading, 
     error, 
     removeFavorite, 
     refreshFavorites 
   } = useFavorites();
 
+  // Enquanto o contexto carrega, exibir a lista já buscada pelo loader da rota
+  const loaderFavorites = useLoaderData<typeof favoritesLoader>();
+  const isLoading = isContextLoading && !loaderFavorites;
+  const favorites = isContextLoading && loaderFavorites ? loaderFavorites : contextFavorites;
+
   const handleRemoveFavorite = async (productId: string) => {
     try {
       await removeFavorite(productId);
@@ -116,7 +122,7 @@ export const Favorites = () => {
               whileHover={{ y: -8, boxShadow: "0 8px 24px rgba(0, 0, 0, 0.15)" }}
               transition={{ type: 'spring', stiffness: 300, damping: 20 }}
             >
-              <Link to={`/produto/${product.id}`} state={{ from: '/favoritos' }} className={styles.imageWrapper}>
+              <Link to={`/produto/${product.id}`} className={styles.imageWrapper}>
                 <motion.img
                   src={product.image_url || '/placeholder-product.jpg'}
                   alt={product.name}
@@ -159,7 +165,7 @@ export const Favorites = () => {
                 </div>
 
                 <div className={styles.footer}>
-                  <Link to={`/produto/${product.id}`} state={{ from: '/favoritos' }} className={styles.detailsBtn}>
+                  <Link to={`/produto/${product.id}`} className={styles.detailsBtn}>
                     Ver Detalhes
                   </Link>
                   <button
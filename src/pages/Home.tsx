@@ -5,34 +5,54 @@ import { IconArrowRight } from '../components/Icons';
 import styles from './Home.module.css';
 import { productsApi } from '../services/api';
 import type { Product } from '../services/api';
+import { cacheTags } from '../services/cache';
 import { getSubcategoryColor } from '../utils/subcategoryColors';
 import { useMobileAnimations } from '../hooks/useMobileAnimations';
+import { useQuery } from '../hooks/useQuery';
+import { getPrefetchProps } from '../routes/prefetch';
 
 const MotionLink = motion.create(Link);
 
+// Helper para pre-carregar imagens
+const preloadImages = async (products: Product[]) => {
+  const promises = products.map((product) => {
+    return new Promise((resolve) => {
+      if (!product.image_url) {
+        resolve(true); 
+        return;
+      }
+      const img = new Image();
+      img.src = product.image_url;
+      img.onload = () => resolve(true);
+      img.onerror = () => resolve(true); // Resolve mesmo com erro para não travar
+    });
+  });
+  return Promise.all(promises);
+};
+
 export const Home = () => {
-  const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [itemsPerSlide, setItemsPerSlide] = useState(3); // Desktop: 3, Mobile: 1
+  // Desktop: 3, Mobile: 1 (verificado já no primeiro render, sem debounce)
+  const [itemsPerSlide, setItemsPerSlide] = useState(() => (window.innerWidth < 768 ? 1 : 3));
   const [[page, direction], setPage] = useState([0, 0]); // [currentSlide, direction]
-  
-  // Helper para pre-carregar imagens
-  const preloadImages = async (products: Product[]) => {
-    const promises = products.map((product) => {
-      return new Promise((resolve) => {
-        if (!product.image_url) {
-          resolve(true); 
-          return;
-        }
-        const img = new Image();
-        img.src = product.image_url;
-        img.onload = () => resolve(true);
-        img.onerror = () => resolve(true); // Resolve mesmo com erro para não travar
-      });
-    });
-    return Promise.all(promises);
-  };
 
+  // Destaques em cache expirados aparecem na hora; a versão nova substitui o carrossel no lugar
+  // Imagens são pré-carregadas antes de mostrar
+  const { data: featuredProducts = [], isLoading } = useQuery<Product[]>(
+    ['products', 'featured'],
+    async ({ signal, onRevalidate }) => {
+      const products = await productsApi.getFeatured(true, {
+        signal,
+        onRevalidate: async (fresh) => {
+          await preloadImages(fresh);
+          onRevalidate(fresh);
+        },
+      });
+      await preloadImages(products);
+      return products;
+    },
+    { tags: [cacheTags.featured] }
+  );
+  
   // Atualizar slide com direção (para swipe)
   const paginate = (newDirection: number) => {
     const maxSlides = Math.ceil(featuredProducts.length / itemsPerSlide);
@@ -55,9 +75,6 @@ export const Home = () => {
       }, 150);
     };
     
-    // Verificar no mount (sem debounce)
-    setItemsPerSlide(window.innerWidth < 768 ? 1 : 3);
-    
     window.addEventListener('resize', handleResize, { passive: true });
     return () => {
       clearTimeout(timeoutId);
@@ -65,27 +82,6 @@ export const Home = () => {
     };
   }, []);
 
-  useEffect(() => {
-    const loadFeaturedProducts = async () => {
-      try {
-        // Usar novo endpoint de produtos em destaque (máximo 6)
-        const products = await productsApi.getFeatured();
-        // Pré-carregar imagens antes de mostrar
-        if (products.length > 0) {
-          await preloadImages(products);
-        }
-        setFeaturedProducts(products);
-      } catch (error) {
-        console.error('Erro ao carregar produtos em destaque:', error);
-        setFeaturedProducts([]);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadFeaturedProducts();
-  }, []);
-
   // Auto-play do carrossel (opcional)
   useEffect(() => {
     if (featuredProducts.length <= itemsPerSlide) return; // Não precisa de carousel
@@ -161,6 +157,7 @@ export const Home = () => {
             <MotionLink 
               to="/produtos" 
               className={styles.ctaButton}
+              {...getPrefetchProps('/produtos')}
               whileHover={{ scale: 1.05, backgroundColor: "#1982C4", boxShadow: "0 15px 30px rgba(25, 130, 196, 0.3)" }}
               whileTap={{ scale: 0.95 }}
             >
@@ -213,7 +210,7 @@ export const Home = () => {
       <section className={styles.featured}>
         <div className={styles.sectionHeader}>
           <h2>Destaques da Semana</h2>
-          <Link to="/produtos" className={styles.seeAll}>Ver tudo</Link>
+          <Link to="/produtos" className={styles.seeAll} {...getPrefetchProps('/produtos')}>Ver tudo</Link>
         </div>
         
         {isLoading ? (
@@ -274,7 +271,12 @@ export const Home = () => {
                 }}
               >
                 {getCurrentProducts().map((product) => (
-                  <Link to={`/produto/${product.id}`} key={product.id} className={styles.cardLink}>
+                  <Link
+                    to={`/produto/${product.id}`}
+                    key={product.id}
+                    className={styles.cardLink}
+                    {...getPrefetchProps(`/produto/${product.id}`)}
+                  >
                     <motion.div 
                       whileHover="hover"
                       className={styles.card}
@@ -346,6 +348,7 @@ export const Home = () => {
             <MotionLink 
               to="/produtos" 
               className={styles.ctaButton}
+              {...getPrefetchProps('/produtos')}
               whileHover={{ scale: 1.05, backgroundColor: "#1982C4" }}
               whileTap={{ scale: 0.95 }}
             >
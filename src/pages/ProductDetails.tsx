@@ -1,23 +1,32 @@
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { useParams, Link, useLocation } from 'react-router-dom';
+import { useParams, Link, useLoaderData } from 'react-router-dom';
 import { motion, AnimatePresence } from 'motion/react';
-import { productsApi, favoritesApi } from '../services/api';
+import { productsApi, favoritesApi, ApiError, getErrorMessage } from '../services/api';
 import type { Product } from '../services/api';
+import { cacheTags } from '../services/cache';
 import { useAuth } from '../contexts/AuthContext';
-import { IconArrowLeft, IconHeart, IconWhatsapp, IconEdit } from '../components/Icons';
+import { useBag } from '../hooks/useBag';
+import { useQuery } from '../hooks/useQuery';
+import { useMutation } from '../hooks/useMutation';
+import { useBackTarget } from '../hooks/useNavigationState';
+import { useShippingEstimate } from '../hooks/useShippingEstimate';
+import { useStoreSettings } from '../hooks/useStoreSettings';
+import type { productLoader } from '../routes/loaders';
+import { IconArrowLeft, IconHeart, IconWhatsapp, IconEdit, IconShopping } from '../components/Icons';
+import { ShippingEstimator } from '../components/ShippingEstimator';
+import { getProductWhatsAppLink } from '../utils/whatsapp';
 import styles from './ProductDetails.module.css';
 
 export const ProductDetails = () => {
   const { id } = useParams<{ id: string }>();
-  const location = useLocation();
-  const backPath = location.state?.from === '/favoritos' ? '/favoritos' : '/produtos';
-  const backText = location.state?.from === '/favoritos' ? 'Voltar para favoritos' : 'Voltar para produtos';
+  // Volta para a entrada anterior do histórico (com filtros e rolagem); aberto direto, vai para a coleção
+  const back = useBackTarget({ to: '/produtos', label: 'Ver todos os produtos' });
   const { isAuthenticated, isAdmin } = useAuth();
-  const [product, setProduct] = useState<Product | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isFavorite, setIsFavorite] = useState(false);
-  const [isFavoriteLoading, setIsFavoriteLoading] = useState(false);
+  const { addItem, openBag } = useBag();
+  // Frete de uma peça; o CEP fica salvo para a sacola
+  const shipping = useShippingEstimate(1);
+  const storeSettings = useStoreSettings();
   const [isFullScreenImage, setIsFullScreenImage] = useState(false);
 
   useEffect(() => {
@@ -31,33 +40,50 @@ export const ProductDetails = () => {
     };
   }, [isFullScreenImage]);
 
-  useEffect(() => {
-    const loadProduct = async () => {
-      if (!id) return;
-
-      try {
-        const data = await productsApi.getById(id);
-        setProduct(data);
-
-        // Verificar se é favorito (se autenticado)
-        if (isAuthenticated) {
-          try {
-            const { isFavorite: fav } = await favoritesApi.check(id);
-            setIsFavorite(fav);
-          } catch {
-            // Ignora erro de favoritos
-          }
-        }
-      } catch (error) {
-        console.error('Erro ao carregar produto:', error);
-        setProduct(null);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Produto e, com login, se é favorito (busca dependente do produto carregado)
+  // O loader da rota já busca os dois em paralelo; ao trocar de produto (ou de sessão),
+  // as requisições do anterior são canceladas
+  const loaderData = useLoaderData<typeof productLoader>();
+  const loaded = loaderData.product?.id === id ? loaderData : null;
+  const productQuery = useQuery<Product>(
+    ['product', id],
+    (context) => productsApi.getById(id!, true, context),
+    {
+      enabled: !!id,
+      tags: id ? [cacheTags.product(id)] : [],
+      initialData: loaded?.product ?? undefined,
+    }
+  );
+  const product = productQuery.data ?? null;
+
+  const favoriteQuery = useQuery<{ isFavorite: boolean }>(
+    ['favorite', id],
+    (context) => favoritesApi.check(id!, true, context),
+    {
+      enabled: !!product && isAuthenticated,
+      tags: id ? [cacheTags.favoriteCheck(id)] : [],
+      initialData: loaded?.favorite ?? undefined,
+    }
+  );
+  const isFavorite = favoriteQuery.data?.isFavorite ?? false;
+  const setFavoriteData = favoriteQuery.setData;
+
+  // Atualização otimista do coração; a verificação é refeita pela invalidação das tags
+  const favoriteMutation = useMutation(
+    (favorite: boolean) => (favorite ? favoritesApi.add(id!) : favoritesApi.remove(id!)),
+    {
+      onMutate: (favorite) => {
+        setFavoriteData(() => ({ isFavorite: favorite }));
+        return () => setFavoriteData(() => ({ isFavorite: !favorite }));
+      },
+    }
+  );
 
-    loadProduct();
-  }, [id, isAuthenticated]);
+  // 404 mostra "não encontrado"; demais falhas (rede, servidor) mostram a mensagem do catálogo
+  const loadError = productQuery.isError
+    && !(productQuery.error instanceof ApiError && productQuery.error.kind === 'not-found')
+    ? getErrorMessage(productQuery.error)
+    : null;
 
   const handleFavoriteToggle = async () => {
     if (!id) return;
@@ -69,35 +95,21 @@ export const ProductDetails = () => {
       return;
     }
 
-    setIsFavoriteLoading(true);
     try {
-      if (isFavorite) {
-        await favoritesApi.remove(id);
-        setIsFavorite(false);
-      } else {
-        await favoritesApi.add(id);
-        setIsFavorite(true);
-      }
+      await favoriteMutation.mutate(!isFavorite);
     } catch (error) {
       console.error('Erro ao atualizar favoritos:', error);
-    } finally {
-      setIsFavoriteLoading(false);
     }
   };
 
-  const generateWhatsAppLink = () => {
-    if (!product) return '#';
-    const phone = '5511997967401';
-    const baseUrl = import.meta.env.VITE_URL_PREFIX || window.location.origin;
-    const productLink = `${baseUrl}/produto/${product.id}`;
-
-    const message = encodeURIComponent(
-      `Olá! Tenho interesse no produto: ${product.name} - R$ ${Number(product.price).toFixed(2)}\n${productLink}`
-    );
-    return `https://wa.me/${phone}?text=${message}`;
+  // Adiciona e abre a sacola para conferir o pedido
+  const handleAddToBag = () => {
+    if (!product) return;
+    addItem(product);
+    openBag();
   };
 
-  if (isLoading) {
+  if (productQuery.isLoading) {
     return (
       <div className={styles.container}>
         <div className={styles.loadingState}>
@@ -112,11 +124,11 @@ export const ProductDetails = () => {
     return (
       <div className={styles.container}>
         <div className={styles.notFound}>
-          <h2>Produto não encontrado</h2>
-          <p>O produto que você procura não existe ou foi removido.</p>
-          <Link to={backPath} className={styles.backButton}>
+          <h2>{loadError ? 'Não foi possível carregar o produto' : 'Produto não encontrado'}</h2>
+          <p>{loadError || 'O produto que você procura não existe ou foi removido.'}</p>
+          <Link to={back.to} onClick={back.onClick} className={styles.backButton}>
             <IconArrowLeft size={20} />
-            {backText === 'Voltar para favoritos' ? 'Voltar para favoritos' : 'Ver todos os produtos'}
+            {back.label}
           </Link>
         </div>
       </div>
@@ -125,9 +137,9 @@ export const ProductDetails = () => {
 
   return (
     <div className={styles.container}>
-      <Link to={backPath} className={styles.backLink}>
+      <Link to={back.to} onClick={back.onClick} className={styles.backLink}>
         <IconArrowLeft size={20} />
-        {backText}
+        {back.label}
       </Link>
 
       <motion.div
@@ -163,8 +175,13 @@ export const ProductDetails = () => {
           )}
 
           <div className={styles.actions}>
+            <button className={styles.bagButton} onClick={handleAddToBag}>
+              <IconShopping size={22} />
+              Adicionar à sacola
+            </button>
+
             <a
-              href={generateWhatsAppLink()}
+              href={getProductWhatsAppLink(product, shipping.estimate)}
               target="_blank"
               rel="noopener noreferrer"
               className={styles.buyButton}
@@ -176,14 +193,14 @@ export const ProductDetails = () => {
             <button
               className={`${styles.wishlistButton} ${isFavorite ? styles.active : ''}`}
               onClick={handleFavoriteToggle}
-              disabled={isFavoriteLoading}
+              disabled={favoriteMutation.isPending}
               aria-label={isFavorite ? 'Remover dos favoritos' : 'Adicionar aos favoritos'}
               title={!isAuthenticated ? 'Faça login para favoritar' : ''}
             >
               <IconHeart
                 size={24}
                 fill={isFavorite ? 'currentColor' : 'none'}
-                className={isFavoriteLoading ? styles.spinIcon : ''}
+                className={favoriteMutation.isPending ? styles.spinIcon : ''}
               />
             </button>
 
@@ -195,12 +212,17 @@ export const ProductDetails = () => {
             )}
           </div>
 
-          <div className={styles.features}>
-            <div className={styles.featureItem}>Feito à mão</div>
-            <div className={styles.featureItem}>Cores vibrantes</div>
-            <div className={styles.featureItem}>Peça única</div>
-            <div className={styles.featureItem}>Envio rápido</div>
+          <div className={styles.shipping}>
+            <ShippingEstimator shipping={shipping} />
           </div>
+
+          {storeSettings.product_features.length > 0 && (
+            <div className={styles.features}>
+              {storeSettings.product_features.map(feature => (
+                <div key={feature} className={styles.featureItem}>{feature}</div>
+              ))}
+            </div>
+          )}
         </div>
       </motion.div>
 
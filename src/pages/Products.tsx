@@ -1,112 +1,236 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
-import { productsApi } from '../services/api';
-import type { Product } from '../services/api';
+import { useState, useMemo, useCallback, useEffect, useDeferredValue } from 'react';
+import { useLoaderData, useLocation } from 'react-router-dom';
+import { motion, AnimatePresence, type Transition } from 'motion/react';
+import { productsApi, getErrorMessage } from '../services/api';
+import type { Product, ProductList } from '../services/api';
+import { cacheTags } from '../services/cache';
 import styles from './Products.module.css';
 import { useAuth } from '../contexts/AuthContext';
 import { useFavorites } from '../contexts/FavoritesContext';
+import { useBag } from '../hooks/useBag';
 import { ProductCard } from '../components/ProductCard';
 import { ProductFilters } from '../components/ProductFilters';
-import { useProductFilters } from '../hooks/useProductFilters';
+import { SearchBox } from '../components/SearchBox';
+import { VirtualGrid } from '../components/VirtualGrid';
+import {
+  useProductFilters,
+  toProductsQueryParams,
+  hasFacetFilters,
+  ITEMS_PER_PAGE_OPTIONS,
+  INFINITE_PAGE_SIZE,
+  type SortOption,
+} from '../hooks/useProductFilters';
+import { useQuery } from '../hooks/useQuery';
+import { useInfiniteProducts } from '../hooks/useInfiniteProducts';
+import { useCatalog, useProductSearch } from '../hooks/useProductSearch';
 import { useMobileAnimations } from '../hooks/useMobileAnimations';
 import { useToast } from '../hooks/useToast';
 import { ToastContainer } from '../components/Toast';
+import { filterProducts } from '../utils/productFacets';
+import { getEntryState, updateEntryState } from '../services/navigationHistory';
+import type { productsLoader } from '../routes/loaders';
+
+/**
+ * Cards de carregamento (primeira carga e "carregando mais" da rolagem contínua)
+ */
+const SkeletonCards = ({ count, transition }: { count: number; transition: Transition }) => (
+  <>
+    {Array.from({ length: count }).map((_, i) => (
+      <div key={i} className={styles.cardSkeleton}>
+        <motion.div 
+          className={styles.skeletonImage}
+          animate={{ opacity: [0.4, 0.8, 0.4] }}
+          transition={transition}
+        ></motion.div>
+        <div className={styles.skeletonContent}>
+          <motion.div 
+            className={styles.skeletonBadge}
+            animate={{ opacity: [0.4, 0.8, 0.4] }}
+            transition={{ ...transition, delay: 0.1 }}
+          ></motion.div>
+          <motion.div 
+            className={styles.skeletonTitle}
+            animate={{ opacity: [0.4, 0.8, 0.4] }}
+            transition={{ ...transition, delay: 0.2 }}
+          ></motion.div>
+          <motion.div 
+            className={styles.skeletonPrice}
+            animate={{ opacity: [0.4, 0.8, 0.4] }}
+            transition={{ ...transition, delay: 0.3 }}
+          ></motion.div>
+        </div>
+      </div>
+    ))}
+  </>
+);
+
+/**
+ * Ordena uma cópia da lista; keepOrder mantém a ordem recebida na opção padrão (relevância da busca)
+ */
+const sortProducts = (products: Product[], sortBy: SortOption, keepOrder: boolean): Product[] => {
+  const productsToSort = [...products];
+
+  if (sortBy === 'default') {
+    if (keepOrder) return productsToSort;
+    // Destaques no topo por padrão
+    return productsToSort.sort((a, b) => {
+      if (a.is_featured && !b.is_featured) return -1;
+      if (!a.is_featured && b.is_featured) return 1;
+      return 0;
+    });
+  }
+
+  if (sortBy === 'name-asc') {
+    return productsToSort.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  if (sortBy === 'price-asc') {
+    return productsToSort.sort((a, b) => (a.price || 0) - (b.price || 0));
+  }
+
+  if (sortBy === 'price-desc') {
+    return productsToSort.sort((a, b) => (b.price || 0) - (a.price || 0));
+  }
+
+  return productsToSort;
+};
 
 export const Products = () => {
+  // Página da URL e categorias já buscadas pelo loader da rota
+  const loaderData = useLoaderData<typeof productsLoader>();
   const { isAuthenticated } = useAuth();
   const { isFavorite, toggleFavorite } = useFavorites();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { addItem } = useBag();
   const toast = useToast();
+  const location = useLocation();
   
   // Hook centralizado de filtros
   const {
     categories,
     isLoadingCategories,
+    searchQuery,
     selectedCategory,
     selectedSubcategories,
+    facets,
+    filters,
     sortBy,
     currentPage,
     itemsPerPage,
+    viewMode,
+    setSearchQuery,
     setCategory,
     toggleSubcategory,
+    setPriceRange,
+    setFeaturedOnly,
+    setNewInDays,
     setSortBy,
     setCurrentPage,
     setItemsPerPage,
+    setViewMode,
+    applyFilters,
     clearFilters,
     hasActiveFilters,
     getTotalProductCount,
     getAvailableSubcategories,
-  } = useProductFilters();
+  } = useProductFilters(loaderData.categories ?? undefined);
   
   // Animações otimizadas para mobile
   const { skeletonTransition } = useMobileAnimations();
-  
-  // Paginação
-  const [totalProducts, setTotalProducts] = useState(0);
 
   // Carregar produtos com base nos filtros
-  useEffect(() => {
-    const loadProducts = async () => {
-      setIsLoading(true);
-      try {
-        const params: any = {
-          maxResults: itemsPerPage,
-          page: currentPage,
-        };
-
-        if (selectedCategory) {
-          params.category = selectedCategory;
-        }
-
-        if (selectedSubcategories.length > 0) {
-          params.subcategory = selectedSubcategories;
-        }
-
-        const data = await productsApi.getAll(params);
-        setProducts(data.products);
-        setTotalProducts(data.total);
-      } catch (error) {
-        console.error('Erro ao carregar produtos:', error);
-        setProducts([]);
-        setTotalProducts(0);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadProducts();
-  }, [currentPage, selectedCategory, selectedSubcategories, itemsPerPage]);
+  // Dados em cache expirados aparecem na hora e são atualizados no lugar, sem skeleton
+  const params = toProductsQueryParams(filters);
+  // O loader buscou os filtros da URL de entrada; depois disso cada filtro busca pela query
+  const initialProducts = JSON.stringify(loaderData.params) === JSON.stringify(params) ? loaderData.products : null;
+  const isSearching = searchQuery.trim() !== '';
+  // A API não filtra por texto nem pelas facetas: nesses casos a listagem sai do catálogo completo
+  const isLocal = isSearching || hasFacetFilters(facets);
+  const isInfinite = viewMode === 'infinite';
+  const { data, isLoading: isLoadingPage } = useQuery<ProductList>(
+    ['products', params],
+    (context) => productsApi.getAll(params, true, context),
+    { enabled: !isLocal && !isInfinite, tags: [cacheTags.list], initialData: initialProducts ?? undefined }
+  );
 
-  // Ordenar produtos com destaques no topo por padrão
-  const sortedProducts = useMemo(() => {
-    const productsToSort = [...products];
-
-    if (sortBy === 'default') {
-      return productsToSort.sort((a, b) => {
-        if (a.is_featured && !b.is_featured) return -1;
-        if (!a.is_featured && b.is_featured) return 1;
-        return 0;
-      });
+  // Rolagem contínua: voltar de /produto/:id recarrega os itens que estavam na tela e a posição
+  // (a posição de rolagem é restaurada pelo gerenciador de navegação quando a lista tiver altura)
+  const [restored] = useState(() => ({ key: location.key, state: getEntryState(location.key) }));
+  const infinite = useInfiniteProducts(
+    { category: params.category, subcategory: params.subcategory, sort: params.sort },
+    {
+      enabled: isInfinite && !isLocal,
+      pageSize: INFINITE_PAGE_SIZE,
+      initialCount: restored.key === location.key ? restored.state?.itemCount : undefined,
     }
+  );
 
-    if (sortBy === 'name-asc') {
-      return productsToSort.sort((a, b) => a.name.localeCompare(b.name));
-    }
+  // Catálogo completo: base da listagem local e das contagens/histograma dos filtros
+  // Buscado em toda visita (em páginas de 100, ver productsApi.getCatalog); só a listagem local espera por ele
+  const { catalog, isLoading: isLoadingCatalog } = useCatalog({ initialData: loaderData.catalog ?? undefined });
+  const deferredSearch = useDeferredValue(searchQuery);
+  const searchResults = useProductSearch(catalog?.products, deferredSearch);
+  // Referência fixa para "novos nos últimos N dias" (as contagens não mudam a cada render)
+  const [now] = useState(() => Date.now());
+
+  // Produtos sobre os quais os filtros atuam: resultados da busca (por relevância) ou o catálogo
+  const facetProducts = useMemo(() => {
+    if (!catalog) return null;
+    return searchResults ? searchResults.map(result => result.item) : catalog.products;
+  }, [catalog, searchResults]);
 
-    if (sortBy === 'price-asc') {
-      return productsToSort.sort((a, b) => (a.price || 0) - (b.price || 0));
+  // Listagem local já ordenada; a paginação é feita aqui
+  const localMatches = useMemo(() => {
+    if (!isLocal || !facetProducts) return null;
+    const matches = filterProducts(facetProducts, {
+      category: selectedCategory,
+      subcategories: selectedSubcategories,
+      ...facets,
+    }, now);
+    return sortProducts(matches, sortBy, isSearching);
+  }, [isLocal, facetProducts, selectedCategory, selectedSubcategories, facets, now, sortBy, isSearching]);
+
+  // Produtos da página; a listagem da API já vem ordenada (só os destaques sobem dentro da página)
+  const sortedProducts = useMemo(() => {
+    if (localMatches) {
+      const start = (currentPage - 1) * itemsPerPage;
+      return localMatches.slice(start, start + itemsPerPage);
     }
+    const pageProducts = data?.products ?? [];
+    return sortBy === 'default' ? sortProducts(pageProducts, sortBy, false) : pageProducts;
+  }, [localMatches, currentPage, itemsPerPage, data, sortBy]);
+  // Rolagem contínua: a lista inteira vai para o grid virtualizado (local) ou cresce por levas (API)
+  const infiniteProducts = localMatches ?? infinite.products;
+  const totalProducts = localMatches ? localMatches.length : isInfinite ? infinite.total : data?.total ?? 0;
+  const isLoading = isLocal ? isLoadingCatalog : isInfinite ? infinite.isLoading : isLoadingPage;
+  const pageData = localMatches ?? data;
 
-    if (sortBy === 'price-desc') {
-      return productsToSort.sort((a, b) => (b.price || 0) - (a.price || 0));
+  // Itens carregados salvos na entrada do histórico, para a volta do produto
+  useEffect(() => {
+    if (isInfinite && infiniteProducts.length > 0) {
+      updateEntryState(location.key, { itemCount: infiniteProducts.length });
     }
+  }, [isInfinite, infiniteProducts.length, location.key]);
+
+  const { loadMore } = infinite;
+  const handleEndReached = useCallback(() => {
+    if (!isLocal) loadMore();
+  }, [isLocal, loadMore]);
 
-    return productsToSort;
-  }, [products, sortBy]);
+  // Trechos encontrados por produto, para o destaque nos cards
+  const matchesById = useMemo(
+    () => new Map(isSearching ? searchResults?.map(result => [result.item.id, result.matches]) : []),
+    [isSearching, searchResults]
+  );
 
   const totalPages = Math.ceil(totalProducts / itemsPerPage);
 
+  // Página da URL além da última (link antigo ou editado): ir para a última sem criar entrada no histórico
+  useEffect(() => {
+    if (!isInfinite && pageData && totalPages > 0 && currentPage > totalPages) {
+      setCurrentPage(totalPages, { replace: true });
+    }
+  }, [isInfinite, pageData, totalPages, currentPage, setCurrentPage]);
+
   const handleFavoriteToggle = useCallback(async (productId: string, event: React.MouseEvent) => {
     event.preventDefault();
     event.stopPropagation();
@@ -126,10 +250,15 @@ export const Products = () => {
       }
     } catch (error) {
       console.error('Erro ao atualizar favoritos:', error);
-      toast.error("Erro ao atualizar favoritos");
+      toast.error(getErrorMessage(error, { fallback: 'Erro ao atualizar favoritos' }));
     }
   }, [isAuthenticated, toggleFavorite, isFavorite, toast]);
 
+  const handleAddToBag = useCallback((product: Product) => {
+    addItem(product);
+    toast.success(`${product.name} adicionado à sacola`, 2500);
+  }, [addItem, toast]);
+
   const handlePageChange = useCallback((page: number) => {
     setCurrentPage(page);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -182,10 +311,17 @@ export const Products = () => {
           isLoadingCategories={isLoadingCategories}
           selectedCategory={selectedCategory}
           selectedSubcategories={selectedSubcategories}
+          facets={facets}
+          facetProducts={facetProducts}
+          now={now}
           sortBy={sortBy}
           onCategoryChange={setCategory}
           onSubcategoryToggle={toggleSubcategory}
+          onPriceRangeChange={setPriceRange}
+          onFeaturedOnlyChange={setFeaturedOnly}
+          onNewInDaysChange={setNewInDays}
           onSortChange={setSortBy}
+          onApplyFilters={applyFilters}
           onClearFilters={clearFilters}
           hasActiveFilters={hasActiveFilters}
           getTotalProductCount={getTotalProductCount}
@@ -196,50 +332,86 @@ export const Products = () => {
         <div className={styles.mainContent}>
           {/* Controles de paginação */}
           <div className={styles.controls}>
-            <div className={styles.itemsPerPageSelector}>
-              <label>Mostrar:</label>
-              <select 
-                value={itemsPerPage} 
-                onChange={(e) => setItemsPerPage(Number(e.target.value))}
+            <SearchBox
+              value={searchQuery}
+              onChange={setSearchQuery}
+              placeholder="Buscar por nome, categoria..."
+              className={styles.searchBox}
+            />
+            <div className={styles.viewToggle} role="group" aria-label="Exibição">
+              <button
+                className={`${styles.viewToggleBtn} ${!isInfinite ? styles.active : ''}`}
+                onClick={() => setViewMode('pages')}
+                aria-pressed={!isInfinite}
+              >
+                Páginas
+              </button>
+              <button
+                className={`${styles.viewToggleBtn} ${isInfinite ? styles.active : ''}`}
+                onClick={() => setViewMode('infinite')}
+                aria-pressed={isInfinite}
               >
-                <option value={6}>6</option>
-                <option value={10}>10</option>
-                <option value={20}>20</option>
-              </select>
-              <span>por página</span>
+                Rolagem contínua
+              </button>
             </div>
+            {!isInfinite && (
+              <div className={styles.itemsPerPageSelector}>
+                <label>Mostrar:</label>
+                <select 
+                  value={itemsPerPage} 
+                  onChange={(e) => setItemsPerPage(Number(e.target.value))}
+                >
+                  {ITEMS_PER_PAGE_OPTIONS.map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+                <span>por página</span>
+              </div>
+            )}
           </div>
 
           {isLoading ? (
             <motion.div className={styles.grid} layout>
-              {Array.from({ length: itemsPerPage }).map((_, i) => (
-                <div key={i} className={styles.cardSkeleton}>
-                  <motion.div 
-                    className={styles.skeletonImage}
-                    animate={{ opacity: [0.4, 0.8, 0.4] }}
-                    transition={skeletonTransition}
-                  ></motion.div>
-                  <div className={styles.skeletonContent}>
-                    <motion.div 
-                      className={styles.skeletonBadge}
-                      animate={{ opacity: [0.4, 0.8, 0.4] }}
-                      transition={{ ...skeletonTransition, delay: 0.1 }}
-                    ></motion.div>
-                    <motion.div 
-                      className={styles.skeletonTitle}
-                      animate={{ opacity: [0.4, 0.8, 0.4] }}
-                      transition={{ ...skeletonTransition, delay: 0.2 }}
-                    ></motion.div>
-                    <motion.div 
-                      className={styles.skeletonPrice}
-                      animate={{ opacity: [0.4, 0.8, 0.4] }}
-                      transition={{ ...skeletonTransition, delay: 0.3 }}
-                    ></motion.div>
-                  </div>
-                </div>
-              ))}
+              <SkeletonCards count={isInfinite ? INFINITE_PAGE_SIZE / 2 : itemsPerPage} transition={skeletonTransition} />
             </motion.div>
-          ) : sortedProducts.length > 0 ? (
+          ) : isInfinite && infiniteProducts.length > 0 ? (
+            <>
+              {/* Só os cards visíveis ficam montados; sem animação de entrada ao rolar */}
+              <VirtualGrid
+                items={infiniteProducts}
+                getKey={(product) => product.id}
+                renderItem={(product) => (
+                  <ProductCard
+                    product={product}
+                    isFavorite={isFavorite(product.id)}
+                    onFavoriteToggle={handleFavoriteToggle}
+                    onAddToBag={handleAddToBag}
+                    matches={matchesById.get(product.id)}
+                    animated={false}
+                  />
+                )}
+                className={styles.grid}
+                onEndReached={handleEndReached}
+              />
+
+              {infinite.isFetchingMore && !isLocal && (
+                <div className={`${styles.grid} ${styles.loadingMore}`}>
+                  <SkeletonCards count={4} transition={skeletonTransition} />
+                </div>
+              )}
+              {infinite.isError && !isLocal && (
+                <div className={styles.listEnd}>
+                  <p>Não foi possível carregar mais produtos.</p>
+                  <button className={styles.pageBtn} onClick={infinite.retry}>Tentar novamente</button>
+                </div>
+              )}
+              {(isLocal || !infinite.hasMore) && (
+                <div className={styles.listEnd}>
+                  <p>Você viu todos os {totalProducts} produtos.</p>
+                </div>
+              )}
+            </>
+          ) : !isInfinite && sortedProducts.length > 0 ? (
             <>
               <motion.div className={styles.grid} layout>
                 <AnimatePresence mode="popLayout">
@@ -249,6 +421,8 @@ export const Products = () => {
                       product={product}
                       isFavorite={isFavorite(product.id)}
                       onFavoriteToggle={handleFavoriteToggle}
+                      onAddToBag={handleAddToBag}
+                      matches={matchesById.get(product.id)}
                     />
                   ))}
                 </AnimatePresence>
@@ -294,7 +468,13 @@ export const Products = () => {
           ) : (
             <div className={styles.emptyState}>
               <h3>Nenhum produto encontrado</h3>
-              <p>Não há produtos disponíveis {selectedCategory ? `na categoria "${selectedCategory}"` : 'no momento'}.</p>
+              {isSearching ? (
+                <p>Nada encontrado para "{searchQuery.trim()}". Confira a grafia ou tente termos mais gerais.</p>
+              ) : hasFacetFilters(facets) ? (
+                <p>Nenhum produto combina com os filtros escolhidos. Tente ampliar a faixa de preço ou remover um filtro.</p>
+              ) : (
+                <p>Não há produtos disponíveis {selectedCategory ? `na categoria "${selectedCategory}"` : 'no momento'}.</p>
+              )}
             </div>
           )}
         </div>
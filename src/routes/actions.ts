@@ -0,0 +1,61 @@
+// Actions das rotas - mutações do admin enviadas via useFetcher
+// Cada mutação invalida as tags afetadas no fetchApi; as queries da página se atualizam sozinhas
+import type { ActionFunctionArgs } from 'react-router-dom';
+import { productsApi, getErrorMessage } from '../services/api';
+
+export type AdminIntent = 'delete' | 'delete-bulk' | 'toggle-featured';
+
+export type AdminActionResult =
+  // ids/isFeatured: o que foi aplicado, para a tabela manter o estado até a listagem ser recarregada
+  | { ok: true; intent: AdminIntent; message: string; ids: string[]; isFeatured?: boolean }
+  | { ok: false; intent: AdminIntent; error: string };
+
+const ERROR_FALLBACKS: Record<AdminIntent, string> = {
+  'delete': 'Erro ao excluir produto',
+  'delete-bulk': 'Erro ao excluir produtos em massa',
+  'toggle-featured': 'Erro ao alterar destaque',
+};
+
+/**
+ * Action da rota /admin
+ * Campos: intent + id (delete/toggle-featured), ids repetidos (delete-bulk), isFeatured ('true'/'false')
+ * Criação e edição continuam chamando a API direto: a action não expõe o progresso do upload
+ */
+export async function adminAction({ request }: ActionFunctionArgs): Promise<AdminActionResult> {
+  const formData = await request.formData();
+  const intent = formData.get('intent') as AdminIntent;
+  const options = { signal: request.signal };
+
+  try {
+    switch (intent) {
+      case 'delete': {
+        const id = String(formData.get('id'));
+        await productsApi.delete(id, options);
+        return { ok: true, intent, message: 'Produto excluído com sucesso!', ids: [id] };
+      }
+      case 'delete-bulk': {
+        const ids = formData.getAll('ids').map(String);
+        await productsApi.deleteBulk(ids, options);
+        return { ok: true, intent, message: `${ids.length} produtos excluídos com sucesso!`, ids };
+      }
+      case 'toggle-featured': {
+        const id = String(formData.get('id'));
+        const isFeatured = formData.get('isFeatured') === 'true';
+        await productsApi.toggleFeatured(id, isFeatured, options);
+        return {
+          ok: true,
+          intent,
+          message: isFeatured ? 'Adicionado aos destaques!' : 'Removido dos destaques',
+          ids: [id],
+          isFeatured,
+        };
+      }
+      default:
+        throw new Response(`Ação desconhecida: ${String(intent)}`, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    console.error(`[Admin] Falha na ação ${intent}:`, error);
+    return { ok: false, intent, error: getErrorMessage(error, { fallback: ERROR_FALLBACKS[intent] }) };
+  }
+}
@@ -0,0 +1,31 @@
+// Comandos enviados para a página /admin pelo state da navegação (ex: paleta de comandos)
+// A página abre o modal correspondente e limpa o state, para não reabrir ao voltar no histórico
+import type { Product } from '../services/api';
+
+export type AdminCommand =
+  | { type: 'new-product' }
+  | { type: 'bulk-upload' }
+  | { type: 'edit-product'; product: Product };
+
+export interface AdminLocationState {
+  adminCommand?: AdminCommand;
+}
+
+/**
+ * Lê o comando do state da navegação (que pode vir de qualquer origem)
+ */
+export function getAdminCommand(state: unknown): AdminCommand | null {
+  if (!state || typeof state !== 'object') return null;
+  const command = (state as AdminLocationState).adminCommand;
+  if (!command || typeof command !== 'object') return null;
+
+  switch (command.type) {
+    case 'new-product':
+    case 'bulk-upload':
+      return command;
+    case 'edit-product':
+      return command.product?.id ? command : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,136 @@
+// Loaders das rotas - buscam os dados em paralelo com o código da página (sem cascata de efeitos)
+// Os dados passam pelo fetchApi/cacheService: a página recebe o resultado como dado inicial
+// das suas queries e a navegação seguinte para a mesma rota sai do cache
+import type { LoaderFunctionArgs, ShouldRevalidateFunctionArgs } from 'react-router-dom';
+import {
+  productsApi,
+  favoritesApi,
+  getStoredAccessToken,
+  isAbortError,
+  type CategoryInfo,
+  type Product,
+  type ProductList,
+  type ProductsQueryParams,
+  type RequestOptions,
+} from '../services/api';
+import {
+  DEFAULT_FILTERS,
+  hasFacetFilters,
+  parseFilterParams,
+  toProductsQueryParams,
+  type ProductFilterState,
+} from '../hooks/useProductFilters';
+import { hasAdminRole } from '../utils/jwt';
+
+// Itens por página da tabela do admin
+export const ADMIN_ITEMS_PER_PAGE = 10;
+
+export interface ProductsLoaderData {
+  /** Parâmetros usados na busca: a página só reaproveita a lista se forem os mesmos dela */
+  params: ProductsQueryParams;
+  products: ProductList | null;
+  /**
+   * Catálogo completo, pré-carregado apenas quando a listagem sai dele (busca ou facetas)
+   * Nas demais visitas a página o busca depois, sem bloquear, para as contagens e o histograma dos filtros
+   */
+  catalog: ProductList | null;
+  categories: CategoryInfo[] | null;
+}
+
+export interface ProductLoaderData {
+  product: Product | null;
+  favorite: { isFavorite: boolean } | null;
+}
+
+export interface AdminLoaderData {
+  catalog: ProductList | null;
+  products: ProductList | null;
+}
+
+/**
+ * Falhas não bloqueiam a navegação: a página exibe o erro (e tenta de novo) pela própria query
+ */
+const settle = <T>(promise: Promise<T>): Promise<T | null> =>
+  promise.catch((error) => {
+    if (!isAbortError(error)) {
+      console.warn('[Router] Falha ao carregar dados da rota:', error);
+    }
+    return null;
+  });
+
+// ============ Dados (compartilhados com o prefetch) ============
+
+export const loadProductsData = async (
+  filters: ProductFilterState = DEFAULT_FILTERS,
+  options: RequestOptions = {}
+): Promise<ProductsLoaderData> => {
+  const params = toProductsQueryParams(filters);
+  // Com busca textual ou facetas a página usa o catálogo completo, não a listagem paginada
+  const usesCatalog = filters.search.trim() !== '' || hasFacetFilters(filters);
+  const [products, catalog, categories] = await Promise.all([
+    usesCatalog ? null : settle(productsApi.getAll(params, true, options)),
+    usesCatalog ? settle(productsApi.getCatalog(true, options)) : null,
+    settle(productsApi.getCategories(true, options)),
+  ]);
+  return { params, products, catalog, categories };
+};
+
+export const loadProductData = async (id: string, options: RequestOptions = {}): Promise<ProductLoaderData> => {
+  // Produto e favorito em paralelo (antes a verificação só começava após o produto carregar)
+  const [product, favorite] = await Promise.all([
+    settle(productsApi.getById(id, true, options)),
+    getStoredAccessToken() ? settle(favoritesApi.check(id, true, options)) : null,
+  ]);
+  return { product, favorite };
+};
+
+export const loadFavoritesData = async (options: RequestOptions = {}): Promise<Product[] | null> => {
+  if (!getStoredAccessToken()) return null;
+  return settle(favoritesApi.getAll(true, options));
+};
+
+export const loadAdminData = async (options: RequestOptions = {}): Promise<AdminLoaderData> => {
+  // A página redireciona quem não é admin; aqui apenas não buscamos nada
+  const token = getStoredAccessToken();
+  if (!token || !hasAdminRole(token)) {
+    return { catalog: null, products: null };
+  }
+
+  const [catalog, products] = await Promise.all([
+    settle(productsApi.getCatalog(true, options)),
+    settle(productsApi.getAll({ page: 1, maxResults: ADMIN_ITEMS_PER_PAGE }, true, options)),
+  ]);
+  return { catalog, products };
+};
+
+export const loadFeaturedData = (options: RequestOptions = {}): Promise<Product[] | null> =>
+  settle(productsApi.getFeatured(true, options));
+
+// ============ Loaders ============
+
+// Filtros vêm da URL: links compartilhados já chegam com a página certa
+export const productsLoader = ({ request }: LoaderFunctionArgs) =>
+  loadProductsData(parseFilterParams(new URL(request.url).searchParams), { signal: request.signal });
+
+export const productLoader = ({ params, request }: LoaderFunctionArgs) =>
+  loadProductData(params.id!, { signal: request.signal });
+
+export const favoritesLoader = ({ request }: LoaderFunctionArgs) =>
+  loadFavoritesData({ signal: request.signal });
+
+export const adminLoader = ({ request }: LoaderFunctionArgs) =>
+  loadAdminData({ signal: request.signal });
+
+/**
+ * Depois de actions, as queries já se atualizam pela invalidação das tags:
+ * reexecutar os loaders só repetiria as buscas
+ */
+export const shouldRevalidate = ({ formMethod, defaultShouldRevalidate }: ShouldRevalidateFunctionArgs) =>
+  formMethod ? false : defaultShouldRevalidate;
+
+/**
+ * Em /produtos, mudanças de filtro só alteram a query string: a página busca pela própria query
+ * (com skeleton e cache), sem segurar a navegação no loader
+ */
+export const productsShouldRevalidate = (args: ShouldRevalidateFunctionArgs) =>
+  args.currentUrl.pathname === args.nextUrl.pathname ? false : shouldRevalidate(args);
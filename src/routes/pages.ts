@@ -0,0 +1,10 @@
+// Importação sob demanda das páginas - compartilhada pelas rotas (lazy) e pelo prefetch
+export const pageImports = {
+  home: () => import('../pages/Home'),
+  products: () => import('../pages/Products'),
+  productDetails: () => import('../pages/ProductDetails'),
+  favorites: () => import('../pages/Favorites'),
+  about: () => import('../pages/About'),
+  contact: () => import('../pages/Contact'),
+  admin: () => import('../pages/Admin'),
+};
@@ -0,0 +1,74 @@
+// Prefetch de rotas - ao passar o mouse, focar ou tocar num link, carrega o código da página
+// e aquece o cache com os mesmos dados do loader; o clique seguinte abre a página sem espera
+import { matchPath, type Params } from 'react-router-dom';
+import { pageImports } from './pages';
+import { parseFilterParams } from '../hooks/useProductFilters';
+import {
+  loadAdminData,
+  loadFavoritesData,
+  loadFeaturedData,
+  loadProductData,
+  loadProductsData,
+} from './loaders';
+
+interface PrefetchRoute {
+  path: string;
+  prefetch: (params: Params, searchParams: URLSearchParams) => Promise<unknown>;
+}
+
+const PREFETCH_ROUTES: PrefetchRoute[] = [
+  { path: '/', prefetch: () => Promise.all([pageImports.home(), loadFeaturedData()]) },
+  {
+    path: '/produtos',
+    prefetch: (_params, searchParams) =>
+      Promise.all([pageImports.products(), loadProductsData(parseFilterParams(searchParams))]),
+  },
+  {
+    path: '/produto/:id',
+    prefetch: ({ id }) => Promise.all([pageImports.productDetails(), id ? loadProductData(id) : null]),
+  },
+  { path: '/favoritos', prefetch: () => Promise.all([pageImports.favorites(), loadFavoritesData()]) },
+  { path: '/sobre', prefetch: () => pageImports.about() },
+  { path: '/contato', prefetch: () => pageImports.contact() },
+  { path: '/admin', prefetch: () => Promise.all([pageImports.admin(), loadAdminData()]) },
+];
+
+// Hover repetido no mesmo link não dispara novas buscas dentro do intervalo
+const PREFETCH_INTERVAL = 30 * 1000;
+const lastPrefetch = new Map<string, number>();
+
+/**
+ * Pré-carrega a rota de destino (código + dados)
+ */
+export function prefetchRoute(to: string): void {
+  const url = new URL(to, window.location.origin);
+  const { pathname } = url;
+  const target = pathname + url.search;
+  const now = Date.now();
+  if (now - (lastPrefetch.get(target) ?? 0) < PREFETCH_INTERVAL) return;
+
+  for (const route of PREFETCH_ROUTES) {
+    const match = matchPath(route.path, pathname);
+    if (!match) continue;
+
+    lastPrefetch.set(target, now);
+    route.prefetch(match.params, url.searchParams).catch((error) => {
+      // Falha no prefetch não afeta a navegação: o loader busca de novo
+      lastPrefetch.delete(target);
+      console.warn(`[Prefetch] Falha ao pré-carregar ${target}:`, error);
+    });
+    return;
+  }
+}
+
+/**
+ * Handlers de prefetch para links (hover, foco do teclado e toque)
+ */
+export function getPrefetchProps(to: string) {
+  const prefetch = () => prefetchRoute(to);
+  return {
+    onMouseEnter: prefetch,
+    onFocus: prefetch,
+    onTouchStart: prefetch,
+  };
+}
@@ -0,0 +1,69 @@
+import { createBrowserRouter } from 'react-router-dom';
+import { PageLoader, Root } from '../App';
+import { pageImports } from './pages';
+import {
+  adminLoader,
+  favoritesLoader,
+  productLoader,
+  productsLoader,
+  productsShouldRevalidate,
+  shouldRevalidate,
+} from './loaders';
+import { adminAction } from './actions';
+
+// Rotas com lazy loading das páginas (código e loader carregam em paralelo)
+// O router executa os loaders da rota inicial ao ser criado: o main.tsx só o cria depois de restaurar o cache
+export const createAppRouter = () => createBrowserRouter([
+  {
+    path: '/',
+    element: <Root />,
+    children: [
+      {
+        index: true,
+        HydrateFallback: PageLoader,
+        lazy: () => pageImports.home().then(m => ({ Component: m.Home })),
+      },
+      {
+        path: 'produtos',
+        HydrateFallback: PageLoader,
+        loader: productsLoader,
+        shouldRevalidate: productsShouldRevalidate,
+        lazy: () => pageImports.products().then(m => ({ Component: m.Products })),
+      },
+      {
+        path: 'produto/:id',
+        HydrateFallback: PageLoader,
+        loader: productLoader,
+        shouldRevalidate,
+        lazy: () => pageImports.productDetails().then(m => ({ Component: m.ProductDetails })),
+      },
+      {
+        path: 'favoritos',
+        HydrateFallback: PageLoader,
+        loader: favoritesLoader,
+        shouldRevalidate,
+        lazy: () => pageImports.favorites().then(m => ({ Component: m.Favorites })),
+      },
+      {
+        path: 'sobre',
+        HydrateFallback: PageLoader,
+        lazy: () => pageImports.about().then(m => ({ Component: m.About })),
+      },
+      {
+        path: 'contato',
+        HydrateFallback: PageLoader,
+        lazy: () => pageImports.contact().then(m => ({ Component: m.Contact })),
+      },
+      {
+        path: 'admin',
+        HydrateFallback: PageLoader,
+        loader: adminLoader,
+        action: adminAction,
+        shouldRevalidate,
+        lazy: () => pageImports.admin().then(m => ({ Component: m.Admin })),
+      },
+    ],
+  },
+]);
+
+export type AppRouter = ReturnType<typeof createAppRouter>;
@@ -1,8 +1,36 @@
 // API Service - Comunicação com o backend
-import { cacheService } from './cache';
+import { cacheService, cacheTags } from './cache';
+import { broadcastAuthEvent, withRefreshLock } from './authSync';
+import { isTokenExpired } from '../utils/jwt';
+import { ApiError, ERROR_CODES, ERROR_MESSAGES, parseErrorResponse, toNetworkError } from './errors';
+import { rateLimiter, sleep } from './rateLimit';
+import { sendWithProgress, type UploadProgress, type UploadRequestOptions } from './upload';
+import {
+  getMergedList,
+  resetMergedList,
+  type FetchSourcePage,
+  type MergedListParams,
+  type ProductSortOrder,
+} from './productMerge';
+
+export { ApiError, getErrorMessage, getFieldErrors, isRetryableError } from './errors';
+export type { ApiErrorKind, FieldError } from './errors';
+export { isAbortError } from './upload';
+export type { UploadProgress, UploadRequestOptions } from './upload';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
+// Tempo limite das requisições (o backend no Render pode levar ~50s no cold start)
+const REQUEST_TIMEOUT = 60 * 1000;
+
+// Espera máxima para repetir automaticamente uma requisição após 429
+// Esperas maiores (ex: limite de /auth/*) são devolvidas à UI como erro com contagem regressiva
+const MAX_RATE_LIMIT_RETRY_WAIT = 60 * 1000;
+
+// Tempo limite de inatividade dos uploads: reiniciado a cada evento de progresso
+// (lotes grandes em conexões lentas podem levar bem mais que REQUEST_TIMEOUT no total)
+const UPLOAD_IDLE_TIMEOUT = 2 * 60 * 1000;
+
 // Tipos baseados no swagger.yaml v2.0.0
 export interface Product {
   id: string;
@@ -78,6 +106,12 @@ const getRefreshToken = (): string | null => {
   }
 };
 
+/**
+ * Access token da sessão salva, para código que roda fora do AuthContext (ex: loaders de rota)
+ * Sem refresh token não há sessão, mesmo que um access token antigo tenha ficado salvo
+ */
+export const getStoredAccessToken = (): string | null => (getRefreshToken() ? getAuthToken() : null);
+
 // Helper para salvar tokens
 const saveTokens = (accessToken: string, refreshToken: string): void => {
   try {
@@ -108,32 +142,70 @@ export const clearTokens = (): void => {
 };
 
 // Helper para criar headers com autenticação
-const getAuthHeaders = (): HeadersInit => {
+// FormData não recebe Content-Type: o navegador define o boundary do multipart
+const getAuthHeaders = (body?: BodyInit | null): HeadersInit => {
   const token = getAuthToken();
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-  };
+  const headers: HeadersInit = {};
+  if (!(body instanceof FormData)) {
+    headers['Content-Type'] = 'application/json';
+  }
   if (token) {
     headers['Authorization'] = `Bearer ${token}`;
   }
   return headers;
 };
 
-// Classe de erro customizada para tratar respostas da API
-export class ApiError extends Error {
-  status: number;
-  code?: string; // NOVO: código de erro (ex: FEATURED_LIMIT_REACHED)
-  
-  constructor(message: string, status: number, code?: string) {
-    super(message);
-    this.status = status;
-    this.code = code;
-    this.name = 'ApiError';
+/**
+ * fetch com tempo limite e conversão de falhas de rede em ApiError
+ * Um AbortSignal informado pelo chamador continua cancelando a requisição normalmente
+ * Com onUploadProgress, o envio é feito via XHR e o tempo limite passa a ser de inatividade
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit = {},
+  onUploadProgress?: (progress: UploadProgress) => void
+): Promise<Response> {
+  const controller = new AbortController();
+  const externalSignal = init.signal;
+  const timeoutMs = onUploadProgress ? UPLOAD_IDLE_TIMEOUT : REQUEST_TIMEOUT;
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const startTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  startTimer();
+
+  const handleExternalAbort = () => controller.abort(externalSignal?.reason);
+  if (externalSignal) {
+    if (externalSignal.aborted) handleExternalAbort();
+    else externalSignal.addEventListener('abort', handleExternalAbort, { once: true });
+  }
+
+  try {
+    const requestInit = { ...init, signal: controller.signal };
+    if (onUploadProgress) {
+      return await sendWithProgress(url, requestInit, (progress) => {
+        startTimer();
+        onUploadProgress(progress);
+      });
+    }
+    return await fetch(url, requestInit);
+  } catch (error) {
+    // Cancelamento explícito pelo chamador: propagar o AbortError sem converter
+    if (externalSignal?.aborted) throw error;
+    throw toNetworkError(error, timedOut);
+  } finally {
+    clearTimeout(timer);
+    externalSignal?.removeEventListener('abort', handleExternalAbort);
   }
 }
 
-// Flag para evitar múltiplas tentativas de refresh simultâneas
-let isRefreshing = false;
+// Promise compartilhada para evitar múltiplas tentativas de refresh simultâneas
 let refreshPromise: Promise<string | null> | null = null;
 
 // Callback para notificar sobre logout forçado (será setado pelo AuthContext)
@@ -169,7 +241,7 @@ async function tryRefreshToken(): Promise<string | null> {
     const requestBody = { refreshToken };
     console.log('[Auth] Request body:', JSON.stringify(requestBody));
     
-    const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+    const response = await fetchWithTimeout(`${API_BASE_URL}/auth/refresh`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -178,6 +250,7 @@ async function tryRefreshToken(): Promise<string | null> {
     });
 
     console.log('[Auth] Refresh response status:', response.status);
+    rateLimiter.update('/auth/refresh', response.headers);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -195,6 +268,9 @@ async function tryRefreshToken(): Promise<string | null> {
     
     updateAccessToken(data.accessToken);
     
+    // Avisar as outras abas para que não gastem o refresh token novamente
+    broadcastAuthEvent({ type: 'token-refreshed', accessToken: data.accessToken });
+    
     // NOVO: Notificar AuthContext sobre renovação para atualizar isAdmin
     if (onTokenRefreshed) {
       onTokenRefreshed(data.accessToken);
@@ -208,30 +284,209 @@ async function tryRefreshToken(): Promise<string | null> {
   }
 }
 
-// Função genérica para fazer requisições com cache e renovação automática de token
+/**
+ * Renova o access token reaproveitando um refresh já em andamento
+ * Usado tanto pela renovação reativa (401/403) quanto pela proativa (sessionScheduler)
+ * Entre abas, o Web Lock garante que apenas uma faça a chamada de refresh por vez
+ */
+function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    // Token conhecido antes de aguardar o lock
+    const staleToken = getAuthToken();
+
+    refreshPromise = withRefreshLock(async () => {
+      // Outra aba renovou enquanto esperávamos: reaproveitar o token salvo
+      const currentToken = getAuthToken();
+      if (currentToken && currentToken !== staleToken && !isTokenExpired(currentToken)) {
+        console.log('[Auth] Token já renovado por outra aba');
+        if (onTokenRefreshed) {
+          onTokenRefreshed(currentToken);
+        }
+        return currentToken;
+      }
+      return tryRefreshToken();
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+// Configuração do pipeline de requisições
+interface FetchConfig<T = unknown> {
+  useCache?: boolean;            // Ler/gravar GETs no cacheService
+  retryOnUnauthorized?: boolean; // Renovar token e repetir em 401/403
+  retryOnRateLimit?: boolean;    // Repetir automaticamente após 429 (espera curta)
+  invalidate?: (data: T) => void; // Hook de invalidação de cache após mutação bem-sucedida (recebe a resposta)
+  tags?: (data: T) => string[];   // Tags gravadas junto com a entrada do cache (ver cacheTags)
+  onUploadProgress?: (progress: UploadProgress) => void; // Progresso de envio (usa XHR)
+  dedupe?: boolean;               // Compartilhar GETs idênticos em andamento (padrão: true)
+  staleWhileRevalidate?: boolean; // Servir entrada expirada e revalidar em segundo plano
+  onRevalidate?: (data: T) => void; // Chamado quando a revalidação traz dados diferentes
+}
+
+// Revalidações em andamento por endpoint (evita buscas duplicadas do mesmo dado stale)
+const revalidations = new Map<string, Promise<unknown>>();
+
+// GETs em andamento compartilhados entre chamadores
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+const inflightRequests = new Map<string, SharedRequest>();
+
+const createAbortError = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('Requisição cancelada', 'AbortError');
+
+/**
+ * Compartilha uma requisição em andamento entre chamadores do mesmo endpoint
+ * Cada chamador pode cancelar a sua espera; a requisição só é abortada quando todos cancelam
+ */
+function shareRequest<T>(
+  key: string,
+  signal: AbortSignal | null | undefined,
+  execute: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError(signal));
+  }
+
+  let shared = inflightRequests.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const entry: SharedRequest = {
+      controller,
+      subscribers: 0,
+      promise: execute(controller.signal).finally(() => {
+        if (inflightRequests.get(key) === entry) {
+          inflightRequests.delete(key);
+        }
+      }),
+    };
+    // Evitar "unhandled rejection" quando todos os chamadores já desistiram
+    entry.promise.catch(() => {});
+    inflightRequests.set(key, entry);
+    shared = entry;
+  } else {
+    console.log(`[API] Reaproveitando requisição em andamento: ${key}`);
+  }
+
+  const entry = shared;
+  entry.subscribers++;
+  if (!signal) {
+    return entry.promise as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      entry.subscribers--;
+      if (entry.subscribers === 0) {
+        entry.controller.abort();
+        if (inflightRequests.get(key) === entry) {
+          inflightRequests.delete(key);
+        }
+      }
+      reject(createAbortError(signal));
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    entry.promise.then(
+      (value) => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(value as T);
+      },
+      (error) => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Pipeline único de requisições (JSON e FormData)
+ * Responsável por headers de autenticação, cache, renovação de token em 401/403,
+ * controle de rate limit, parsing de erros e invalidação de cache após mutações
+ */
 async function fetchApi<T>(
   endpoint: string,
   options: RequestInit = {},
-  useCache = false,
-  retryOnUnauthorized = true
+  config: FetchConfig<T> = {}
 ): Promise<T> {
+  const {
+    useCache = false,
+    retryOnUnauthorized = true,
+    retryOnRateLimit = true,
+    invalidate,
+    tags,
+    onUploadProgress,
+    dedupe = true,
+    staleWhileRevalidate = false,
+    onRevalidate,
+  } = config;
   const url = `${API_BASE_URL}${endpoint}`;
+  const isGet = !options.method || options.method === 'GET';
   
   // Tentar cache se habilitado e for GET
-  if (useCache && (!options.method || options.method === 'GET')) {
+  if (useCache && isGet) {
     const cached = cacheService.get<T>(endpoint);
     if (cached !== null) {
       return cached;
     }
+
+    // Stale-while-revalidate: responder na hora com o valor expirado e buscar o novo em segundo plano
+    if (staleWhileRevalidate) {
+      const stale = cacheService.getStale<T>(endpoint);
+      if (stale !== null) {
+        revalidate<T>(endpoint, options, config).then(fresh => {
+          // Chamador que já cancelou (ex: filtros mudaram) não recebe a atualização
+          if (options.signal?.aborted) return;
+          if (onRevalidate && JSON.stringify(fresh) !== JSON.stringify(stale)) {
+            onRevalidate(fresh);
+          }
+        }).catch(error => {
+          console.warn(`[Cache] Falha ao revalidar ${endpoint}:`, error);
+        });
+        return stale;
+      }
+    }
+  }
+
+  // GETs idênticos em andamento: aguardar a mesma resposta em vez de ir à rede de novo
+  if (isGet && dedupe) {
+    return shareRequest<T>(endpoint, options.signal, (signal) =>
+      fetchApi<T>(endpoint, { ...options, signal }, { ...config, dedupe: false })
+    );
+  }
+
+  // GETs não são urgentes: aguardam na fila quando o orçamento de requisições está baixo
+  if (isGet) {
+    const waitMs = await rateLimiter.acquire(endpoint, options.signal);
+    if (waitMs > 0) {
+      throw new ApiError(ERROR_MESSAGES['rate-limited'], 429, undefined, { retryAfter: waitMs });
+    }
   }
 
-  const response = await fetch(url, {
+  const response = await fetchWithTimeout(url, {
     ...options,
     headers: {
-      ...getAuthHeaders(),
+      ...getAuthHeaders(options.body),
       ...options.headers,
     },
-  });
+  }, onUploadProgress);
+
+  rateLimiter.update(endpoint, response.headers);
+
+  // 429: repetir automaticamente após o reset se a espera for curta
+  if (response.status === 429) {
+    const waitMs = rateLimiter.handleTooManyRequests(endpoint, response.headers);
+    if (retryOnRateLimit && waitMs <= MAX_RATE_LIMIT_RETRY_WAIT) {
+      await sleep(waitMs, options.signal);
+      return fetchApi<T>(endpoint, options, { ...config, retryOnRateLimit: false });
+    }
+    throw await parseErrorResponse(response, waitMs);
+  }
 
   // Tratar erro 401/403 (token inválido/expirado) com renovação automática
   // Tenta refresh em QUALQUER 401/403 se temos refresh token e retry está habilitado
@@ -243,61 +498,77 @@ async function fetchApi<T>(
       console.log('[Auth] Recebido', response.status, '- tentando renovar token...');
       
       // Evitar múltiplas renovações simultâneas
-      if (!isRefreshing) {
-        isRefreshing = true;
-        refreshPromise = tryRefreshToken();
-      }
-      
-      const newToken = await refreshPromise;
-      isRefreshing = false;
-      refreshPromise = null;
+      const newToken = await refreshAccessToken();
       
       if (newToken) {
         // Refazer a requisição com o novo token (sem retry para evitar loop)
-        return fetchApi<T>(endpoint, options, useCache, false);
+        // FormData pode ser reenviado: o formulário do admin não se perde
+        return fetchApi<T>(endpoint, options, { ...config, retryOnUnauthorized: false });
       } else {
         // Refresh falhou, forçar logout
         clearTokens();
         if (onForceLogout) {
           onForceLogout();
         }
-        throw new ApiError('Sessão expirada. Faça login novamente.', response.status, 'SESSION_EXPIRED');
+        throw new ApiError(ERROR_MESSAGES['auth-expired'], response.status, ERROR_CODES.SESSION_EXPIRED);
       }
     }
     
     // Sem refresh token, retornar erro normalmente
-    const errorData = await response.json().catch(() => ({}));
-    throw new ApiError(
-      errorData.message || errorData.error || `HTTP error! status: ${response.status}`,
-      response.status,
-      errorData.code
-    );
+    throw await parseErrorResponse(response);
   }
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new ApiError(
-      errorData.message || errorData.error || `HTTP error! status: ${response.status}`,
-      response.status,
-      errorData.code // Incluir código de erro se disponível
-    );
+    throw await parseErrorResponse(response);
   }
 
   // Se for 204 No Content, retorna undefined
-  if (response.status === 204) {
-    return undefined as T;
-  }
+  const data = response.status === 204 ? undefined as T : await response.json();
 
-  const data = await response.json();
+  // Mutação bem-sucedida: invalidar caches afetados
+  if (!isGet && invalidate) {
+    invalidate(data);
+  }
 
   // Salvar no cache se habilitado e for GET
-  if (useCache && (!options.method || options.method === 'GET')) {
-    cacheService.set(endpoint, data);
+  if (useCache && isGet && data !== undefined) {
+    cacheService.set(endpoint, data, undefined, tags ? tags(data) : []);
   }
 
   return data;
 }
 
+/**
+ * Busca a versão atualizada de uma entrada stale (compartilhada entre chamadas simultâneas)
+ */
+function revalidate<T>(endpoint: string, options: RequestInit, config: FetchConfig<T>): Promise<T> {
+  let pending = revalidations.get(endpoint) as Promise<T> | undefined;
+  if (!pending) {
+    // Em segundo plano: não vinculada ao AbortSignal de quem exibiu o valor stale
+    pending = fetchApi<T>(endpoint, { ...options, signal: undefined }, {
+      ...config,
+      staleWhileRevalidate: false,
+      onRevalidate: undefined,
+    }).finally(() => {
+      revalidations.delete(endpoint);
+    });
+    revalidations.set(endpoint, pending);
+  }
+  return pending;
+}
+
+// Opções aceitas por todos os métodos das APIs
+export interface RequestOptions {
+  /** Cancela a requisição (ex: efeito desmontado ou filtros alterados) */
+  signal?: AbortSignal;
+}
+
+// Opções das leituras com stale-while-revalidate
+export interface RevalidateOptions<T> extends RequestOptions {
+  /** Recebe os dados novos quando um valor stale foi exibido e a revalidação trouxe mudanças */
+  onRevalidate?: (data: T) => void;
+}
+
 // Helper para normalizar o objeto produto
 const normalizeProduct = (p: any): Product => {
   return {
@@ -306,6 +577,39 @@ const normalizeProduct = (p: any): Product => {
   };
 };
 
+// ============ Tags de cache ============
+
+// Tags de cada produto presente em uma resposta
+const productTags = (products: unknown[]): string[] =>
+  products.map(p => cacheTags.product(normalizeProduct(p).id));
+
+// Listas e contagens afetadas quando um produto entra ou sai de uma categoria/subcategoria
+const membershipTags = (product: Pick<Product, 'category' | 'subcategory'>): string[] => {
+  const tags = [cacheTags.listAll, cacheTags.listCategory(product.category), cacheTags.categories];
+  if (product.subcategory) tags.push(cacheTags.listSubcategory(product.subcategory));
+  return tags;
+};
+
+// Sem saber onde o produto estava, invalidar todas as listagens
+const ALL_LISTS_TAGS = [cacheTags.list, cacheTags.categories];
+
+/**
+ * Procura o produto nas entradas de cache que o contêm (detalhe, listas ou destaques)
+ * Usado para saber a categoria anterior de um produto editado ou excluído
+ */
+const findCachedProduct = (id: string): Product | null => {
+  for (const data of cacheService.getTaggedData(cacheTags.product(id))) {
+    const candidates: unknown[] = Array.isArray(data)
+      ? data
+      : data && typeof data === 'object' && 'products' in data
+        ? (data as ProductList).products
+        : [data];
+    const match = candidates.map(normalizeProduct).find(p => p.id === id);
+    if (match) return match;
+  }
+  return null;
+};
+
 // ============ Auth API ============
 
 // Validação de email
@@ -327,7 +631,7 @@ export const authApi = {
     const response = await fetchApi<LoginResponse>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
-    }, false, false); // Sem cache, sem retry (é a autenticação inicial)
+    }, { retryOnUnauthorized: false }); // Sem cache, sem retry (é a autenticação inicial)
     
     // Salvar tokens automaticamente
     saveTokens(response.accessToken, response.refreshToken);
@@ -339,7 +643,7 @@ export const authApi = {
    * Renova o access token usando o refresh token
    */
   refresh: async (): Promise<RefreshResponse | null> => {
-    const newToken = await tryRefreshToken();
+    const newToken = await refreshAccessToken();
     if (newToken) {
       return { accessToken: newToken, expiresIn: '15m' };
     }
@@ -373,6 +677,8 @@ export interface ProductsQueryParams {
   page?: number;
   category?: string;
   subcategory?: string | string[];
+  /** Ordenação em todas as páginas (sem ela, a ordem da API) */
+  sort?: ProductSortOrder;
 }
 
 export interface CategoryInfo {
@@ -381,57 +687,45 @@ export interface CategoryInfo {
   productCount: number;
 }
 
+// Itens por página ao montar o catálogo completo (limite de maxResults da API)
+const CATALOG_PAGE_SIZE = 100;
+
 export const productsApi = {
   /**
    * Lista produtos com paginação e filtros
-   * @param params - Parâmetros de query (maxResults, page, category, subcategory)
+   * @param params - Parâmetros de query (maxResults, page, category, subcategory, sort)
    * @param useCache - Se deve usar cache (padrão: true)
    */
-  getAll: async (params?: ProductsQueryParams, useCache = true): Promise<ProductList> => {
-    // Caso especial: Múltiplas subcategorias (Lógica OR no frontend)
-    if (params?.subcategory && Array.isArray(params.subcategory) && params.subcategory.length > 0) {
-      if (params.subcategory.length === 1) {
-        // Se for apenas uma, trata como string simples (comportamento padrão)
-        return productsApi.getAll({ ...params, subcategory: params.subcategory[0] }, useCache);
-      }
-
-      // Para múltiplas, buscamos TODAS para fazer o merge e paginação manual
-      // Limitamos a 100 itens por subcategoria para não sobrecarregar (MVP)
-      const promises = params.subcategory.map(sub => {
-        const singleParams = { ...params, subcategory: sub, maxResults: 100, page: 1 };
-        return productsApi.getAll(singleParams, useCache);
-      });
-
-      try {
-        const results = await Promise.all(promises);
-        
-        // Combinar produtos (evitando duplicatas se houver, embora a regra seja 1:1)
-        const allProducts = new Map<string, Product>();
-        results.forEach(res => {
-          res.products.forEach(p => allProducts.set(p.id, p));
-        });
-        
-        const combinedProducts = Array.from(allProducts.values());
-        
-        // Paginação manual
-        const page = params.page || 1;
-        const maxResults = params.maxResults || 20;
-        const total = combinedProducts.length;
-        
-        const start = (page - 1) * maxResults;
-        const end = start + maxResults;
-        const paginatedProducts = combinedProducts.slice(start, end);
-        
-        return {
-          products: paginatedProducts,
-          total: total,
-          page: page,
-          maxResults: maxResults
-        };
-      } catch (error) {
-        console.error('Erro ao buscar múltiplas subcategorias:', error);
-        throw error;
-      }
+  getAll: async (
+    params?: ProductsQueryParams,
+    useCache = true,
+    options: RevalidateOptions<ProductList> = {}
+  ): Promise<ProductList> => {
+    const { onRevalidate, signal } = options;
+
+    // Várias subcategorias (OR) ou ordenação: merge das fontes paginadas no frontend
+    const subcategories = typeof params?.subcategory === 'string'
+      ? [params.subcategory]
+      : params?.subcategory ?? [];
+    if (params && (subcategories.length > 1 || params.sort)) {
+      const mergedParams: MergedListParams = {
+        category: params.category,
+        subcategories,
+        sort: params.sort,
+        page: params.page || 1,
+        maxResults: params.maxResults || 20,
+      };
+      const fetchPage: FetchSourcePage = (subcategory, page, maxResults, sourceOptions) =>
+        productsApi.getAll({ category: params.category, subcategory, page, maxResults }, useCache, sourceOptions);
+
+      // Quando uma fonte é revalidada com mudanças, refazer o merge a partir do cache atualizado
+      const remerge = () => {
+        resetMergedList(mergedParams);
+        if (!onRevalidate || signal?.aborted) return;
+        getMergedList(mergedParams, fetchPage, useCache, { signal }).then(onRevalidate).catch(() => {});
+      };
+
+      return getMergedList(mergedParams, fetchPage, useCache, { signal, onRevalidate: remerge });
     }
 
     // Comportamento padrão (Single subcategory ou nenhuma)
@@ -442,35 +736,85 @@ export const productsApi = {
       if (params.maxResults) queryParams.append('maxResults', params.maxResults.toString());
       if (params.page) queryParams.append('page', params.page.toString());
       if (params.category) queryParams.append('category', params.category);
-      // Se chegou aqui como string
-      if (params.subcategory && typeof params.subcategory === 'string') {
-        queryParams.append('subcategory', params.subcategory);
-      }
+      if (subcategories.length === 1) queryParams.append('subcategory', subcategories[0]);
       
       const queryString = queryParams.toString();
       if (queryString) endpoint += `?${queryString}`;
     }
 
-    const data = await fetchApi<ProductList>(endpoint, {}, useCache);
+    const normalize = (list: ProductList): ProductList => ({
+      ...list,
+      products: list.products.map(normalizeProduct),
+    });
+
+    // Tags: produtos da página + filtro da listagem (invalidadas quando um produto entra/sai do filtro)
+    const subcategory = subcategories[0];
+    const listTags = [cacheTags.list];
+    if (params?.category) listTags.push(cacheTags.listCategory(params.category));
+    if (subcategory) listTags.push(cacheTags.listSubcategory(subcategory));
+    if (!params?.category && !subcategory) listTags.push(cacheTags.listAll);
+
+    const data = await fetchApi<ProductList>(endpoint, { signal }, {
+      useCache,
+      tags: (list) => [...listTags, ...productTags(list.products)],
+      staleWhileRevalidate: true,
+      onRevalidate: onRevalidate && (fresh => onRevalidate(normalize(fresh))),
+    });
     
     // Normalizar produtos
-    data.products = data.products.map(normalizeProduct);
-    return data;
+    return normalize(data);
+  },
+
+  /**
+   * Catálogo completo (busca e facetas no navegador): páginas de CATALOG_PAGE_SIZE até chegar ao total
+   * A primeira página informa o total; as demais são buscadas em paralelo
+   */
+  getCatalog: async (useCache = true, options: RevalidateOptions<ProductList> = {}): Promise<ProductList> => {
+    const { onRevalidate, signal } = options;
+
+    // Uma página revalidada com mudanças: remontar o catálogo a partir do cache atualizado (uma vez)
+    let reloading = false;
+    const reload = () => {
+      if (!onRevalidate || reloading || signal?.aborted) return;
+      reloading = true;
+      productsApi.getCatalog(useCache, { signal }).then(onRevalidate).catch(() => {});
+    };
+    const getPage = (page: number) =>
+      productsApi.getAll({ page, maxResults: CATALOG_PAGE_SIZE }, useCache, { signal, onRevalidate: reload });
+
+    const first = await getPage(1);
+    const pageCount = first.products.length < CATALOG_PAGE_SIZE ? 1 : Math.ceil(first.total / CATALOG_PAGE_SIZE);
+    const rest = await Promise.all(Array.from({ length: Math.max(pageCount - 1, 0) }, (_, i) => getPage(i + 2)));
+
+    // Sem repetidos caso um produto mude de página entre as requisições
+    const byId = new Map<string, Product>();
+    [first, ...rest].forEach(list => list.products.forEach(product => byId.set(product.id, product)));
+    const products = Array.from(byId.values());
+    return { products, total: products.length, page: 1, maxResults: products.length };
   },
 
   /**
    * Busca produto por ID
    */
-  getById: async (id: string, useCache = true): Promise<Product> => {
-    const data = await fetchApi<Product>(`/products/${id}`, {}, useCache);
+  getById: async (id: string, useCache = true, options: RequestOptions = {}): Promise<Product> => {
+    const data = await fetchApi<Product>(`/products/${id}`, { signal: options.signal }, {
+      useCache,
+      tags: () => [cacheTags.product(id)],
+    });
     return normalizeProduct(data);
   },
 
   /**
    * Busca produtos em destaque (máximo 6)
    */
-  getFeatured: async (useCache = true): Promise<Product[]> => {
-    const data = await fetchApi<Product[]>('/products/featured', {}, useCache);
+  getFeatured: async (useCache = true, options: RevalidateOptions<Product[]> = {}): Promise<Product[]> => {
+    const { onRevalidate, signal } = options;
+    const data = await fetchApi<Product[]>('/products/featured', { signal }, {
+      useCache,
+      tags: (products) => [cacheTags.featured, ...productTags(products)],
+      staleWhileRevalidate: true,
+      onRevalidate: onRevalidate && (fresh => onRevalidate(fresh.map(normalizeProduct))),
+    });
     return data.map(normalizeProduct);
   },
 
@@ -478,36 +822,28 @@ export const productsApi = {
    * Lista categorias com subcategorias e contagem de produtos
    * @param useCache - Se deve usar cache (padrão: true, TTL: 5 min)
    */
-  getCategories: async (useCache = true): Promise<CategoryInfo[]> => {
-    return fetchApi<CategoryInfo[]>('/products/categories', {}, useCache);
+  getCategories: async (useCache = true, options: RevalidateOptions<CategoryInfo[]> = {}): Promise<CategoryInfo[]> => {
+    return fetchApi<CategoryInfo[]>('/products/categories', { signal: options.signal }, {
+      useCache,
+      tags: () => [cacheTags.categories],
+      staleWhileRevalidate: true,
+      onRevalidate: options.onRevalidate,
+    });
   },
 
   /**
    * Cria novo produto (Admin)
    */
-  create: async (formData: FormData): Promise<Product> => {
-    const token = getAuthToken();
-    const response = await fetch(`${API_BASE_URL}/products`, {
+  create: async (formData: FormData, upload: UploadRequestOptions = {}): Promise<Product> => {
+    const data = await fetchApi<Product>('/products', {
       method: 'POST',
-      headers: {
-        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
-      },
       body: formData,
+      signal: upload.signal,
+    }, {
+      onUploadProgress: upload.onUploadProgress,
+      // Invalidar apenas as listagens em que o novo produto aparece
+      invalidate: (created) => cacheService.invalidateTags(membershipTags(normalizeProduct(created))),
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new ApiError(
-        errorData.message || errorData.error || `HTTP error! status: ${response.status}`,
-        response.status,
-        errorData.code
-      );
-    }
-
-    const data = await response.json();
-    
-    // Invalidar cache de produtos
-    cacheService.invalidateProducts();
     
     return normalizeProduct(data);
   },
@@ -515,29 +851,27 @@ export const productsApi = {
   /**
    * Atualiza produto existente (Admin)
    */
-  update: async (id: string, formData: FormData): Promise<Product> => {
-    const token = getAuthToken();
-    const response = await fetch(`${API_BASE_URL}/products/${id}`, {
+  update: async (id: string, formData: FormData, upload: UploadRequestOptions = {}): Promise<Product> => {
+    const previous = findCachedProduct(id);
+    const data = await fetchApi<Product>(`/products/${id}`, {
       method: 'PUT',
-      headers: {
-        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
-      },
       body: formData,
+      signal: upload.signal,
+    }, {
+      onUploadProgress: upload.onUploadProgress,
+      // Invalidar o produto (detalhe e listas que o contêm)
+      // Se mudou de categoria/subcategoria, também as listagens de origem e destino
+      invalidate: (updated) => {
+        const product = normalizeProduct(updated);
+        const tags = [cacheTags.product(id)];
+        if (!previous) {
+          tags.push(...ALL_LISTS_TAGS);
+        } else if (previous.category !== product.category || (previous.subcategory ?? null) !== (product.subcategory ?? null)) {
+          tags.push(...membershipTags(previous), ...membershipTags(product));
+        }
+        cacheService.invalidateTags(tags);
+      },
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new ApiError(
-        errorData.message || errorData.error || `HTTP error! status: ${response.status}`,
-        response.status,
-        errorData.code
-      );
-    }
-
-    const data = await response.json();
-    
-    // Invalidar cache do produto específico e listas
-    cacheService.invalidateProduct(id);
     
     return normalizeProduct(data);
   },
@@ -546,57 +880,57 @@ export const productsApi = {
    * Deleta produto (Admin)
    * IMPORTANTE: Também remove a imagem do storage automaticamente
    */
-  delete: async (id: string): Promise<void> => {
+  delete: async (id: string, options: RequestOptions = {}): Promise<void> => {
+    const previous = findCachedProduct(id);
     await fetchApi(`/products/${id}`, {
       method: 'DELETE',
+      signal: options.signal,
+    }, {
+      // Invalidar o produto e as listagens de onde ele sai (páginas seguintes se deslocam)
+      invalidate: () => cacheService.invalidateTags([
+        cacheTags.product(id),
+        ...(previous ? membershipTags(previous) : ALL_LISTS_TAGS),
+      ]),
     });
-    
-    // Invalidar cache do produto e listas
-    cacheService.invalidateProduct(id);
   },
 
   /**
    * Marca/desmarca produto como destaque (Admin)
    * Máximo de 6 produtos em destaque
    */
-  toggleFeatured: async (id: string, isFeatured: boolean): Promise<Product> => {
+  toggleFeatured: async (id: string, isFeatured: boolean, options: RequestOptions = {}): Promise<Product> => {
     const data = await fetchApi<Product>(`/products/${id}/featured`, {
       method: 'PATCH',
       body: JSON.stringify({ isFeatured }),
+      signal: options.signal,
+    }, {
+      // Invalidar o produto (listas que o exibem) e os destaques
+      invalidate: () => cacheService.invalidateTags([cacheTags.product(id), cacheTags.featured]),
     });
     
-    // Invalidar cache de produtos e destaques
-    cacheService.invalidateProducts();
-    
     return normalizeProduct(data);
   },
 
   /**
    * Cria múltiplos produtos em massa (Admin)
    */
-  createBulk: async (formData: FormData): Promise<{ message: string; createdCount: number; products: Product[] }> => {
-    const token = getAuthToken();
-    const response = await fetch(`${API_BASE_URL}/products/bulk`, {
+  createBulk: async (
+    formData: FormData,
+    upload: UploadRequestOptions = {}
+  ): Promise<{ message: string; createdCount: number; products: Product[] }> => {
+    const data = await fetchApi<{ message: string; createdCount: number; products: Product[] }>('/products/bulk', {
       method: 'POST',
-      headers: {
-        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
-      },
       body: formData,
+      signal: upload.signal,
+    }, {
+      onUploadProgress: upload.onUploadProgress,
+      // Invalidar apenas as listagens em que os novos produtos aparecem
+      invalidate: (result) => cacheService.invalidateTags(
+        Array.isArray(result?.products)
+          ? result.products.flatMap(p => membershipTags(normalizeProduct(p)))
+          : ALL_LISTS_TAGS
+      ),
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new ApiError(
-        errorData.message || errorData.error || `HTTP error! status: ${response.status}`,
-        response.status,
-        errorData.code
-      );
-    }
-
-    const data = await response.json();
-    
-    // Invalidar cache de produtos
-    cacheService.invalidateProducts();
     
     // Normalizar produtos retornados
     if (data.products && Array.isArray(data.products)) {
@@ -609,85 +943,104 @@ export const productsApi = {
   /**
    * Deleta múltiplos produtos (Admin)
    */
-  deleteBulk: async (ids: string[]): Promise<{ message: string; deletedCount: number; deletedIds: string[] }> => {
-    const result = await fetchApi<{ message: string; deletedCount: number; deletedIds: string[] }>('/products/bulk', {
+  deleteBulk: async (
+    ids: string[],
+    options: RequestOptions = {}
+  ): Promise<{ message: string; deletedCount: number; deletedIds: string[] }> => {
+    const previous = ids.map(findCachedProduct);
+    return fetchApi<{ message: string; deletedCount: number; deletedIds: string[] }>('/products/bulk', {
       method: 'DELETE',
       body: JSON.stringify({ ids }),
+      signal: options.signal,
+    }, {
+      // Invalidar os produtos e as listagens de onde eles saem
+      invalidate: () => cacheService.invalidateTags([
+        ...ids.map(cacheTags.product),
+        ...previous.flatMap(product => (product ? membershipTags(product) : ALL_LISTS_TAGS)),
+      ]),
     });
-    
-    // Invalidar cache de produtos
-    cacheService.invalidateProducts();
-    
-    return result;
   },
 };
 
 // ============ Favorites API ============
 
+// Entradas afetadas ao adicionar/remover um favorito
+const favoriteTags = (productId: string): string[] => [
+  cacheTags.favoritesList,
+  cacheTags.favoritesCount,
+  cacheTags.favoriteCheck(productId),
+];
+
 export const favoritesApi = {
   /**
    * Lista todos os favoritos do usuário
    */
-  getAll: async (useCache = true): Promise<Product[]> => {
-    const data = await fetchApi<Product[]>('/favorites', {}, useCache);
+  getAll: async (useCache = true, options: RequestOptions = {}): Promise<Product[]> => {
+    const data = await fetchApi<Product[]>('/favorites', { signal: options.signal }, {
+      useCache,
+      tags: () => [cacheTags.favorites, cacheTags.favoritesList],
+    });
     return data.map(normalizeProduct);
   },
 
   /**
    * Adiciona produto aos favoritos
    */
-  add: async (productId: string): Promise<{ message: string; favorite: Favorite }> => {
-    const result = await fetchApi<{ message: string; favorite: Favorite }>('/favorites', {
+  add: async (productId: string, options: RequestOptions = {}): Promise<{ message: string; favorite: Favorite }> => {
+    return fetchApi<{ message: string; favorite: Favorite }>('/favorites', {
       method: 'POST',
       body: JSON.stringify({ productId }),
+      signal: options.signal,
+    }, {
+      // Invalidar lista, contagem e a verificação deste produto
+      invalidate: () => cacheService.invalidateTags(favoriteTags(productId)),
     });
-    
-    // Invalidar cache de favoritos
-    cacheService.invalidateFavorites();
-    
-    return result;
   },
 
   /**
    * Remove produto dos favoritos
    */
-  remove: async (productId: string): Promise<{ message: string }> => {
-    const result = await fetchApi<{ message: string }>(`/favorites/${productId}`, {
+  remove: async (productId: string, options: RequestOptions = {}): Promise<{ message: string }> => {
+    return fetchApi<{ message: string }>(`/favorites/${productId}`, {
       method: 'DELETE',
+      signal: options.signal,
+    }, {
+      // Invalidar lista, contagem e a verificação deste produto
+      invalidate: () => cacheService.invalidateTags(favoriteTags(productId)),
     });
-    
-    // Invalidar cache de favoritos
-    cacheService.invalidateFavorites();
-    
-    return result;
   },
 
   /**
    * Verifica se produto está nos favoritos
    */
-  check: async (productId: string, useCache = true): Promise<{ isFavorite: boolean }> => {
-    return fetchApi<{ isFavorite: boolean }>(`/favorites/check/${productId}`, {}, useCache);
+  check: async (productId: string, useCache = true, options: RequestOptions = {}): Promise<{ isFavorite: boolean }> => {
+    return fetchApi<{ isFavorite: boolean }>(`/favorites/check/${productId}`, { signal: options.signal }, {
+      useCache,
+      tags: () => [cacheTags.favorites, cacheTags.favoriteCheck(productId)],
+    });
   },
 
   /**
    * Conta total de favoritos do usuário
    */
-  count: async (useCache = true): Promise<{ count: number }> => {
-    return fetchApi<{ count: number }>('/favorites/count', {}, useCache);
+  count: async (useCache = true, options: RequestOptions = {}): Promise<{ count: number }> => {
+    return fetchApi<{ count: number }>('/favorites/count', { signal: options.signal }, {
+      useCache,
+      tags: () => [cacheTags.favorites, cacheTags.favoritesCount],
+    });
   },
 
   /**
    * Remove todos os favoritos do usuário
    */
-  clearAll: async (): Promise<{ message: string }> => {
-    const result = await fetchApi<{ message: string }>('/favorites', {
+  clearAll: async (options: RequestOptions = {}): Promise<{ message: string }> => {
+    return fetchApi<{ message: string }>('/favorites', {
       method: 'DELETE',
+      signal: options.signal,
+    }, {
+      // Invalidar todas as entradas de favoritos do usuário
+      invalidate: () => cacheService.invalidateTags([cacheTags.favorites]),
     });
-    
-    // Invalidar cache de favoritos
-    cacheService.invalidateFavorites();
-    
-    return result;
   },
 };
 
@@ -702,7 +1055,7 @@ export const usersApi = {
   /**
    * Lista usuários com paginação (Admin)
    */
-  getAll: async (params?: UsersQueryParams, useCache = true): Promise<UserList> => {
+  getAll: async (params?: UsersQueryParams, useCache = true, options: RequestOptions = {}): Promise<UserList> => {
     let endpoint = '/users';
     
     if (params) {
@@ -714,13 +1067,158 @@ export const usersApi = {
       if (queryString) endpoint += `?${queryString}`;
     }
 
-    return fetchApi<UserList>(endpoint, {}, useCache);
+    return fetchApi<UserList>(endpoint, { signal: options.signal }, { useCache, tags: () => [cacheTags.users] });
   },
 
   /**
    * Busca usuário por ID (Admin)
    */
-  getById: async (id: string, useCache = true): Promise<User> => {
-    return fetchApi<User>(`/users/${id}`, {}, useCache);
+  getById: async (id: string, useCache = true, options: RequestOptions = {}): Promise<User> => {
+    return fetchApi<User>(`/users/${id}`, { signal: options.signal }, { useCache, tags: () => [cacheTags.users] });
+  },
+};
+
+// ============ Custom Orders API ============
+// Rotas /custom-orders: envio público (multipart, com imagens de referência) e caixa de entrada do admin
+// Ainda fora do swagger.yaml: com 404, o envio segue pelo WhatsApp/email e a caixa de entrada some do Admin
+
+export type CustomOrderStatus = 'new' | 'reviewing' | 'quoted' | 'in-production' | 'done' | 'cancelled';
+
+export interface CustomOrder {
+  id: string;
+  product_type: string;
+  colors: string;
+  theme?: string;
+  quantity: number;
+  /** Data desejada (YYYY-MM-DD) */
+  deadline?: string;
+  description?: string;
+  name: string;
+  email: string;
+  phone?: string;
+  preferred_contact: 'whatsapp' | 'email';
+  reference_images: string[];
+  status: CustomOrderStatus;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface CustomOrderList {
+  orders: CustomOrder[];
+  total: number;
+  page: number;
+  maxResults: number;
+}
+
+export interface CustomOrdersQueryParams {
+  status?: CustomOrderStatus;
+  maxResults?: number;
+  page?: number;
+}
+
+export const customOrdersApi = {
+  /**
+   * Envia um pedido especial (público; imagens no campo reference_images)
+   */
+  create: async (formData: FormData, upload: UploadRequestOptions = {}): Promise<CustomOrder> => {
+    return fetchApi<CustomOrder>('/custom-orders', {
+      method: 'POST',
+      body: formData,
+      signal: upload.signal,
+    }, {
+      onUploadProgress: upload.onUploadProgress,
+      invalidate: () => cacheService.invalidateTags([cacheTags.customOrders]),
+    });
+  },
+
+  /**
+   * Lista os pedidos especiais, mais recentes primeiro (Admin)
+   */
+  getAll: async (params: CustomOrdersQueryParams = {}, useCache = true, options: RequestOptions = {}): Promise<CustomOrderList> => {
+    const queryParams = new URLSearchParams();
+    if (params.status) queryParams.append('status', params.status);
+    if (params.maxResults) queryParams.append('maxResults', params.maxResults.toString());
+    if (params.page) queryParams.append('page', params.page.toString());
+
+    const queryString = queryParams.toString();
+    const endpoint = queryString ? `/custom-orders?${queryString}` : '/custom-orders';
+    return fetchApi<CustomOrderList>(endpoint, { signal: options.signal }, {
+      useCache,
+      tags: () => [cacheTags.customOrders],
+    });
+  },
+
+  /**
+   * Atualiza o status do pedido (Admin)
+   */
+  updateStatus: async (id: string, status: CustomOrderStatus, options: RequestOptions = {}): Promise<CustomOrder> => {
+    return fetchApi<CustomOrder>(`/custom-orders/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+      signal: options.signal,
+    }, {
+      invalidate: () => cacheService.invalidateTags([cacheTags.customOrders]),
+    });
+  },
+};
+
+// ============ Store Settings API ============
+// Rota /settings: leitura pública (contatos e textos da loja) e edição pelo admin
+// Ainda fora do swagger.yaml: com 404 valem os padrões do .env e o Admin não deixa salvar
+
+// Modelos das mensagens, com campos como {nome} e {preco} (ver utils/messageTemplate)
+export interface StoreMessages {
+  /** Interesse em um produto */
+  product: string;
+  /** Pedido da sacola */
+  bag: string;
+  /** Pedido especial */
+  custom_order: string;
+}
+
+export interface StoreFooter {
+  /** Linhas abaixo do nome da loja */
+  lines: string[];
+  /** Complemento de "Feito com ♥" */
+  dedication: string;
+}
+
+export interface StoreSettings {
+  store_name: string;
+  /** Só dígitos, com DDI e DDD (ex: 5511999999999) */
+  whatsapp_phone: string;
+  email: string;
+  /** Usuário do Instagram, sem @ */
+  instagram: string;
+  messages: StoreMessages;
+  /** Destaques exibidos na página do produto */
+  product_features: string[];
+  footer: StoreFooter;
+}
+
+export const settingsApi = {
+  /**
+   * Configurações da loja (campos ausentes usam os padrões do frontend)
+   */
+  get: async (useCache = true, options: RevalidateOptions<Partial<StoreSettings>> = {}): Promise<Partial<StoreSettings>> => {
+    return fetchApi<Partial<StoreSettings>>('/settings', { signal: options.signal }, {
+      useCache,
+      tags: () => [cacheTags.settings],
+      staleWhileRevalidate: true,
+      onRevalidate: options.onRevalidate,
+    });
+  },
+
+  /**
+   * Salva as configurações da loja (Admin)
+   */
+  update: async (settings: StoreSettings, options: RequestOptions = {}): Promise<StoreSettings> => {
+    return fetchApi<StoreSettings>('/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+      signal: options.signal,
+    }, {
+      invalidate: () => cacheService.invalidateTags([cacheTags.settings]),
+    });
   },
 };
@@ -0,0 +1,99 @@
+// Sincronização de sessão entre abas (login, logout e renovação de token)
+import type { User } from './api';
+
+export type AuthSyncEvent =
+  | { type: 'login'; user: User }
+  | { type: 'logout' }
+  | { type: 'token-refreshed'; accessToken: string };
+
+type AuthSyncListener = (event: AuthSyncEvent) => void;
+
+const CHANNEL_NAME = 'auth_sync';
+// Chave usada apenas como fallback quando BroadcastChannel não existe
+const STORAGE_EVENT_KEY = 'auth_sync_event';
+// Nome do Web Lock que serializa o refresh entre abas
+const REFRESH_LOCK_NAME = 'auth_refresh_lock';
+
+const listeners = new Set<AuthSyncListener>();
+let channel: BroadcastChannel | null = null;
+let isListening = false;
+
+const isAuthSyncEvent = (value: unknown): value is AuthSyncEvent => {
+  if (!value || typeof value !== 'object') return false;
+  const type = (value as { type?: unknown }).type;
+  return type === 'login' || type === 'logout' || type === 'token-refreshed';
+};
+
+const dispatch = (event: unknown): void => {
+  if (!isAuthSyncEvent(event)) return;
+  listeners.forEach(listener => listener(event));
+};
+
+const handleStorage = (e: StorageEvent): void => {
+  if (e.key !== STORAGE_EVENT_KEY || !e.newValue) return;
+  try {
+    dispatch(JSON.parse(e.newValue).event);
+  } catch {
+    // Ignora payload inválido
+  }
+};
+
+/**
+ * Abre o canal de comunicação na primeira inscrição
+ */
+const ensureListening = (): void => {
+  if (isListening || typeof window === 'undefined') return;
+  isListening = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent) => dispatch(e.data);
+  } else {
+    window.addEventListener('storage', handleStorage);
+  }
+};
+
+/**
+ * Envia um evento de sessão para as OUTRAS abas
+ * (BroadcastChannel e o evento storage não são entregues à aba emissora)
+ */
+export const broadcastAuthEvent = (event: AuthSyncEvent): void => {
+  try {
+    if (typeof BroadcastChannel !== 'undefined') {
+      // Canal dedicado para envio: o de escuta pode ainda não ter sido aberto
+      const sender = channel ?? new BroadcastChannel(CHANNEL_NAME);
+      sender.postMessage(event);
+      if (sender !== channel) sender.close();
+      return;
+    }
+
+    // Nonce garante que eventos repetidos (ex: dois logouts) disparem o storage event
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ event, nonce: Date.now() + Math.random() }));
+    localStorage.removeItem(STORAGE_EVENT_KEY);
+  } catch (error) {
+    console.error('[AuthSync] Erro ao propagar evento:', error);
+  }
+};
+
+/**
+ * Inscreve um listener para eventos de sessão vindos de outras abas
+ * @returns Função para cancelar a inscrição
+ */
+export const subscribeAuthEvents = (listener: AuthSyncListener): (() => void) => {
+  ensureListening();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Executa `task` com exclusão mútua entre abas (Web Locks API)
+ * Navegadores sem suporte executam direto; a deduplicação dentro da aba continua valendo
+ */
+export const withRefreshLock = async <T>(task: () => Promise<T>): Promise<T> => {
+  if (typeof navigator !== 'undefined' && navigator.locks?.request) {
+    return navigator.locks.request(REFRESH_LOCK_NAME, task);
+  }
+  return task();
+};
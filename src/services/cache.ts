@@ -1,10 +1,40 @@
 // Sistema de Cache Inteligente com TTL e Invalidação
+import { estimateSize, type PersistentCacheBackend } from './cacheStorage';
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number; // Time to live em milissegundos
+  tags: string[]; // Tags atribuídas na escrita, usadas na invalidação precisa
 }
 
+// Tags de cache - mutações invalidam apenas as entradas que contêm o que mudou
+export const cacheTags = {
+  product: (id: string) => `product:${id}`,          // Detalhe e qualquer lista/destaque que contenha o produto
+  list: 'products:list',                              // Todas as páginas de listagem
+  listAll: 'products:list:all',                       // Listagens sem filtro
+  listCategory: (category: string) => `products:list:category:${category}`,
+  listSubcategory: (subcategory: string) => `products:list:subcategory:${subcategory}`,
+  featured: 'products:featured',
+  categories: 'products:categories',
+  favorites: 'favorites',                             // Tudo do usuário (limpar favoritos)
+  favoritesList: 'favorites:list',
+  favoritesCount: 'favorites:count',
+  favoriteCheck: (productId: string) => `favorites:product:${productId}`,
+  users: 'users',
+  customOrders: 'custom-orders',
+  settings: 'settings',
+};
+
+// Critério de invalidação aplicado também às entradas carregadas durante a hidratação
+type InvalidationMatcher = (key: string, tags: string[]) => boolean;
+
+/**
+ * Notificação de invalidação para quem exibe os dados (ex: useQuery)
+ * tags: tags invalidadas + tags das entradas removidas; null quando todo o cache foi limpo
+ */
+export type CacheInvalidationListener = (tags: string[] | null) => void;
+
 interface CacheConfig {
   products: number;
   productList: number;
@@ -27,9 +57,16 @@ const DEFAULT_TTL: CacheConfig = {
   usersList: 10,        // 10 minutos para lista de usuários (admin only)
 };
 
+// Tempo máximo que uma entrada expirada ainda pode ser servida como "stale" (stale-while-revalidate)
+const MAX_STALE_AGE = 24 * 60 * 60 * 1000;
+
 class CacheService {
   private cache: Map<string, CacheEntry<any>>;
   private ttlConfig: CacheConfig;
+  private backend: PersistentCacheBackend | null = null;
+  // Invalidações ocorridas enquanto a hidratação estava em andamento
+  private hydrationInvalidations: InvalidationMatcher[] | null = null;
+  private listeners = new Set<CacheInvalidationListener>();
 
   constructor(ttlConfig: Partial<CacheConfig> = {}) {
     this.cache = new Map();
@@ -78,6 +115,43 @@ class CacheService {
     return 5 * 60 * 1000; // 5 minutos padrão
   }
 
+  /**
+   * Apenas o catálogo público é persistido
+   * Favoritos e usuários dependem da sessão e ficam só em memória
+   */
+  private shouldPersist(key: string): boolean {
+    return key.includes('/products');
+  }
+
+  /**
+   * Ativa o armazenamento persistente e carrega as entradas salvas para a memória
+   * Entradas já presentes em memória ou invalidadas durante o carregamento são ignoradas
+   */
+  async enablePersistence(backend: PersistentCacheBackend): Promise<void> {
+    this.backend = backend;
+    this.hydrationInvalidations = [];
+
+    try {
+      const entries = await backend.load(MAX_STALE_AGE);
+      const invalidated = this.hydrationInvalidations;
+
+      entries.forEach(entry => {
+        if (this.cache.has(entry.key)) return;
+        if (invalidated.some(matches => matches(entry.key, entry.tags))) return;
+        this.cache.set(entry.key, {
+          data: entry.data,
+          timestamp: entry.timestamp,
+          ttl: entry.ttl,
+          tags: entry.tags,
+        });
+      });
+
+      console.log(`[Cache HYDRATE] ${entries.length} entradas restauradas`);
+    } finally {
+      this.hydrationInvalidations = null;
+    }
+  }
+
   /**
    * Obtém item do cache se válido
    */
@@ -89,32 +163,62 @@ class CacheService {
       return null;
     }
 
-    const now = Date.now();
-    const isExpired = now - entry.timestamp > entry.ttl;
+    const age = Date.now() - entry.timestamp;
+    const isExpired = age > entry.ttl;
 
     if (isExpired) {
-      this.cache.delete(key);
+      // Mantida por um tempo para getStale (stale-while-revalidate)
+      if (age > entry.ttl + MAX_STALE_AGE) {
+        this.cache.delete(key);
+      }
       return null;
     }
 
+    if (this.backend && this.shouldPersist(key)) {
+      this.backend.touch(key);
+    }
+
     console.log(`[Cache HIT] ${key}`);
     return entry.data;
   }
 
+  /**
+   * Obtém item expirado ainda dentro da janela de stale
+   * Usado pelo stale-while-revalidate: o valor é exibido enquanto a versão nova é buscada
+   */
+  getStale<T>(endpoint: string): T | null {
+    const key = this.generateKey(endpoint);
+    const entry = this.cache.get(key);
+
+    if (!entry || Date.now() - entry.timestamp > entry.ttl + MAX_STALE_AGE) {
+      return null;
+    }
+
+    console.log(`[Cache STALE] ${key}`);
+    return entry.data;
+  }
+
   /**
    * Armazena item no cache
+   * @param tags - Tags da entrada (ver cacheTags)
    */
-  set<T>(endpoint: string, data: T, params?: Record<string, any>): void {
+  set<T>(endpoint: string, data: T, params?: Record<string, any>, tags: string[] = []): void {
     const key = this.generateKey(endpoint, params);
     const ttl = this.getTTL(key);
+    const timestamp = Date.now();
     
     this.cache.set(key, {
       data,
-      timestamp: Date.now(),
+      timestamp,
       ttl,
+      tags,
     });
 
-    console.log(`[Cache SET] ${key} (TTL: ${ttl / 1000}s)`);
+    if (this.backend && this.shouldPersist(key)) {
+      this.backend.put({ key, data, timestamp, ttl, tags, size: estimateSize(data), lastAccess: timestamp });
+    }
+
+    console.log(`[Cache SET] ${key} (TTL: ${ttl / 1000}s, tags: ${tags.length})`);
   }
 
   /**
@@ -129,10 +233,59 @@ class CacheService {
       }
     });
 
-    keysToDelete.forEach(key => {
+    const removedTags = this.deleteKeys(keysToDelete);
+
+    this.hydrationInvalidations?.push(key => key.includes(pattern));
+    this.backend?.invalidate(pattern);
+    this.notify(removedTags);
+  }
+
+  /**
+   * Invalida as entradas que possuem qualquer uma das tags
+   */
+  invalidateTags(tags: string[]): void {
+    if (tags.length === 0) return;
+    const tagSet = new Set(tags);
+    const matches: InvalidationMatcher = (_, entryTags) => entryTags.some(tag => tagSet.has(tag));
+
+    const keysToDelete: string[] = [];
+    this.cache.forEach((entry, key) => {
+      if (matches(key, entry.tags)) {
+        keysToDelete.push(key);
+      }
+    });
+
+    const removedTags = this.deleteKeys(keysToDelete);
+
+    this.hydrationInvalidations?.push(matches);
+    this.backend?.invalidateTags(tags);
+    this.notify([...tags, ...removedTags]);
+  }
+
+  /**
+   * Remove as chaves e retorna as tags das entradas removidas
+   */
+  private deleteKeys(keys: string[]): string[] {
+    const removedTags = new Set<string>();
+    keys.forEach(key => {
+      this.cache.get(key)?.tags.forEach(tag => removedTags.add(tag));
       this.cache.delete(key);
       console.log(`[Cache INVALIDATE] ${key}`);
     });
+    return Array.from(removedTags);
+  }
+
+  /**
+   * Dados em cache que possuem a tag (ex: listas que contêm um produto)
+   */
+  getTaggedData(tag: string): unknown[] {
+    const result: unknown[] = [];
+    this.cache.forEach(entry => {
+      if (entry.tags.includes(tag)) {
+        result.push(entry.data);
+      }
+    });
+    return result;
   }
 
   /**
@@ -160,9 +313,8 @@ class CacheService {
    * Invalida produto específico
    */
   invalidateProduct(productId: string): void {
-    this.invalidate(`/products/${productId}`);
-    // Também invalida listas que podem conter este produto
-    this.invalidateProducts();
+    // Detalhe e listas/destaques que contêm este produto
+    this.invalidateTags([cacheTags.product(productId)]);
   }
 
   /**
@@ -170,7 +322,26 @@ class CacheService {
    */
   clear(): void {
     this.cache.clear();
+    this.hydrationInvalidations?.push(() => true);
+    this.backend?.clear();
     console.log('[Cache CLEAR] Todo cache removido');
+    this.notify(null);
+  }
+
+  /**
+   * Inscreve um listener de invalidações
+   * @returns Função para cancelar a inscrição
+   */
+  subscribe(listener: CacheInvalidationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(tags: string[] | null): void {
+    if (tags !== null && tags.length === 0) return;
+    this.listeners.forEach(listener => listener(tags));
   }
 
   /**
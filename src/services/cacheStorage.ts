@@ -0,0 +1,300 @@
+// Armazenamento persistente do cache - IndexedDB com versão de schema, orçamento de tamanho e LRU
+// O CacheService continua síncrono (Map em memória); este backend apenas espelha as entradas em disco
+
+export interface PersistedCacheEntry {
+  key: string;
+  data: unknown;
+  timestamp: number;
+  ttl: number;
+  tags: string[];
+  size: number;       // Tamanho aproximado em bytes (JSON)
+  lastAccess: number; // Usado para remoção LRU
+}
+
+/**
+ * Contrato de um backend persistente do CacheService
+ */
+export interface PersistentCacheBackend {
+  /**
+   * Carrega as entradas utilizáveis (remove as expiradas há mais de maxStaleAge)
+   * Entradas expiradas recentemente ainda servem ao stale-while-revalidate
+   */
+  load(maxStaleAge?: number): Promise<PersistedCacheEntry[]>;
+  put(entry: PersistedCacheEntry): void;
+  /** Registra o acesso para o LRU */
+  touch(key: string): void;
+  /** Remove as chaves que contêm o padrão */
+  invalidate(pattern: string): void;
+  /** Remove as entradas que possuem qualquer uma das tags */
+  invalidateTags(tags: string[]): void;
+  clear(): void;
+}
+
+interface IndexedDBCacheConfig {
+  dbName: string;
+  dataVersion: string; // Versão dos dados: ao mudar (ex: novo deploy), as entradas antigas são descartadas
+  maxBytes: number;    // Orçamento total de armazenamento
+  flushDelay: number;  // Agrupamento das escritas (ms)
+}
+
+// Versão da estrutura do banco (object stores/índices)
+const SCHEMA_VERSION = 2; // v2: entradas com tags
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const LAST_ACCESS_INDEX = 'lastAccess';
+const DATA_VERSION_KEY = 'dataVersion';
+
+const DEFAULT_CONFIG: IndexedDBCacheConfig = {
+  dbName: 'melcolorindo_cache',
+  dataVersion: import.meta.env.VITE_CACHE_VERSION || '1',
+  maxBytes: 5 * 1024 * 1024, // 5 MB
+  flushDelay: 500,
+};
+
+// Promisifica uma IDBRequest
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Estima o tamanho de um valor serializado em bytes
+ */
+export function estimateSize(data: unknown): number {
+  try {
+    return new Blob([JSON.stringify(data)]).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Backend IndexedDB
+ * Falhas (modo privado, cota, navegador sem suporte) apenas desativam a persistência
+ */
+export class IndexedDBCacheBackend implements PersistentCacheBackend {
+  private config: IndexedDBCacheConfig;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private pendingPuts = new Map<string, PersistedCacheEntry>();
+  private pendingTouches = new Set<string>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: Partial<IndexedDBCacheConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Verifica se o navegador suporta IndexedDB
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Abre o banco, recriando os stores quando o schema muda
+   * e descartando as entradas quando a versão dos dados muda
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = (async () => {
+        if (!IndexedDBCacheBackend.isSupported()) return null;
+
+        const request = indexedDB.open(this.config.dbName, SCHEMA_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          // Schema novo: recriar do zero (cache pode ser descartado sem perda)
+          Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+          const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+          entries.createIndex(LAST_ACCESS_INDEX, LAST_ACCESS_INDEX);
+          db.createObjectStore(META_STORE);
+        };
+
+        const db = await requestToPromise(request);
+
+        const tx = db.transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+        const meta = tx.objectStore(META_STORE);
+        const storedVersion = await requestToPromise(meta.get(DATA_VERSION_KEY));
+        if (storedVersion !== this.config.dataVersion) {
+          console.log(`[Cache DB] Versão ${storedVersion ?? '-'} → ${this.config.dataVersion}: limpando entradas`);
+          tx.objectStore(ENTRIES_STORE).clear();
+          meta.put(this.config.dataVersion, DATA_VERSION_KEY);
+        }
+        await transactionDone(tx);
+
+        return db;
+      })().catch(error => {
+        console.warn('[Cache DB] Persistência desativada:', error);
+        return null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async load(maxStaleAge = 0): Promise<PersistedCacheEntry[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    try {
+      const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+      const store = tx.objectStore(ENTRIES_STORE);
+      const entries = await requestToPromise(store.getAll()) as PersistedCacheEntry[];
+      const now = Date.now();
+
+      const valid = entries.filter(entry => {
+        const isExpired = now - entry.timestamp > entry.ttl + maxStaleAge;
+        if (isExpired) store.delete(entry.key);
+        return !isExpired;
+      });
+      await transactionDone(tx);
+
+      console.log(`[Cache DB] ${valid.length} entradas carregadas`);
+      return valid;
+    } catch (error) {
+      console.warn('[Cache DB] Erro ao carregar entradas:', error);
+      return [];
+    }
+  }
+
+  put(entry: PersistedCacheEntry): void {
+    // Entradas maiores que o orçamento inteiro nunca são persistidas
+    if (entry.size > this.config.maxBytes) return;
+    this.pendingPuts.set(entry.key, entry);
+    this.scheduleFlush();
+  }
+
+  touch(key: string): void {
+    this.pendingTouches.add(key);
+    this.scheduleFlush();
+  }
+
+  invalidate(pattern: string): void {
+    // Escritas pendentes da mesma chave não devem ressuscitar a entrada
+    Array.from(this.pendingPuts.keys())
+      .filter(key => key.includes(pattern))
+      .forEach(key => this.pendingPuts.delete(key));
+
+    this.withStore('readwrite', store => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (String(cursor.key).includes(pattern)) cursor.delete();
+        cursor.continue();
+      };
+    });
+  }
+
+  invalidateTags(tags: string[]): void {
+    const tagSet = new Set(tags);
+    const matches = (entry: PersistedCacheEntry) => (entry.tags ?? []).some(tag => tagSet.has(tag));
+
+    Array.from(this.pendingPuts.values())
+      .filter(matches)
+      .forEach(entry => this.pendingPuts.delete(entry.key));
+
+    this.withStore('readwrite', store => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (matches(cursor.value as PersistedCacheEntry)) cursor.delete();
+        cursor.continue();
+      };
+    });
+  }
+
+  clear(): void {
+    this.pendingPuts.clear();
+    this.pendingTouches.clear();
+    this.withStore('readwrite', store => store.clear());
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.config.flushDelay);
+  }
+
+  /**
+   * Grava as escritas/acessos agrupados e aplica o orçamento de tamanho
+   */
+  private async flush(): Promise<void> {
+    const puts = Array.from(this.pendingPuts.values());
+    const touches = Array.from(this.pendingTouches);
+    this.pendingPuts.clear();
+    this.pendingTouches.clear();
+
+    await this.withStore('readwrite', store => {
+      const now = Date.now();
+      puts.forEach(entry => store.put(entry));
+      touches.forEach(key => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          const entry = request.result as PersistedCacheEntry | undefined;
+          if (entry) store.put({ ...entry, lastAccess: now });
+        };
+      });
+    });
+
+    if (puts.length > 0) {
+      await this.evict();
+    }
+  }
+
+  /**
+   * Remove as entradas menos usadas recentemente até caber no orçamento
+   */
+  private async evict(): Promise<void> {
+    await this.withStore('readwrite', store => {
+      const sizes: Array<{ key: IDBValidKey; size: number }> = [];
+      let total = 0;
+
+      // Percorre do acesso mais antigo para o mais recente
+      const request = store.index(LAST_ACCESS_INDEX).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const entry = cursor.value as PersistedCacheEntry;
+          sizes.push({ key: cursor.primaryKey, size: entry.size });
+          total += entry.size;
+          cursor.continue();
+          return;
+        }
+
+        let index = 0;
+        while (total > this.config.maxBytes && index < sizes.length) {
+          store.delete(sizes[index].key);
+          total -= sizes[index].size;
+          console.log(`[Cache DB] LRU removeu ${String(sizes[index].key)}`);
+          index++;
+        }
+      };
+    });
+  }
+
+  private async withStore(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(ENTRIES_STORE, mode);
+      run(tx.objectStore(ENTRIES_STORE));
+      await transactionDone(tx);
+    } catch (error) {
+      // Ex: QuotaExceededError - o cache em memória continua funcionando
+      console.warn('[Cache DB] Erro na transação:', error);
+    }
+  }
+}
+
+export default IndexedDBCacheBackend;
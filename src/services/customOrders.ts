@@ -0,0 +1,240 @@
+// Pedido especial: validação e limpeza do formulário, envio pela API e,
+// quando a API não recebe o pedido, a mensagem pronta para WhatsApp ou email
+
+import { ApiError, customOrdersApi, isAbortError, type CustomOrder, type CustomOrderStatus } from './api';
+import type { UploadRequestOptions } from './upload';
+import { sanitizeEmail, stripHtml, truncateString } from '../utils/sanitize';
+import { getWhatsAppLink } from '../utils/whatsapp';
+import { buildMessageUrl, renderTemplate } from '../utils/messageTemplate';
+import { getStoreSettings } from './storeSettings';
+
+export const CUSTOM_ORDER_LIMITS = {
+  maxImages: 3,
+  maxImageBytes: 5 * 1024 * 1024,
+  maxQuantity: 500,
+  maxText: 120,
+  maxDescription: 1000,
+  /** Antecedência mínima do prazo, em dias */
+  minLeadDays: 7,
+};
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const CUSTOM_ORDER_STATUS_LABELS: Record<CustomOrderStatus, string> = {
+  'new': 'Novo',
+  'reviewing': 'Em análise',
+  'quoted': 'Orçamento enviado',
+  'in-production': 'Em produção',
+  'done': 'Concluído',
+  'cancelled': 'Cancelado',
+};
+
+export type PreferredContact = 'whatsapp' | 'email';
+
+export interface CustomOrderDraft {
+  productType: string;
+  colors: string;
+  theme: string;
+  quantity: string;
+  /** YYYY-MM-DD (input date); vazio = sem prazo */
+  deadline: string;
+  description: string;
+  name: string;
+  email: string;
+  phone: string;
+  preferredContact: PreferredContact;
+  images: File[];
+}
+
+export type CustomOrderErrors = Partial<Record<keyof CustomOrderDraft, string>>;
+
+export const EMPTY_CUSTOM_ORDER: CustomOrderDraft = {
+  productType: '',
+  colors: '',
+  theme: '',
+  quantity: '1',
+  deadline: '',
+  description: '',
+  name: '',
+  email: '',
+  phone: '',
+  preferredContact: 'whatsapp',
+  images: [],
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Primeira data aceita no campo de prazo */
+export function getMinDeadline(today = new Date()): string {
+  const date = new Date(today);
+  date.setDate(date.getDate() + CUSTOM_ORDER_LIMITS.minLeadDays);
+  return toDateInput(date);
+}
+
+/** 2025-03-10 -> 10/03/2025 */
+export const formatDeadline = (value: string) => value.split('-').reverse().join('/');
+
+const phoneDigits = (value: string) => value.replace(/\D/g, '');
+
+/**
+ * Erro da imagem de referência, ou null quando aceita
+ */
+export function validateReferenceImage(file: File): string | null {
+  if (!IMAGE_TYPES.includes(file.type)) return 'Use imagens JPG, PNG ou WEBP';
+  if (file.size > CUSTOM_ORDER_LIMITS.maxImageBytes) return 'Cada imagem pode ter no máximo 5 MB';
+  return null;
+}
+
+/**
+ * Valida o formulário inteiro
+ * @returns Erros por campo (vazio = pode enviar)
+ */
+export function validateCustomOrder(draft: CustomOrderDraft, today = new Date()): CustomOrderErrors {
+  const errors: CustomOrderErrors = {};
+
+  if (!draft.productType.trim()) errors.productType = 'Escolha o tipo de produto';
+  if (!draft.colors.trim()) errors.colors = 'Conte quais cores você imagina';
+
+  const quantity = Number(draft.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    errors.quantity = 'Informe uma quantidade válida';
+  } else if (quantity > CUSTOM_ORDER_LIMITS.maxQuantity) {
+    errors.quantity = `Para mais de ${CUSTOM_ORDER_LIMITS.maxQuantity} peças, fale direto com a gente`;
+  }
+
+  if (draft.deadline && draft.deadline < getMinDeadline(today)) {
+    errors.deadline = `O prazo mínimo é de ${CUSTOM_ORDER_LIMITS.minLeadDays} dias`;
+  }
+
+  if (draft.description.length > CUSTOM_ORDER_LIMITS.maxDescription) {
+    errors.description = `Use no máximo ${CUSTOM_ORDER_LIMITS.maxDescription} caracteres`;
+  }
+
+  if (stripHtml(draft.name).length < 2) errors.name = 'Informe seu nome';
+  if (!sanitizeEmail(draft.email)) errors.email = 'Informe um email válido';
+
+  const phone = phoneDigits(draft.phone);
+  if (phone && (phone.length < 10 || phone.length > 13)) {
+    errors.phone = 'Informe o telefone com DDD';
+  } else if (!phone && draft.preferredContact === 'whatsapp') {
+    errors.phone = 'Informe o WhatsApp para contato';
+  }
+
+  if (draft.images.length > CUSTOM_ORDER_LIMITS.maxImages) {
+    errors.images = `Envie no máximo ${CUSTOM_ORDER_LIMITS.maxImages} imagens`;
+  } else {
+    const imageError = draft.images.map(validateReferenceImage).find(Boolean);
+    if (imageError) errors.images = imageError;
+  }
+
+  return errors;
+}
+
+export type SanitizedCustomOrder = Omit<CustomOrder, 'id' | 'reference_images' | 'status' | 'created_at' | 'updated_at'>;
+
+/**
+ * Texto puro e com tamanho limitado em todos os campos (o backend valida de novo)
+ */
+function sanitizeCustomOrder(draft: CustomOrderDraft): SanitizedCustomOrder {
+  const text = (value: string, max = CUSTOM_ORDER_LIMITS.maxText) => truncateString(stripHtml(value), max);
+  return {
+    product_type: text(draft.productType),
+    colors: text(draft.colors),
+    theme: text(draft.theme) || undefined,
+    quantity: Math.min(Math.max(Math.floor(Number(draft.quantity)) || 1, 1), CUSTOM_ORDER_LIMITS.maxQuantity),
+    deadline: /^\d{4}-\d{2}-\d{2}$/.test(draft.deadline) ? draft.deadline : undefined,
+    description: text(draft.description, CUSTOM_ORDER_LIMITS.maxDescription) || undefined,
+    name: text(draft.name),
+    email: sanitizeEmail(draft.email),
+    phone: phoneDigits(draft.phone) || undefined,
+    preferred_contact: draft.preferredContact,
+  };
+}
+
+function buildFormData(order: SanitizedCustomOrder, images: File[]): FormData {
+  const formData = new FormData();
+  Object.entries(order).forEach(([key, value]) => {
+    if (value !== undefined) formData.append(key, String(value));
+  });
+  images.forEach(image => formData.append('reference_images', image));
+  return formData;
+}
+
+/**
+ * Mensagem com todos os dados do pedido (para WhatsApp ou email)
+ * @param template - Modelo a usar (padrão: o configurado; o Admin passa o rascunho para a prévia)
+ */
+export function buildCustomOrderMessage(
+  order: SanitizedCustomOrder,
+  imageCount: number,
+  template = getStoreSettings().messages.custom_order
+): string {
+  return renderTemplate(template, {
+    nome: order.name,
+    categoria: order.product_type,
+    quantidade: order.quantity,
+    cores: order.colors,
+    tema: order.theme,
+    prazo: order.deadline ? formatDeadline(order.deadline) : '',
+    detalhes: order.description,
+    imagens: imageCount > 0
+      ? `Tenho ${imageCount} ${imageCount === 1 ? 'imagem' : 'imagens'} de referência para enviar na conversa.`
+      : '',
+    contato: [order.email, order.phone].filter(Boolean).join(' - '),
+  });
+}
+
+export interface CustomOrderHandoff {
+  whatsappUrl: string;
+  mailtoUrl: string;
+  imageCount: number;
+}
+
+export type CustomOrderSubmission =
+  | { channel: 'api'; order: CustomOrder }
+  | { channel: 'handoff'; handoff: CustomOrderHandoff };
+
+// A API não recebeu o pedido (rota indisponível, fora do ar): seguir pelo WhatsApp/email
+const HANDOFF_ERROR_KINDS = ['not-found', 'network', 'timeout', 'server'];
+
+// /custom-orders ainda não existe no backend (fora do swagger): depois do primeiro 404, nem tentar
+let apiRouteMissing = false;
+
+// Links de WhatsApp e email já preenchidos com o pedido
+const buildHandoff = (order: SanitizedCustomOrder, imageCount: number): CustomOrderSubmission => {
+  const message = buildCustomOrderMessage(order, imageCount);
+  const subject = `Pedido especial - ${order.product_type}`;
+  return {
+    channel: 'handoff',
+    handoff: {
+      whatsappUrl: getWhatsAppLink(message),
+      mailtoUrl: buildMessageUrl(`mailto:${getStoreSettings().email}?subject=${encodeURIComponent(subject)}`, 'body', message),
+      imageCount,
+    },
+  };
+};
+
+/**
+ * Envia o pedido pela API; se ela não puder recebê-lo, devolve os links de WhatsApp e email já preenchidos
+ * Erros de validação do backend continuam sendo lançados (o formulário mostra nos campos)
+ */
+export async function submitCustomOrder(
+  draft: CustomOrderDraft,
+  upload: UploadRequestOptions = {}
+): Promise<CustomOrderSubmission> {
+  const order = sanitizeCustomOrder(draft);
+  if (apiRouteMissing) return buildHandoff(order, draft.images.length);
+
+  try {
+    const created = await customOrdersApi.create(buildFormData(order, draft.images), upload);
+    return { channel: 'api', order: created };
+  } catch (error) {
+    if (isAbortError(error) || !(error instanceof ApiError) || !HANDOFF_ERROR_KINDS.includes(error.kind)) {
+      throw error;
+    }
+    if (error.kind === 'not-found') apiRouteMissing = true;
+    console.warn('[CustomOrder] API indisponível, seguindo pelo WhatsApp/email:', error);
+    return buildHandoff(order, draft.images.length);
+  }
+}
@@ -0,0 +1,199 @@
+// Catálogo de erros da API - Classificação e mensagens para o usuário
+
+export type ApiErrorKind =
+  | 'network'          // Sem conexão / servidor inacessível
+  | 'timeout'          // Requisição excedeu o tempo limite
+  | 'rate-limited'     // 429 Too Many Requests
+  | 'validation'       // 400 / 422 - dados inválidos
+  | 'unauthorized'     // 401 sem sessão (ex: credenciais inválidas no login)
+  | 'auth-expired'     // Sessão expirada e refresh falhou
+  | 'forbidden'        // 403 - permissão insuficiente
+  | 'not-found'        // 404
+  | 'conflict'         // 409 - recurso já existe
+  | 'featured-limit'   // FEATURED_LIMIT_REACHED
+  | 'server'           // 5xx
+  | 'unknown';         // Qualquer outro erro (inclusive não-API)
+
+// Detalhe de validação por campo
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Códigos de erro conhecidos (enviados pelo backend ou gerados no cliente)
+export const ERROR_CODES = {
+  FEATURED_LIMIT_REACHED: 'FEATURED_LIMIT_REACHED',
+  SESSION_EXPIRED: 'SESSION_EXPIRED',
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+} as const;
+
+// Mensagens padrão exibidas ao usuário para cada tipo de erro
+export const ERROR_MESSAGES: Record<ApiErrorKind, string> = {
+  'network': 'Erro de conexão. Verifique sua internet.',
+  'timeout': 'O servidor demorou para responder. Tente novamente.',
+  'rate-limited': 'Muitas tentativas em pouco tempo. Aguarde um momento e tente novamente.',
+  'validation': 'Dados inválidos. Revise os campos e tente novamente.',
+  'unauthorized': 'Você precisa estar logado para continuar.',
+  'auth-expired': 'Sessão expirada. Faça login novamente.',
+  'forbidden': 'Você não tem permissão para realizar esta ação.',
+  'not-found': 'O item solicitado não foi encontrado.',
+  'conflict': 'Este registro já existe.',
+  'featured-limit': 'Limite de destaques atingido! (Max 6)',
+  'server': 'Erro no servidor. Tente novamente em instantes.',
+  'unknown': 'Ocorreu um erro inesperado.',
+};
+
+interface ApiErrorOptions {
+  kind?: ApiErrorKind;
+  details?: FieldError[];
+  retryAfter?: number;
+}
+
+/**
+ * Determina o tipo de erro a partir do status HTTP e do código
+ */
+export function resolveErrorKind(status: number, code?: string): ApiErrorKind {
+  if (code === ERROR_CODES.FEATURED_LIMIT_REACHED) return 'featured-limit';
+  if (code === ERROR_CODES.SESSION_EXPIRED) return 'auth-expired';
+  if (code === ERROR_CODES.TIMEOUT) return 'timeout';
+  if (code === ERROR_CODES.NETWORK_ERROR || status === 0) return 'network';
+
+  switch (status) {
+    case 400:
+    case 422:
+      return 'validation';
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not-found';
+    case 409:
+      return 'conflict';
+    case 429:
+      return 'rate-limited';
+  }
+
+  if (status >= 500) return 'server';
+  return 'unknown';
+}
+
+// Classe de erro customizada para tratar respostas da API
+export class ApiError extends Error {
+  status: number;
+  code?: string; // NOVO: código de erro (ex: FEATURED_LIMIT_REACHED)
+  kind: ApiErrorKind;
+  details: FieldError[];
+  retryAfter?: number; // Espera (ms) sugerida antes de tentar novamente (429)
+
+  constructor(message: string, status: number, code?: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.kind = options.kind ?? resolveErrorKind(status, code);
+    this.details = options.details ?? [];
+    this.retryAfter = options.retryAfter;
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Normaliza os detalhes de validação enviados pelo backend
+ * Aceita array ([{ field, message }]) ou mapa ({ campo: mensagem })
+ */
+function parseFieldErrors(raw: unknown): FieldError[] {
+  if (Array.isArray(raw)) {
+    return raw
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+      .map(item => ({
+        field: String(item.field ?? item.path ?? item.param ?? ''),
+        message: String(item.message ?? item.msg ?? ''),
+      }))
+      .filter(item => item.field && item.message);
+  }
+
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw as Record<string, unknown>)
+      .filter(([, message]) => typeof message === 'string')
+      .map(([field, message]) => ({ field, message: message as string }));
+  }
+
+  return [];
+}
+
+/**
+ * Cria um ApiError a partir de uma resposta HTTP de erro
+ */
+export async function parseErrorResponse(response: Response, retryAfter?: number): Promise<ApiError> {
+  const errorData = await response.json().catch(() => ({}));
+  return new ApiError(
+    errorData.message || errorData.error || `HTTP error! status: ${response.status}`,
+    response.status,
+    errorData.code, // Incluir código de erro se disponível
+    { details: parseFieldErrors(errorData.details ?? errorData.errors), retryAfter }
+  );
+}
+
+/**
+ * Converte falhas de rede/timeout do fetch em ApiError
+ */
+export function toNetworkError(error: unknown, isTimeout = false): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (isTimeout) {
+    return new ApiError(ERROR_MESSAGES.timeout, 0, ERROR_CODES.TIMEOUT);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new ApiError(message || ERROR_MESSAGES.network, 0, ERROR_CODES.NETWORK_ERROR);
+}
+
+interface ErrorMessageOptions {
+  // Mensagens específicas do contexto (ex: login trata 401 como credenciais inválidas)
+  overrides?: Partial<Record<ApiErrorKind, string>>;
+  // Mensagem para erros fora do catálogo
+  fallback?: string;
+}
+
+/**
+ * Obtém a mensagem a ser exibida ao usuário para qualquer erro
+ * Erros de validação preferem o detalhe enviado pelo backend, que é mais específico
+ */
+export function getErrorMessage(error: unknown, options: ErrorMessageOptions = {}): string {
+  const { overrides = {}, fallback } = options;
+
+  if (!(error instanceof ApiError)) {
+    return fallback ?? ERROR_MESSAGES.unknown;
+  }
+
+  const override = overrides[error.kind];
+  if (override) return override;
+
+  if (error.kind === 'validation') {
+    return error.details[0]?.message || error.message || ERROR_MESSAGES.validation;
+  }
+
+  if (error.kind === 'unknown') {
+    return fallback ?? ERROR_MESSAGES.unknown;
+  }
+
+  return ERROR_MESSAGES[error.kind];
+}
+
+/**
+ * Indexa os erros de validação por campo para exibição junto aos inputs
+ */
+export function getFieldErrors(error: unknown): Record<string, string> {
+  if (!(error instanceof ApiError)) return {};
+  return Object.fromEntries(error.details.map(d => [d.field, d.message]));
+}
+
+/**
+ * Falhas transitórias que valem uma nova tentativa (rede, timeout, 5xx)
+ * 429 é tratado no fetchApi, que já aguarda o reset do rate limit
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+  return error.kind === 'network' || error.kind === 'timeout' || error.kind === 'server';
+}
@@ -0,0 +1,120 @@
+// Histórico de navegação do app (salvo na sessão, sobrevive a recarregar a página)
+// - A pilha de entradas espelha o histórico real do navegador: "voltar" sabe para onde vai
+// - Cada entrada (location.key) guarda a posição de rolagem e o estado da página (ex: itens carregados)
+
+const STORAGE_KEY = 'navigation_history';
+const MAX_ENTRIES = 50;
+
+export type NavigationType = 'PUSH' | 'REPLACE' | 'POP';
+
+export interface HistoryEntry {
+  key: string;
+  pathname: string;
+  search: string;
+}
+
+export interface EntryState {
+  scrollY?: number;
+  /** Itens carregados na rolagem contínua, para recarregar o mesmo tanto antes de rolar */
+  itemCount?: number;
+}
+
+interface StoredHistory {
+  stack: HistoryEntry[];
+  index: number;
+  states: Record<string, EntryState>;
+}
+
+const isEntry = (value: unknown): value is HistoryEntry =>
+  !!value && typeof value === 'object'
+  && typeof (value as HistoryEntry).key === 'string'
+  && typeof (value as HistoryEntry).pathname === 'string';
+
+function load(): StoredHistory {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (stored && Array.isArray(stored.stack) && typeof stored.index === 'number') {
+      return {
+        stack: stored.stack.filter(isEntry),
+        index: stored.index,
+        states: stored.states && typeof stored.states === 'object' ? stored.states : {},
+      };
+    }
+  } catch {
+    // Sessão corrompida ou indisponível: começar do zero
+  }
+  return { stack: [], index: -1, states: {} };
+}
+
+// Mantido em memória; a sessão é atualizada a cada navegação e ao sair da página
+const history = load();
+
+function persist(): void {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('[Navigation] Erro ao salvar histórico de navegação:', error);
+  }
+}
+
+// Entradas fora da pilha (descartadas ao navegar depois de voltar) perdem o estado
+function pruneStates(): void {
+  const keys = new Set(history.stack.map(entry => entry.key));
+  Object.keys(history.states).forEach(key => {
+    if (!keys.has(key)) delete history.states[key];
+  });
+}
+
+/**
+ * Registra a navegação na pilha, conforme o tipo informado pelo router
+ * POP procura a entrada (voltar/avançar); se não estiver na pilha (ex: sessão nova), é empilhada
+ */
+export function recordNavigation(entry: HistoryEntry, type: NavigationType): void {
+  const existing = history.stack.findIndex(item => item.key === entry.key);
+
+  if (type === 'POP' && existing >= 0) {
+    history.index = existing;
+  } else if (type === 'REPLACE' && history.index >= 0) {
+    const replaced = history.stack[history.index];
+    history.stack[history.index] = entry;
+    // A substituição (ex: correção de página) é a mesma visita: herda o estado
+    if (replaced.key !== entry.key && history.states[replaced.key]) {
+      history.states[entry.key] = history.states[replaced.key];
+    }
+  } else if (existing < 0) {
+    history.stack = [...history.stack.slice(0, history.index + 1), entry].slice(-MAX_ENTRIES);
+    history.index = history.stack.length - 1;
+  } else {
+    history.index = existing;
+  }
+
+  pruneStates();
+  persist();
+}
+
+/**
+ * Entrada anterior à informada no histórico real (destino do "voltar"), ou null no início da sessão
+ * @param type - Como a entrada foi aberta; usado quando ela ainda não foi registrada
+ *               (a página renderiza antes do registro da navegação)
+ */
+export function getPreviousEntry(key: string, type: NavigationType): HistoryEntry | null {
+  const index = history.stack.findIndex(item => item.key === key);
+  if (index >= 0) return index > 0 ? history.stack[index - 1] : null;
+
+  const previousIndex = type === 'REPLACE' ? history.index - 1 : history.index;
+  return history.stack[previousIndex] ?? null;
+}
+
+export function getEntryState(key: string): EntryState | null {
+  return history.states[key] ?? null;
+}
+
+/**
+ * Atualiza o estado da entrada (só em memória; salvo na próxima navegação ou ao sair da página)
+ */
+export function updateEntryState(key: string, patch: EntryState): void {
+  history.states[key] = { ...history.states[key], ...patch };
+}
+
+/** Grava o estado em memória na sessão (ex: pagehide) */
+export const flushNavigationHistory = persist;
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { Product, ProductList } from './api';
+import { getMergedList, resetMergedList, type FetchSourcePage, type MergedListParams } from './productMerge';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const product = (id: string, subcategory: string, price: number, daysAgo: number): Product => ({
+  id,
+  name: `Produto ${id}`,
+  price,
+  category: 'Tiaras',
+  subcategory,
+  created_at: new Date(Date.UTC(2026, 0, 31) - daysAgo * DAY).toISOString(),
+} as Product);
+
+// Fontes paginadas em memória, na ordem da API (mais recentes primeiro), registrando cada requisição
+const createSources = (sources: Record<string, Product[]>, reportedTotals: Record<string, number> = {}) => {
+  const requests: string[] = [];
+  const fetchPage: FetchSourcePage = async (subcategory, page, maxResults) => {
+    requests.push(`${subcategory}:${page}`);
+    const items = sources[subcategory ?? ''] ?? [];
+    const list: ProductList = {
+      products: items.slice((page - 1) * maxResults, page * maxResults),
+      total: reportedTotals[subcategory ?? ''] ?? items.length,
+      page,
+      maxResults,
+    };
+    return list;
+  };
+  return { fetchPage, requests };
+};
+
+const ids = (list: ProductList) => list.products.map(p => p.id);
+
+// Cada teste usa a sua categoria: os cursores ficam guardados no módulo
+const params = (category: string, overrides: Partial<MergedListParams> = {}): MergedListParams => ({
+  category,
+  subcategories: ['laco', 'flor'],
+  page: 1,
+  maxResults: 3,
+  ...overrides,
+});
+
+describe('getMergedList', () => {
+  const laco = [product('l1', 'laco', 30, 1), product('l2', 'laco', 10, 4), product('l3', 'laco', 50, 6)];
+  const flor = [product('f1', 'flor', 20, 2), product('f2', 'flor', 40, 3), product('f3', 'flor', 5, 5)];
+
+  it('intercala as fontes na ordem da API e continua na página seguinte', async () => {
+    const { fetchPage } = createSources({ laco, flor });
+
+    const first = await getMergedList(params('ordem-api'), fetchPage);
+    const second = await getMergedList(params('ordem-api', { page: 2 }), fetchPage);
+
+    expect(ids(first)).toEqual(['l1', 'f1', 'f2']);
+    expect(ids(second)).toEqual(['l2', 'f3', 'l3']);
+    expect(first.total).toBe(6);
+    expect(second.total).toBe(6);
+  });
+
+  it('ordena por preço entre as fontes', async () => {
+    const { fetchPage } = createSources({ laco, flor });
+
+    const asc = await getMergedList(params('preco', { sort: 'price-asc', maxResults: 6 }), fetchPage);
+    const desc = await getMergedList(params('preco', { sort: 'price-desc', maxResults: 6 }), fetchPage);
+
+    expect(asc.products.map(p => p.price)).toEqual([5, 10, 20, 30, 40, 50]);
+    expect(desc.products.map(p => p.price)).toEqual([50, 40, 30, 20, 10, 5]);
+  });
+
+  it('reaproveita o cursor: a página seguinte não busca de novo o que já foi percorrido', async () => {
+    const many = Array.from({ length: 60 }, (_, i) => product(`m${i}`, 'laco', i, i));
+    const { fetchPage, requests } = createSources({ laco: many, flor });
+
+    await getMergedList(params('cursor'), fetchPage);
+    await getMergedList(params('cursor', { page: 2 }), fetchPage);
+    expect(requests).toEqual(['laco:1', 'flor:1']);
+
+    // Passando dos 50 itens da primeira página da fonte, só a página 2 dela é buscada
+    await getMergedList(params('cursor', { page: 20 }), fetchPage);
+    expect(requests).toEqual(['laco:1', 'flor:1', 'laco:2']);
+  });
+
+  it('atende chamadas simultâneas sem repetir nem pular itens', async () => {
+    const { fetchPage } = createSources({ laco, flor });
+
+    const [first, second] = await Promise.all([
+      getMergedList(params('concorrente'), fetchPage),
+      getMergedList(params('concorrente', { page: 2 }), fetchPage),
+    ]);
+
+    expect([...ids(first), ...ids(second)]).toEqual(['l1', 'f1', 'f2', 'l2', 'f3', 'l3']);
+  });
+
+  it('encerra a fonte numa página incompleta, mesmo que o total informado seja maior', async () => {
+    const { fetchPage } = createSources({ laco, flor }, { laco: 80 });
+
+    const page = await getMergedList(params('total-errado', { maxResults: 10 }), fetchPage);
+
+    expect(ids(page)).toEqual(['l1', 'f1', 'f2', 'l2', 'f3', 'l3']);
+    expect(page.total).toBe(6);
+  });
+
+  it('sem subcategorias usa uma única fonte', async () => {
+    const { fetchPage, requests } = createSources({ '': [...laco, ...flor] });
+
+    const page = await getMergedList(params('fonte-unica', { subcategories: [], maxResults: 2 }), fetchPage);
+
+    expect(ids(page)).toEqual(['l1', 'l2']);
+    expect(requests).toEqual(['undefined:1']);
+  });
+
+  it('começa um cursor novo depois de resetMergedList ou sem cache', async () => {
+    const { fetchPage, requests } = createSources({ laco, flor });
+
+    await getMergedList(params('reset'), fetchPage);
+    resetMergedList(params('reset'));
+    await getMergedList(params('reset'), fetchPage);
+    await getMergedList(params('reset'), fetchPage, false);
+
+    expect(requests).toEqual(['laco:1', 'flor:1', 'laco:1', 'flor:1', 'laco:1', 'flor:1']);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Listagens que a API não monta sozinha: várias subcategorias (OR) e ordenação por nome/preço
+ * - Cada subcategoria é uma fonte paginada, buscada sob demanda
+ * - As fontes são intercaladas por um merge k-way; o cursor fica guardado por filtro + ordem,
+ *   então a página seguinte continua de onde a anterior parou
+ * - O total é a soma dos totais das fontes (cada produto pertence a uma única subcategoria)
+ */
+import type { Product, ProductList, RevalidateOptions } from './api';
+import { cacheService, cacheTags } from './cache';
+
+export type ProductSortOrder = 'name-asc' | 'price-asc' | 'price-desc';
+
+export interface MergedListParams {
+  category?: string;
+  /** Subcategorias combinadas (OR); vazio = uma única fonte com a categoria/listagem inteira */
+  subcategories: string[];
+  /** Sem ordem: a ordem da API (mais recentes primeiro) */
+  sort?: ProductSortOrder;
+  page: number;
+  maxResults: number;
+}
+
+/** Busca uma página de uma fonte (subcategoria undefined = sem filtro de subcategoria) */
+export type FetchSourcePage = (
+  subcategory: string | undefined,
+  page: number,
+  maxResults: number,
+  options: MergeRequestOptions
+) => Promise<ProductList>;
+
+type MergeRequestOptions = RevalidateOptions<ProductList>;
+
+// Itens por requisição de cada fonte (a API aceita até 100)
+const SOURCE_PAGE_SIZE = 50;
+// Depois disso o cursor é refeito: as páginas voltam pelo cache (e são revalidadas se expiradas)
+const CURSOR_TTL = 5 * 60 * 1000;
+
+const byName = (a: Product, b: Product) => a.name.localeCompare(b.name, 'pt-BR');
+const byId = (a: Product, b: Product) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+const createdAt = (product: Product) => (product.created_at ? Date.parse(product.created_at) || 0 : 0);
+
+// Desempates por nome e id: a ordem precisa ser total para o merge ser estável entre páginas
+const COMPARATORS: Record<ProductSortOrder | 'server', (a: Product, b: Product) => number> = {
+  'server': (a, b) => createdAt(b) - createdAt(a) || byId(a, b),
+  'name-asc': (a, b) => byName(a, b) || byId(a, b),
+  'price-asc': (a, b) => (a.price || 0) - (b.price || 0) || byName(a, b) || byId(a, b),
+  'price-desc': (a, b) => (b.price || 0) - (a.price || 0) || byName(a, b) || byId(a, b),
+};
+
+/**
+ * Uma subcategoria paginada
+ * Na ordem da API as páginas são consumidas conforme o merge avança;
+ * com ordenação a fonte é carregada inteira e ordenada (a API não ordena por nome/preço)
+ */
+class MergeSource {
+  private items: Product[] = [];
+  private nextPage = 1;
+  private total: number | null = null;
+  private sorted = false;
+  private readonly subcategory: string | undefined;
+  private readonly fetchPage: FetchSourcePage;
+  private readonly compare: ((a: Product, b: Product) => number) | null;
+
+  constructor(
+    subcategory: string | undefined,
+    fetchPage: FetchSourcePage,
+    compare: ((a: Product, b: Product) => number) | null
+  ) {
+    this.subcategory = subcategory;
+    this.fetchPage = fetchPage;
+    this.compare = compare;
+  }
+
+  private get exhausted(): boolean {
+    return this.total !== null && this.items.length >= this.total;
+  }
+
+  private async loadNextPage(options: MergeRequestOptions): Promise<void> {
+    const list = await this.fetchPage(this.subcategory, this.nextPage, SOURCE_PAGE_SIZE, options);
+    this.items.push(...list.products);
+    this.nextPage++;
+    // Página incompleta: a fonte acabou, mesmo que o total informado diga outra coisa
+    this.total = list.products.length < SOURCE_PAGE_SIZE ? this.items.length : list.total;
+  }
+
+  /**
+   * Garante o item na posição informada (ou o fim da fonte)
+   * @returns O item, ou undefined quando a fonte acabou antes dele
+   */
+  async at(index: number, options: MergeRequestOptions): Promise<Product | undefined> {
+    if (this.compare) {
+      while (!this.exhausted) await this.loadNextPage(options);
+      if (!this.sorted) {
+        this.items.sort(this.compare);
+        this.sorted = true;
+      }
+    } else {
+      while (index >= this.items.length && !this.exhausted) await this.loadNextPage(options);
+    }
+    return this.items[index];
+  }
+
+  /** Total da fonte (busca a primeira página se ainda não conhecido) */
+  async loadTotal(options: MergeRequestOptions): Promise<number> {
+    if (this.total === null) await this.loadNextPage(options);
+    return this.total ?? 0;
+  }
+}
+
+/**
+ * Estado do merge k-way de um filtro + ordem: posição em cada fonte e os itens já intercalados
+ */
+class MergeCursor {
+  private readonly sources: MergeSource[];
+  private readonly compare: (a: Product, b: Product) => number;
+  private readonly merged: Product[] = [];
+  private readonly positions: number[];
+  private done = false;
+  // Chamadas concorrentes (ex: loader e página) avançam o cursor uma de cada vez
+  private queue: Promise<unknown> = Promise.resolve();
+  readonly createdAt = Date.now();
+
+  constructor(params: MergedListParams, fetchPage: FetchSourcePage) {
+    const subcategories = params.subcategories.length > 0 ? params.subcategories : [undefined];
+    const sortCompare = params.sort ? COMPARATORS[params.sort] : null;
+    this.compare = sortCompare ?? COMPARATORS.server;
+    this.sources = subcategories.map(sub => new MergeSource(sub, fetchPage, sortCompare));
+    this.positions = this.sources.map(() => 0);
+  }
+
+  private async advanceTo(count: number, options: MergeRequestOptions): Promise<void> {
+    while (!this.done && this.merged.length < count) {
+      const heads = await Promise.all(this.sources.map((source, i) => source.at(this.positions[i], options)));
+
+      let next = -1;
+      heads.forEach((head, i) => {
+        if (head && (next === -1 || this.compare(head, heads[next]!) < 0)) next = i;
+      });
+
+      if (next === -1) {
+        this.done = true;
+        return;
+      }
+      this.merged.push(heads[next]!);
+      this.positions[next]++;
+    }
+  }
+
+  getPage(page: number, maxResults: number, options: MergeRequestOptions): Promise<ProductList> {
+    const run = async (): Promise<ProductList> => {
+      const start = (page - 1) * maxResults;
+      await this.advanceTo(start + maxResults, options);
+      const totals = await Promise.all(this.sources.map(source => source.loadTotal(options)));
+      return {
+        products: this.merged.slice(start, start + maxResults),
+        total: totals.reduce((sum, total) => sum + total, 0),
+        page,
+        maxResults,
+      };
+    };
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
+
+const cursors = new Map<string, MergeCursor>();
+
+const cursorKey = ({ category, subcategories, sort }: MergedListParams) =>
+  JSON.stringify([category ?? null, [...subcategories].sort(), sort ?? null]);
+
+// Qualquer listagem invalidada (produto criado, editado, excluído) descarta os cursores
+cacheService.subscribe((tags) => {
+  if (tags === null || tags.includes(cacheTags.list)) cursors.clear();
+});
+
+/**
+ * Descarta o cursor do filtro (ex: uma das fontes foi revalidada com dados novos)
+ */
+export function resetMergedList(params: MergedListParams): void {
+  cursors.delete(cursorKey(params));
+}
+
+/**
+ * Página da listagem combinada, no formato de ProductList
+ * @param useCache - false começa um cursor novo (sem reaproveitar as fontes já percorridas)
+ */
+export function getMergedList(
+  params: MergedListParams,
+  fetchPage: FetchSourcePage,
+  useCache = true,
+  options: MergeRequestOptions = {}
+): Promise<ProductList> {
+  const key = cursorKey(params);
+  let cursor = useCache ? cursors.get(key) : undefined;
+  if (!cursor || Date.now() - cursor.createdAt > CURSOR_TTL) {
+    cursor = new MergeCursor(params, fetchPage);
+    cursors.set(key, cursor);
+  }
+  return cursor.getPage(params.page, params.maxResults, options);
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import RateLimiter, { sleep } from './rateLimit';
+
+const headers = (remaining: number, resetSeconds: number, limit = 100) => new Headers({
+  'RateLimit-Limit': String(limit),
+  'RateLimit-Remaining': String(remaining),
+  'RateLimit-Reset': String(resetSeconds),
+});
+
+// Instante (ms desde o início do teste) em que cada acquire foi liberado
+const trackReleases = (limiter: RateLimiter, count: number, start: number) => {
+  const releases: number[] = [];
+  const done = Promise.all(Array.from({ length: count }, () =>
+    limiter.acquire('/products').then(wait => {
+      expect(wait).toBe(0);
+      releases.push(Date.now() - start);
+    })
+  ));
+  return { releases, done };
+};
+
+describe('RateLimiter.acquire', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('libera na hora sem headers ou com orçamento folgado', async () => {
+    const limiter = new RateLimiter();
+    expect(await limiter.acquire('/products')).toBe(0);
+
+    limiter.update('/products', headers(50, 60));
+    expect(await limiter.acquire('/products')).toBe(0);
+  });
+
+  it('espaça as requisições com orçamento baixo', async () => {
+    const limiter = new RateLimiter({ maxSpacing: 2 });
+    limiter.update('/products', headers(2, 10));
+    const start = Date.now();
+
+    const { releases, done } = trackReleases(limiter, 2, start);
+    await vi.runAllTimersAsync();
+    await done;
+
+    expect(releases).toEqual([0, 2000]);
+  });
+
+  it('com o orçamento esgotado, a fila sai espaçada a partir do reset', async () => {
+    const limiter = new RateLimiter({ maxSpacing: 2 });
+    limiter.update('/products', headers(0, 5));
+    const start = Date.now();
+
+    const { releases, done } = trackReleases(limiter, 3, start);
+    await vi.runAllTimersAsync();
+    await done;
+
+    expect(releases).toEqual([5000, 7000, 9000]);
+  });
+
+  it('desiste quando a vez na fila passa de maxQueueWait', async () => {
+    const limiter = new RateLimiter({ maxQueueWait: 60 });
+    limiter.update('/products', headers(0, 120));
+
+    expect(await limiter.acquire('/products')).toBe(120_000);
+  });
+
+  it('limites de /auth e globais são independentes', async () => {
+    const limiter = new RateLimiter();
+    limiter.update('/auth/login', headers(0, 120));
+
+    expect(await limiter.acquire('/products')).toBe(0);
+    expect(limiter.getState('auth').remaining).toBe(0);
+  });
+
+  it('429 sem headers usa a espera padrão', () => {
+    const limiter = new RateLimiter({ defaultRetryAfter: 30 });
+
+    expect(limiter.handleTooManyRequests('/products', new Headers())).toBe(30_000);
+    expect(limiter.getState('global').remaining).toBe(0);
+  });
+});
+
+describe('sleep', () => {
+  it('rejeita com AbortError quando o sinal é abortado', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(60_000, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(sleep(10, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
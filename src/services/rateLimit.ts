@@ -0,0 +1,212 @@
+// Controle de Rate Limit - Leitura dos headers RateLimit-* e espera após 429
+// NOTA: Os headers só ficam visíveis se o backend os incluir em Access-Control-Expose-Headers
+
+// O backend aplica limites separados: /auth/* (mais restrito) e global
+export type RateLimitScope = 'auth' | 'global';
+
+export interface RateLimitState {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null; // Timestamp (ms) em que a janela é renovada
+}
+
+interface RateLimiterConfig {
+  lowBudgetRatio: number;    // Fração do limite considerada "orçamento baixo"
+  lowBudgetMin: number;      // Mínimo absoluto de requisições restantes considerado baixo
+  maxSpacing: number;        // Espaçamento máximo entre GETs com orçamento baixo
+  maxQueueWait: number;      // Espera máxima de uma requisição na fila antes de falhar
+  defaultRetryAfter: number; // Espera após 429 sem headers de reset
+}
+
+// Configurações padrão (em segundos, exceto as frações)
+const DEFAULT_CONFIG: RateLimiterConfig = {
+  lowBudgetRatio: 0.1,
+  lowBudgetMin: 5,
+  maxSpacing: 2,
+  maxQueueWait: 60,
+  defaultRetryAfter: 60,
+};
+
+type RateLimitListener = (scope: RateLimitScope, state: RateLimitState) => void;
+
+/**
+ * Espera `ms`; se o sinal for abortado antes, rejeita com o AbortError (o chamador desistiu da requisição)
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  const abortError = () => signal?.reason ?? new DOMException('Requisição cancelada', 'AbortError');
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+const parseHeaderNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Rastreia o orçamento de requisições informado pelo backend
+ * - GETs não urgentes são espaçados quando o orçamento fica baixo; quando zera, saem espaçados a partir do reset
+ * - Após 429, informa quanto tempo esperar para que o fetchApi tente de novo
+ */
+class RateLimiter {
+  private config: RateLimiterConfig;
+  private states: Record<RateLimitScope, RateLimitState>;
+  private nextSlot: Record<RateLimitScope, number>;
+  private listeners = new Set<RateLimitListener>();
+
+  constructor(config: Partial<RateLimiterConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.states = {
+      auth: { limit: null, remaining: null, resetAt: null },
+      global: { limit: null, remaining: null, resetAt: null },
+    };
+    this.nextSlot = { auth: 0, global: 0 };
+  }
+
+  /**
+   * Determina o escopo do limite a partir do endpoint
+   */
+  getScope(endpoint: string): RateLimitScope {
+    return endpoint.startsWith('/auth') ? 'auth' : 'global';
+  }
+
+  /**
+   * Converte RateLimit-Reset em timestamp
+   * O header pode vir como segundos restantes (padrão IETF) ou como epoch em segundos
+   */
+  private parseReset(headers: Headers): number | null {
+    const reset = parseHeaderNumber(headers.get('RateLimit-Reset'));
+    if (reset !== null) {
+      return reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+    }
+
+    const retryAfter = parseHeaderNumber(headers.get('Retry-After'));
+    if (retryAfter !== null) {
+      return Date.now() + retryAfter * 1000;
+    }
+
+    return null;
+  }
+
+  /**
+   * Atualiza o estado a partir dos headers de uma resposta
+   */
+  update(endpoint: string, headers: Headers): void {
+    const remaining = parseHeaderNumber(headers.get('RateLimit-Remaining'));
+    // Administradores não têm limite: sem headers, nada a fazer
+    if (remaining === null) return;
+
+    const scope = this.getScope(endpoint);
+    this.states[scope] = {
+      limit: parseHeaderNumber(headers.get('RateLimit-Limit')),
+      remaining,
+      resetAt: this.parseReset(headers),
+    };
+    this.notify(scope);
+  }
+
+  /**
+   * Registra um 429 e retorna quanto tempo (ms) esperar antes de tentar novamente
+   */
+  handleTooManyRequests(endpoint: string, headers: Headers): number {
+    const scope = this.getScope(endpoint);
+    const resetAt = this.parseReset(headers) ?? Date.now() + this.config.defaultRetryAfter * 1000;
+
+    this.states[scope] = {
+      ...this.states[scope],
+      remaining: 0,
+      resetAt,
+    };
+    this.notify(scope);
+
+    console.warn(`[RateLimit] 429 em ${endpoint} - aguardando ${Math.ceil((resetAt - Date.now()) / 1000)}s`);
+    return Math.max(resetAt - Date.now(), 0);
+  }
+
+  /**
+   * Aguarda a vez de um GET não urgente de acordo com o orçamento restante
+   * @param signal - Cancela a espera na fila (rejeita com AbortError)
+   * @returns 0 quando liberado, ou o tempo (ms) até a vez na fila se a espera exceder maxQueueWait
+   */
+  async acquire(endpoint: string, signal?: AbortSignal | null): Promise<number> {
+    const scope = this.getScope(endpoint);
+    const state = this.getState(scope);
+    const now = Date.now();
+
+    if (state.remaining === null || state.resetAt === null) return 0;
+
+    const untilReset = state.resetAt - now;
+    const exhausted = state.remaining <= 0;
+
+    const lowBudget = Math.max(
+      this.config.lowBudgetMin,
+      Math.ceil((state.limit ?? 0) * this.config.lowBudgetRatio)
+    );
+    if (!exhausted && state.remaining > lowBudget) return 0;
+
+    // Orçamento baixo: distribuir as requisições restantes até o reset
+    // Esgotado: a fila só anda a partir do reset, uma por vez (não disparar todas no mesmo instante)
+    const spacing = exhausted
+      ? this.config.maxSpacing * 1000
+      : Math.min(untilReset / state.remaining, this.config.maxSpacing * 1000);
+    const startAt = Math.max(exhausted ? state.resetAt : now, this.nextSlot[scope]);
+
+    // Espera longa demais: desistir sem ocupar a vaga
+    if (exhausted && startAt - now > this.config.maxQueueWait * 1000) return startAt - now;
+
+    this.nextSlot[scope] = startAt + spacing;
+
+    // Reserva otimista até a resposta trazer o valor real
+    this.states[scope] = { ...state, remaining: state.remaining - 1 };
+
+    if (startAt > now) {
+      await sleep(startAt - now, signal);
+    }
+    return 0;
+  }
+
+  /**
+   * Estado atual do escopo (janelas vencidas são consideradas renovadas)
+   */
+  getState(scope: RateLimitScope): RateLimitState {
+    const state = this.states[scope];
+    if (state.resetAt !== null && state.resetAt <= Date.now()) {
+      return { limit: state.limit, remaining: null, resetAt: null };
+    }
+    return state;
+  }
+
+  /**
+   * Inscreve um listener para mudanças de estado
+   * @returns Função para cancelar a inscrição
+   */
+  subscribe(listener: RateLimitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(scope: RateLimitScope): void {
+    const state = this.states[scope];
+    this.listeners.forEach(listener => listener(scope, state));
+  }
+}
+
+// Exporta instância singleton
+export const rateLimiter = new RateLimiter();
+
+// Exporta classe para testes ou customização
+export default RateLimiter;
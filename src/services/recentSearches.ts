@@ -0,0 +1,39 @@
+// Buscas recentes do usuário (salvas no navegador, usadas pela paleta de comandos e pela busca)
+
+const STORAGE_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 6;
+
+/**
+ * Buscas recentes, da mais nova para a mais antiga
+ */
+export function getRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Registra a busca no topo da lista (sem repetir termos iguais, ignorando maiúsculas)
+ */
+export function addRecentSearch(query: string): void {
+  const term = query.trim();
+  if (!term) return;
+
+  const recent = getRecentSearches().filter(item => item.toLowerCase() !== term.toLowerCase());
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([term, ...recent].slice(0, MAX_RECENT_SEARCHES)));
+  } catch (error) {
+    console.error('[Search] Erro ao salvar busca recente:', error);
+  }
+}
+
+export function clearRecentSearches(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Armazenamento indisponível: nada a limpar
+  }
+}
@@ -0,0 +1,178 @@
+// Agendador de Sessão - Renovação proativa do access token
+import { authApi } from './api';
+import { getTokenExpiration } from '../utils/jwt';
+
+interface SessionSchedulerConfig {
+  refreshMargin: number; // Antecedência em relação ao `exp` para renovar
+  retryDelay: number;    // Espera antes de tentar de novo após falha (dobra a cada falha seguida)
+  maxRetryDelay: number; // Teto da espera entre tentativas
+  minDelay: number;      // Intervalo mínimo entre agendamentos
+}
+
+// Configurações padrão (em segundos)
+const DEFAULT_CONFIG: SessionSchedulerConfig = {
+  refreshMargin: 60, // Mesma margem usada por isTokenExpired
+  retryDelay: 30,
+  maxRetryDelay: 300,
+  minDelay: 5,
+};
+
+/**
+ * Agenda a renovação do access token pouco antes de expirar (claim `exp`)
+ * - Pausa enquanto a aba está oculta (timers são estrangulados pelo navegador)
+ * - Ao voltar a ficar visível, renova imediatamente se o prazo já passou
+ * - Falhas (inclusive de rede/timeout) são re-tentadas com espera crescente até o token
+ *   expirar; depois disso o fluxo reativo de 401/403 do fetchApi assume (e força logout
+ *   se o refresh token morreu)
+ */
+class SessionScheduler {
+  private config: SessionSchedulerConfig;
+  private accessToken: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isRenewing = false;
+  private dueAt: number | null = null;
+  private failures = 0;
+
+  constructor(config: Partial<SessionSchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.handleVisibilityChange = this.handleVisibilityChange.bind(this);
+  }
+
+  /**
+   * Inicia (ou reinicia) o agendamento para o token informado
+   */
+  start(accessToken: string): void {
+    const isFirstStart = this.accessToken === null;
+    this.accessToken = accessToken;
+    this.failures = 0;
+
+    if (isFirstStart && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Interrompe o agendamento (logout)
+   */
+  stop(): void {
+    this.clearTimer();
+    this.accessToken = null;
+    this.dueAt = null;
+    this.failures = 0;
+
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /**
+   * Calcula o instante da próxima renovação e arma o timer
+   */
+  private schedule(delayOverride?: number): void {
+    this.clearTimer();
+    if (!this.accessToken) return;
+
+    const expiresAt = getTokenExpiration(this.accessToken);
+    if (expiresAt === null) {
+      console.warn('[Session] Token sem claim exp - renovação proativa desativada');
+      return;
+    }
+
+    const delay = delayOverride ?? expiresAt - this.config.refreshMargin * 1000 - Date.now();
+    this.dueAt = Date.now() + Math.max(delay, 0);
+
+    // Aba oculta: apenas registra o prazo, o timer é armado ao voltar
+    if (this.isHidden()) return;
+
+    if (delay <= 0) {
+      void this.renew();
+      return;
+    }
+
+    console.log(`[Session] Renovação agendada em ${Math.round(delay / 1000)}s`);
+    this.timer = setTimeout(() => {
+      void this.renew();
+    }, Math.max(delay, this.config.minDelay * 1000));
+  }
+
+  private async renew(): Promise<void> {
+    if (this.isRenewing || !this.accessToken) return;
+    this.isRenewing = true;
+    this.clearTimer();
+
+    let newToken: string | null = null;
+    try {
+      // authApi.refresh compartilha a mesma requisição com o fluxo reativo do fetchApi
+      const result = await authApi.refresh();
+      newToken = result?.accessToken ?? null;
+    } catch (error) {
+      // Rede lenta ou fora do ar: tratado como falha e re-tentado abaixo
+      console.warn('[Session] Erro ao renovar o token:', error);
+    } finally {
+      this.isRenewing = false;
+    }
+
+    // stop() chamado durante a renovação (logout)
+    if (!this.accessToken) return;
+
+    if (newToken) {
+      // O AuthContext também recebe o novo token via setTokenRefreshedCallback
+      this.accessToken = newToken;
+      this.failures = 0;
+      this.schedule();
+    } else {
+      this.scheduleRetry();
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (!this.accessToken) return;
+
+    const expiresAt = getTokenExpiration(this.accessToken);
+    if (expiresAt === null || Date.now() >= expiresAt) {
+      console.warn('[Session] Não foi possível renovar antes da expiração');
+      this.clearTimer();
+      return;
+    }
+
+    this.failures++;
+    const retryDelay = Math.min(this.config.retryDelay * 2 ** (this.failures - 1), this.config.maxRetryDelay);
+    console.warn(`[Session] Falha ao renovar, nova tentativa em ${retryDelay}s`);
+    this.schedule(retryDelay * 1000);
+  }
+
+  private handleVisibilityChange(): void {
+    if (!this.accessToken) return;
+
+    if (this.isHidden()) {
+      this.clearTimer();
+      return;
+    }
+
+    // Aba visível novamente: recuperar o atraso ou re-agendar
+    if (this.dueAt !== null && Date.now() >= this.dueAt) {
+      void this.renew();
+    } else {
+      this.schedule();
+    }
+  }
+
+  private isHidden(): boolean {
+    return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Exporta instância singleton
+export const sessionScheduler = new SessionScheduler();
+
+// Exporta classe para testes ou customização
+export default SessionScheduler;
@@ -0,0 +1,276 @@
+/**
+ * Estimativa de frete por CEP
+ * - O endereço vem de um AddressProvider (padrão: ViaCEP, com a faixa de CEP do estado como reserva)
+ * - O valor vem de um ShippingRateProvider (padrão: tabela local por região e faixa de peso)
+ * - Os dois podem ser trocados com configureShipping (ex: API de uma transportadora)
+ */
+import { ApiError } from './errors';
+import { isAbortError } from './upload';
+
+export type BrazilRegion = 'norte' | 'nordeste' | 'centro-oeste' | 'sudeste' | 'sul';
+
+/** Zona de entrega: mesmo estado da loja ou a região do destino */
+export type ShippingZone = 'local' | BrazilRegion;
+
+export interface CepAddress {
+  /** Somente dígitos */
+  cep: string;
+  street?: string;
+  neighborhood?: string;
+  city?: string;
+  /** Sigla do estado (UF) */
+  state: string;
+}
+
+export interface ShippingParcel {
+  itemCount: number;
+}
+
+export interface ShippingQuote {
+  price: number;
+  /** Prazo em dias úteis [mínimo, máximo] */
+  days: [number, number];
+  /** Descrição da faixa de peso usada no cálculo */
+  weightLabel: string;
+}
+
+export interface ShippingEstimate extends ShippingQuote {
+  address: CepAddress;
+  zone: ShippingZone;
+}
+
+interface ProviderOptions {
+  signal?: AbortSignal;
+}
+
+export interface AddressProvider {
+  id: string;
+  lookup: (cep: string, options?: ProviderOptions) => Promise<CepAddress>;
+}
+
+export interface ShippingRateProvider {
+  id: string;
+  quote: (address: CepAddress, zone: ShippingZone, parcel: ShippingParcel, options?: ProviderOptions) => Promise<ShippingQuote>;
+}
+
+// ============= CEP =============
+
+/** Mantém só os dígitos (até 8) */
+export const normalizeCep = (value: string) => value.replace(/\D/g, '').slice(0, 8);
+
+/** 01310100 -> 01310-100 (parcial enquanto digita) */
+export function formatCep(value: string): string {
+  const digits = normalizeCep(value);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+}
+
+export const isValidCep = (value: string) => /^\d{8}$/.test(normalizeCep(value)) && !/^0+$/.test(normalizeCep(value));
+
+// ============= REGIÕES =============
+
+const STATE_REGIONS: Record<string, BrazilRegion> = {
+  AC: 'norte', AP: 'norte', AM: 'norte', PA: 'norte', RO: 'norte', RR: 'norte', TO: 'norte',
+  AL: 'nordeste', BA: 'nordeste', CE: 'nordeste', MA: 'nordeste', PB: 'nordeste',
+  PE: 'nordeste', PI: 'nordeste', RN: 'nordeste', SE: 'nordeste',
+  DF: 'centro-oeste', GO: 'centro-oeste', MT: 'centro-oeste', MS: 'centro-oeste',
+  ES: 'sudeste', MG: 'sudeste', RJ: 'sudeste', SP: 'sudeste',
+  PR: 'sul', RS: 'sul', SC: 'sul',
+};
+
+// Faixas de CEP (5 primeiros dígitos) de cada estado
+const CEP_RANGES: [from: number, to: number, state: string][] = [
+  [1000, 19999, 'SP'], [20000, 28999, 'RJ'], [29000, 29999, 'ES'], [30000, 39999, 'MG'],
+  [40000, 48999, 'BA'], [49000, 49999, 'SE'], [50000, 56999, 'PE'], [57000, 57999, 'AL'],
+  [58000, 58999, 'PB'], [59000, 59999, 'RN'], [60000, 63999, 'CE'], [64000, 64999, 'PI'],
+  [65000, 65999, 'MA'], [66000, 68899, 'PA'], [68900, 68999, 'AP'], [69000, 69299, 'AM'],
+  [69300, 69399, 'RR'], [69400, 69899, 'AM'], [69900, 69999, 'AC'], [70000, 72799, 'DF'],
+  [72800, 72999, 'GO'], [73000, 73699, 'DF'], [73700, 76799, 'GO'], [76800, 76999, 'RO'],
+  [77000, 77999, 'TO'], [78000, 78899, 'MT'], [79000, 79999, 'MS'], [80000, 87999, 'PR'],
+  [88000, 89999, 'SC'], [90000, 99999, 'RS'],
+];
+
+export function getStateByCep(cep: string): string | null {
+  const prefix = Number(normalizeCep(cep).slice(0, 5));
+  return CEP_RANGES.find(([from, to]) => prefix >= from && prefix <= to)?.[2] ?? null;
+}
+
+// ============= TABELA DE FRETE =============
+
+export interface ShippingRateTable {
+  /** Estado de onde a loja envia (zona "local") */
+  origin: string;
+  /** Peso estimado de cada peça, em gramas (a API não informa o peso dos produtos) */
+  itemWeight: number;
+  /** Faixas de peso em ordem crescente; a última vale para qualquer peso acima */
+  weightClasses: { id: string; label: string; maxGrams: number }[];
+  /** Preço por faixa de peso (mesma ordem de weightClasses) e prazo de cada zona */
+  zones: Record<ShippingZone, { prices: number[]; days: [number, number] }>;
+}
+
+export const DEFAULT_RATE_TABLE: ShippingRateTable = {
+  origin: 'SP',
+  itemWeight: 150,
+  weightClasses: [
+    { id: 'leve', label: 'até 300 g', maxGrams: 300 },
+    { id: 'medio', label: 'até 1 kg', maxGrams: 1000 },
+    { id: 'pesado', label: 'até 3 kg', maxGrams: 3000 },
+    { id: 'extra', label: 'acima de 3 kg', maxGrams: Infinity },
+  ],
+  zones: {
+    'local': { prices: [15, 20, 28, 38], days: [2, 4] },
+    'sudeste': { prices: [22, 28, 38, 52], days: [3, 6] },
+    'sul': { prices: [25, 32, 44, 60], days: [4, 7] },
+    'centro-oeste': { prices: [28, 36, 50, 68], days: [5, 8] },
+    'nordeste': { prices: [32, 42, 58, 80], days: [6, 10] },
+    'norte': { prices: [38, 50, 70, 95], days: [7, 12] },
+  },
+};
+
+/**
+ * Provider de frete a partir de uma tabela fixa (sem rede)
+ */
+export function createRateTableProvider(table: ShippingRateTable): ShippingRateProvider {
+  return {
+    id: 'rate-table',
+    quote: async (_address, zone, parcel) => {
+      const grams = Math.max(parcel.itemCount, 1) * table.itemWeight;
+      let classIndex = table.weightClasses.findIndex(weightClass => grams <= weightClass.maxGrams);
+      if (classIndex < 0) classIndex = table.weightClasses.length - 1;
+
+      const rate = table.zones[zone];
+      return {
+        price: rate.prices[Math.min(classIndex, rate.prices.length - 1)],
+        days: rate.days,
+        weightLabel: table.weightClasses[classIndex].label,
+      };
+    },
+  };
+}
+
+// ============= ENDEREÇO =============
+
+/** Só o estado, pela faixa do CEP (sem rede) */
+export const cepRangeAddressProvider: AddressProvider = {
+  id: 'cep-range',
+  lookup: async (cep) => {
+    const state = getStateByCep(cep);
+    if (!state) throw new ApiError('CEP não encontrado', 404);
+    return { cep: normalizeCep(cep), state };
+  },
+};
+
+interface ViaCepResponse {
+  erro?: boolean | string;
+  logradouro?: string;
+  bairro?: string;
+  localidade?: string;
+  uf?: string;
+}
+
+/**
+ * Endereço completo pelo ViaCEP; se o serviço estiver fora do ar, usa a faixa do CEP
+ */
+export const viaCepAddressProvider: AddressProvider = {
+  id: 'viacep',
+  lookup: async (cep, options = {}) => {
+    const digits = normalizeCep(cep);
+    let data: ViaCepResponse;
+    try {
+      const response = await fetch(`https://viacep.com.br/ws/${digits}/json/`, { signal: options.signal });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      data = await response.json();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('[Shipping] ViaCEP indisponível, usando a faixa do CEP:', error);
+      return cepRangeAddressProvider.lookup(digits, options);
+    }
+
+    if (data.erro || !data.uf) throw new ApiError('CEP não encontrado', 404);
+    return {
+      cep: digits,
+      street: data.logradouro || undefined,
+      neighborhood: data.bairro || undefined,
+      city: data.localidade || undefined,
+      state: data.uf,
+    };
+  },
+};
+
+// ============= CONFIGURAÇÃO =============
+
+const providers = {
+  address: viaCepAddressProvider,
+  rates: createRateTableProvider(DEFAULT_RATE_TABLE),
+  origin: DEFAULT_RATE_TABLE.origin,
+};
+
+/**
+ * Troca os providers de endereço e/ou de frete (e o estado de origem usado na zona "local")
+ */
+export function configureShipping(config: { address?: AddressProvider; rates?: ShippingRateProvider; origin?: string }): void {
+  if (config.address) providers.address = config.address;
+  if (config.rates) providers.rates = config.rates;
+  if (config.origin) providers.origin = config.origin;
+  addressCache.clear();
+}
+
+export function getShippingZone(state: string): ShippingZone {
+  if (state === providers.origin) return 'local';
+  return STATE_REGIONS[state] ?? 'norte';
+}
+
+// Endereços já consultados (mudar a quantidade da sacola não consulta o CEP de novo)
+const addressCache = new Map<string, CepAddress>();
+
+/**
+ * Estima o frete de um pacote para o CEP
+ * @throws ApiError 'validation' para CEP inválido e 'not-found' para CEP inexistente
+ */
+export async function estimateShipping(
+  cep: string,
+  parcel: ShippingParcel,
+  options: ProviderOptions = {}
+): Promise<ShippingEstimate> {
+  const digits = normalizeCep(cep);
+  if (!isValidCep(digits)) throw new ApiError('CEP inválido', 400);
+
+  let address = addressCache.get(digits);
+  if (!address) {
+    address = await providers.address.lookup(digits, options);
+    addressCache.set(digits, address);
+  }
+
+  const zone = getShippingZone(address.state);
+  const quote = await providers.rates.quote(address, zone, parcel, options);
+  return { ...quote, address, zone };
+}
+
+// ============= CEP SALVO =============
+
+const CEP_STORAGE_KEY = 'shipping_cep';
+
+/** Último CEP calculado (compartilhado entre a página do produto e a sacola) */
+export function getSavedCep(): string {
+  try {
+    return normalizeCep(localStorage.getItem(CEP_STORAGE_KEY) ?? '');
+  } catch {
+    return '';
+  }
+}
+
+export function saveCep(cep: string): void {
+  try {
+    if (cep) localStorage.setItem(CEP_STORAGE_KEY, normalizeCep(cep));
+    else localStorage.removeItem(CEP_STORAGE_KEY);
+  } catch (error) {
+    console.error('[Shipping] Erro ao salvar CEP:', error);
+  }
+}
+
+/** "São Paulo/SP", ou só o estado quando o provider não informa a cidade */
+export const formatAddressLocation = (address: CepAddress) =>
+  address.city ? `${address.city}/${address.state}` : address.state;
+
+/** "2 a 4 dias úteis" */
+export const formatDeliveryDays = ([min, max]: [number, number]) =>
+  min === max ? `${min} ${min === 1 ? 'dia útil' : 'dias úteis'}` : `${min} a ${max} dias úteis`;
@@ -0,0 +1,107 @@
+// Sacola de compras (salva no navegador, sobrevive a recarregar a página)
+// - Visitante e cada conta têm a sua sacola; ao entrar, a do visitante é somada à da conta
+// - Só neste navegador: a API não guarda sacolas, então a da conta não aparece em outros aparelhos
+//   e some se os dados do site forem apagados (sair da conta a mantém, sob a chave do usuário)
+// - Cada item guarda nome, preço e imagem do momento em que foi adicionado (a sacola abre sem buscar na API)
+
+import type { Product } from './api';
+
+const STORAGE_PREFIX = 'shopping_bag';
+const GUEST_OWNER = 'guest';
+
+export const MAX_ITEM_QUANTITY = 99;
+export const MAX_NOTE_LENGTH = 200;
+
+export interface BagItem {
+  productId: string;
+  name: string;
+  price: number;
+  image_url?: string;
+  quantity: number;
+  /** Observação do cliente para o item (cor, personalização etc.) */
+  note: string;
+}
+
+/**
+ * Chave da sacola no localStorage
+ * @param userId - Dono da sacola; null = visitante
+ */
+export const bagStorageKey = (userId: string | null) => `${STORAGE_PREFIX}:${userId ?? GUEST_OWNER}`;
+
+export const clampQuantity = (quantity: number) =>
+  Math.min(Math.max(Math.round(quantity) || 1, 1), MAX_ITEM_QUANTITY);
+
+const isBagItem = (value: unknown): value is BagItem =>
+  !!value && typeof value === 'object'
+  && typeof (value as BagItem).productId === 'string'
+  && typeof (value as BagItem).name === 'string'
+  && typeof (value as BagItem).quantity === 'number';
+
+export function createBagItem(product: Product, quantity = 1): BagItem {
+  return {
+    productId: product.id,
+    name: product.name,
+    price: Number(product.price) || 0,
+    image_url: product.image_url,
+    quantity: clampQuantity(quantity),
+    note: '',
+  };
+}
+
+export function loadBag(userId: string | null): BagItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(bagStorageKey(userId)) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(isBagItem).map(item => ({
+      ...item,
+      price: Number(item.price) || 0,
+      quantity: clampQuantity(item.quantity),
+      note: typeof item.note === 'string' ? item.note : '',
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export function saveBag(userId: string | null, items: BagItem[]): void {
+  try {
+    if (items.length === 0) {
+      localStorage.removeItem(bagStorageKey(userId));
+    } else {
+      localStorage.setItem(bagStorageKey(userId), JSON.stringify(items));
+    }
+  } catch (error) {
+    console.error('[Bag] Erro ao salvar sacola:', error);
+  }
+}
+
+/**
+ * Soma as sacolas: quantidades do mesmo produto são somadas (até o limite)
+ * e as observações diferentes são mantidas juntas
+ */
+export function mergeBags(target: BagItem[], source: BagItem[]): BagItem[] {
+  const merged = target.map(item => ({ ...item }));
+  source.forEach(item => {
+    const existing = merged.find(entry => entry.productId === item.productId);
+    if (!existing) {
+      merged.push({ ...item });
+      return;
+    }
+    existing.quantity = clampQuantity(existing.quantity + item.quantity);
+    if (item.note && item.note !== existing.note) {
+      existing.note = (existing.note ? `${existing.note} / ${item.note}` : item.note).slice(0, MAX_NOTE_LENGTH);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Passa a sacola do visitante para a sacola da conta neste navegador
+ * (chamado no login, antes de avisar as outras abas; nada é enviado à API)
+ */
+export function mergeGuestBag(userId: string): void {
+  const guestItems = loadBag(null);
+  if (guestItems.length === 0) return;
+  saveBag(userId, mergeBags(loadBag(userId), guestItems));
+  saveBag(null, []);
+}
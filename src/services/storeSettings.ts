@@ -0,0 +1,153 @@
+// Configurações da loja: contatos, textos das mensagens, destaques do produto e rodapé
+// Padrões do código, sobrescritos pelo .env (VITE_STORE_*) e depois pela API (/settings, editável no Admin)
+
+import { ApiError, isAbortError, settingsApi, type StoreSettings } from './api';
+import { sanitizeEmail, stripHtml, truncateString } from '../utils/sanitize';
+import { DEFAULT_MESSAGE_TEMPLATES, validateMessageTemplate, type MessageTemplateContext } from '../utils/messageTemplate';
+
+export const STORE_SETTINGS_LIMITS = {
+  maxText: 120,
+  maxTemplate: 1000,
+  maxListItems: 8,
+};
+
+const env = import.meta.env;
+
+/** Configuração sem a API: código + variáveis de ambiente */
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  store_name: env.VITE_STORE_NAME || 'Mel Colorindo a Vida',
+  whatsapp_phone: env.VITE_STORE_WHATSAPP || '5511997967401',
+  email: env.VITE_STORE_EMAIL || 'melcolorindo@gmail.com',
+  instagram: env.VITE_STORE_INSTAGRAM || 'mel_colorindo_a_vida',
+  messages: DEFAULT_MESSAGE_TEMPLATES,
+  product_features: ['Feito à mão', 'Cores vibrantes', 'Peça única', 'Envio rápido'],
+  footer: {
+    lines: ['Acessórios encantados e divertidos 🌈', 'Feitos à mão com amor no Brasil 🇧🇷'],
+    dedication: 'para a Mel.',
+  },
+};
+
+export type StoreSettingsErrors = Partial<Record<'store_name' | 'whatsapp_phone' | 'email' | 'instagram', string>>;
+
+const phoneDigits = (value: string) => value.replace(/\D/g, '');
+
+// Aceita "@usuario", "usuario" ou o link do perfil
+export const normalizeInstagram = (value: string) =>
+  value.trim().replace(/^(https?:\/\/)?(www\.)?instagram\.com\//i, '').replace(/^@/, '').replace(/\/.*$/, '');
+
+const isValidPhone = (digits: string) => digits.length >= 12 && digits.length <= 13;
+const isValidInstagram = (handle: string) => /^[\w.]{1,30}$/.test(handle);
+
+const cleanText = (value: unknown, fallback: string) => {
+  const text = typeof value === 'string' ? truncateString(stripHtml(value), STORE_SETTINGS_LIMITS.maxText) : '';
+  return text || fallback;
+};
+
+// Modelo inválido (ex: sem o campo obrigatório, ou salvo por versão antiga) fica com o de `fallback`
+const cleanTemplate = (value: unknown, context: MessageTemplateContext, fallback: string) => {
+  const template = typeof value === 'string' ? truncateString(stripHtml(value), STORE_SETTINGS_LIMITS.maxTemplate) : '';
+  return validateMessageTemplate(template, context) ? fallback : template;
+};
+
+const cleanList = (value: unknown, fallback: string[]) => {
+  if (!Array.isArray(value)) return fallback;
+  return value
+    .map(item => (typeof item === 'string' ? truncateString(stripHtml(item), STORE_SETTINGS_LIMITS.maxText) : ''))
+    .filter(Boolean)
+    .slice(0, STORE_SETTINGS_LIMITS.maxListItems);
+};
+
+/**
+ * Completa e limpa configurações parciais (resposta da API ou rascunho do Admin)
+ * Campos ausentes ou inválidos ficam com o valor de `base`
+ */
+export function normalizeStoreSettings(
+  settings: Partial<StoreSettings> | null | undefined,
+  base: StoreSettings = DEFAULT_STORE_SETTINGS
+): StoreSettings {
+  const input = settings ?? {};
+  const phone = typeof input.whatsapp_phone === 'string' ? phoneDigits(input.whatsapp_phone) : '';
+  const email = typeof input.email === 'string' ? sanitizeEmail(input.email) : '';
+  const instagram = typeof input.instagram === 'string' ? normalizeInstagram(input.instagram) : '';
+
+  return {
+    store_name: cleanText(input.store_name, base.store_name),
+    whatsapp_phone: isValidPhone(phone) ? phone : base.whatsapp_phone,
+    email: email || base.email,
+    instagram: isValidInstagram(instagram) ? instagram : base.instagram,
+    messages: {
+      product: cleanTemplate(input.messages?.product, 'product', base.messages.product),
+      bag: cleanTemplate(input.messages?.bag, 'bag', base.messages.bag),
+      custom_order: cleanTemplate(input.messages?.custom_order, 'custom_order', base.messages.custom_order),
+    },
+    product_features: cleanList(input.product_features, base.product_features),
+    footer: {
+      lines: cleanList(input.footer?.lines, base.footer.lines),
+      dedication: cleanText(input.footer?.dedication, base.footer.dedication),
+    },
+  };
+}
+
+/**
+ * Valida os campos de contato do formulário do Admin
+ * @returns Erros por campo (vazio = pode salvar)
+ */
+export function validateStoreSettings(settings: StoreSettings): StoreSettingsErrors {
+  const errors: StoreSettingsErrors = {};
+  if (!stripHtml(settings.store_name)) errors.store_name = 'Informe o nome da loja';
+  if (!isValidPhone(phoneDigits(settings.whatsapp_phone))) {
+    errors.whatsapp_phone = 'Use DDI + DDD + número (ex: 5511999999999)';
+  }
+  if (!sanitizeEmail(settings.email)) errors.email = 'Informe um email válido';
+  if (!isValidInstagram(normalizeInstagram(settings.instagram))) errors.instagram = 'Informe o usuário do Instagram';
+  return errors;
+}
+
+/** 5511997967401 -> +55 (11) 99796-7401 */
+export function formatPhone(phone: string): string {
+  const match = phone.match(/^(\d{2})(\d{2})(\d{4,5})(\d{4})$/);
+  return match ? `+${match[1]} (${match[2]}) ${match[3]}-${match[4]}` : phone;
+}
+
+export const getInstagramUrl = (handle: string) => `https://instagram.com/${handle}`;
+
+// ============ Estado atual ============
+
+type StoreSettingsListener = (settings: StoreSettings) => void;
+
+let currentSettings = DEFAULT_STORE_SETTINGS;
+const listeners = new Set<StoreSettingsListener>();
+
+/** Configurações em uso (fora de componentes; nos componentes, useStoreSettings) */
+export const getStoreSettings = (): StoreSettings => currentSettings;
+
+/**
+ * Aplica novas configurações (resposta da API ou salvas pelo Admin) e avisa os inscritos
+ */
+export function setStoreSettings(settings: Partial<StoreSettings>): void {
+  const next = normalizeStoreSettings(settings);
+  if (JSON.stringify(next) === JSON.stringify(currentSettings)) return;
+  currentSettings = next;
+  listeners.forEach(listener => listener(next));
+}
+
+export function subscribeStoreSettings(listener: StoreSettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Carrega as configurações da API; sem a rota (ou fora do ar), continuam os padrões
+ */
+export async function loadStoreSettings(): Promise<void> {
+  try {
+    const settings = await settingsApi.get(true, { onRevalidate: setStoreSettings });
+    setStoreSettings(settings);
+  } catch (error) {
+    if (isAbortError(error)) return;
+    if (error instanceof ApiError && error.kind === 'not-found') return;
+    console.warn('[StoreSettings] Usando configurações padrão:', error);
+  }
+}
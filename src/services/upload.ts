@@ -0,0 +1,96 @@
+// Upload com progresso - Transporte XHR usado pelo fetchApi quando há onUploadProgress
+// (fetch não expõe progresso de envio)
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number; // 0 a 100
+}
+
+// Opções de upload aceitas pelos métodos multipart do productsApi
+export interface UploadRequestOptions {
+  onUploadProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Converte os headers brutos do XHR em um objeto Headers
+ */
+function parseXhrHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+}
+
+/**
+ * Envia a requisição via XMLHttpRequest reportando o progresso do upload
+ * Retorna um Response para que o restante do pipeline (401, 429, erros, cache) seja o mesmo do fetch
+ */
+export function sendWithProgress(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (progress: UploadProgress) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const signal = init.signal;
+
+    const handleAbort = () => xhr.abort();
+    if (signal) {
+      if (signal.aborted) {
+        reject(new DOMException('Upload cancelado', 'AbortError'));
+        return;
+      }
+      signal.addEventListener('abort', handleAbort, { once: true });
+    }
+    const cleanup = () => signal?.removeEventListener('abort', handleAbort);
+
+    xhr.open(init.method || 'POST', url);
+    new Headers(init.headers).forEach((value, key) => xhr.setRequestHeader(key, value));
+    xhr.responseType = 'blob';
+
+    xhr.upload.onprogress = (e: ProgressEvent) => {
+      if (!e.lengthComputable) return;
+      onUploadProgress({
+        loaded: e.loaded,
+        total: e.total,
+        percent: Math.round((e.loaded / e.total) * 100),
+      });
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      // Status sem corpo (ex: 204) não aceitam body no construtor de Response
+      const hasBody = ![101, 204, 205, 304].includes(xhr.status);
+      resolve(new Response(hasBody ? xhr.response : null, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseXhrHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Falha de rede durante o upload'));
+    };
+
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('Upload cancelado', 'AbortError'));
+    };
+
+    xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined);
+  });
+}
+
+/**
+ * Verifica se o erro veio de um cancelamento (AbortController)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -0,0 +1,38 @@
+// Geometria do recorte quadrado (compartilhada entre o cropper e o worker de imagens)
+
+// Recorte quadrado em coordenadas normalizadas (0 a 1) da imagem já orientada
+export interface CropArea {
+  x: number;    // Borda esquerda, relativa à largura
+  y: number;    // Borda superior, relativa à altura
+  size: number; // Lado do quadrado, relativo ao menor lado da imagem
+}
+
+// Menor recorte permitido (fração do menor lado)
+export const MIN_CROP_SIZE = 0.2;
+
+/**
+ * Recorte quadrado centralizado (ponto de partida do cropper e padrão sem ajuste)
+ */
+export function getCenteredCrop(width: number, height: number): CropArea {
+  const side = Math.min(width, height);
+  return {
+    x: (width - side) / 2 / width,
+    y: (height - side) / 2 / height,
+    size: 1,
+  };
+}
+
+/**
+ * Mantém o recorte dentro da imagem
+ */
+export function clampCrop(crop: CropArea, width: number, height: number): CropArea {
+  const size = Math.min(Math.max(crop.size, MIN_CROP_SIZE), 1);
+  const side = Math.min(width, height) * size;
+  const maxX = (width - side) / width;
+  const maxY = (height - side) / height;
+  return {
+    x: Math.min(Math.max(crop.x, 0), maxX),
+    y: Math.min(Math.max(crop.y, 0), maxY),
+    size,
+  };
+}
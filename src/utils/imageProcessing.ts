@@ -0,0 +1,126 @@
+// Pipeline de imagens no navegador - Corrige orientação, recorta, redimensiona e comprime antes do upload
+// O processamento pesado roda em um Web Worker para não travar os modais do admin
+import type { CropArea } from './imageCrop';
+
+export type { CropArea } from './imageCrop';
+
+export interface ImageProcessingOptions {
+  maxDimension: number;            // Lado máximo da imagem final (px)
+  targetBytes: number;             // Tamanho alvo do arquivo final
+  minQuality: number;              // Qualidade mínima aceita na busca pelo tamanho alvo
+  maxQuality: number;              // Qualidade inicial
+  preferredType: 'image/webp' | 'image/jpeg';
+}
+
+// Configurações padrão
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxDimension: 1200,
+  targetBytes: 300 * 1024,
+  minQuality: 0.5,
+  maxQuality: 0.9,
+  preferredType: 'image/webp',
+};
+
+// Mensagens trocadas com o worker
+export interface ImageWorkerRequest {
+  id: number;
+  file: Blob;
+  crop: CropArea | null;
+  options: ImageProcessingOptions;
+}
+
+export type ImageWorkerResponse =
+  | { id: number; ok: true; blob: Blob; width: number; height: number }
+  | { id: number; ok: false; error: string };
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+}
+
+// Worker compartilhado: criado sob demanda
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, {
+  resolve: (response: ImageWorkerResponse) => void;
+  reject: (error: Error) => void;
+}>();
+
+const isSupported = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/imageProcessor.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (e: MessageEvent<ImageWorkerResponse>) => {
+      const request = pending.get(e.data.id);
+      if (request) {
+        pending.delete(e.data.id);
+        request.resolve(e.data);
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      console.error('[ImageProcessing] Erro no worker:', e.message);
+      pending.forEach(request => request.reject(new Error(e.message || 'Falha no processamento da imagem')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+/**
+ * Troca a extensão do nome do arquivo de acordo com o novo formato
+ */
+function renameForType(name: string, type: string): string {
+  const extension = type === 'image/webp' ? 'webp' : 'jpg';
+  const baseName = name.replace(/\.[^.]+$/, '') || 'imagem';
+  return `${baseName}.${extension}`;
+}
+
+/**
+ * Processa uma imagem antes do upload
+ * Sem suporte a Worker/OffscreenCanvas, devolve o arquivo original
+ * @param crop - Recorte escolhido pelo usuário (null = recorte quadrado centralizado)
+ */
+export async function processImage(
+  file: File,
+  crop: CropArea | null = null,
+  options: Partial<ImageProcessingOptions> = {}
+): Promise<ProcessedImage> {
+  if (!isSupported()) {
+    console.warn('[ImageProcessing] Navegador sem suporte a OffscreenCanvas - enviando imagem original');
+    return { file, width: 0, height: 0 };
+  }
+
+  const id = nextRequestId++;
+  const request: ImageWorkerRequest = {
+    id,
+    file,
+    crop,
+    options: { ...DEFAULT_IMAGE_OPTIONS, ...options },
+  };
+
+  const response = await new Promise<ImageWorkerResponse>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage(request);
+  });
+
+  if (!response.ok) {
+    throw new Error(response.error);
+  }
+
+  const processed = new File([response.blob], renameForType(file.name, response.blob.type), {
+    type: response.blob.type,
+    lastModified: Date.now(),
+  });
+
+  console.log(`[ImageProcessing] ${file.name}: ${Math.round(file.size / 1024)}KB → ${Math.round(processed.size / 1024)}KB`);
+  return { file: processed, width: response.width, height: response.height };
+}
@@ -0,0 +1,91 @@
+/**
+ * Utilitários de leitura de JWT no cliente
+ * NOTA: Apenas decodificam o payload, não validam a assinatura (backend é responsável)
+ */
+
+/**
+ * Decodifica payload do JWT de forma segura
+ * @param token - Token JWT
+ * @returns Payload decodificado ou null se inválido
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  try {
+    // Validação básica do formato JWT (3 partes separadas por ponto)
+    if (!token || typeof token !== 'string') {
+      return null;
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      console.warn('[Auth] Token JWT mal formado: número de partes inválido');
+      return null;
+    }
+
+    const base64Url = parts[1];
+    if (!base64Url || base64Url.length === 0) {
+      console.warn('[Auth] Token JWT mal formado: payload vazio');
+      return null;
+    }
+
+    // Substituir caracteres URL-safe
+    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+    
+    // Adicionar padding se necessário
+    const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+    
+    const jsonPayload = decodeURIComponent(
+      atob(padded)
+        .split('')
+        .map((c) => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
+        .join('')
+    );
+    
+    const payload = JSON.parse(jsonPayload);
+    
+    // Validação básica do payload
+    if (typeof payload !== 'object' || payload === null) {
+      console.warn('[Auth] Token JWT mal formado: payload não é um objeto');
+      return null;
+    }
+
+    return payload;
+  } catch (error) {
+    console.warn('[Auth] Erro ao decodificar token JWT:', error);
+    return null;
+  }
+}
+
+/**
+ * Obtém o instante de expiração do token (claim `exp`)
+ * @returns Timestamp em milissegundos ou null se ausente/inválido
+ */
+export function getTokenExpiration(token: string): number | null {
+  const payload = decodeJwtPayload(token);
+  if (!payload || typeof payload.exp !== 'number') {
+    return null;
+  }
+  return payload.exp * 1000;
+}
+
+/**
+ * Verifica se o token expirou
+ * @param marginMs - Margem de segurança antes do `exp` (padrão: 60 segundos)
+ */
+export function isTokenExpired(token: string, marginMs = 60000): boolean {
+  const expiresAt = getTokenExpiration(token);
+  if (expiresAt === null) {
+    return true;
+  }
+  return Date.now() >= expiresAt - marginMs;
+}
+
+/**
+ * Verifica se o payload do token concede acesso de administrador
+ */
+export function hasAdminRole(token: string): boolean {
+  const payload = decodeJwtPayload(token);
+  if (!payload) return false;
+  return payload.is_admin === true ||
+    payload.role === 'admin' ||
+    (Array.isArray(payload.roles) && payload.roles.includes('admin'));
+}
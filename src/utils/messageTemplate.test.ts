@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_MESSAGE_TEMPLATES,
+  MAX_MESSAGE_URL_LENGTH,
+  buildMessageUrl,
+  getMessageUrlLength,
+  renderTemplate,
+  truncateForUrl,
+  validateMessageTemplate,
+} from './messageTemplate';
+
+describe('renderTemplate', () => {
+  it('preenche os campos', () => {
+    expect(renderTemplate('Quero o {nome} - {preco}', { nome: 'Tiara', preco: 'R$ 39.90' }))
+      .toBe('Quero o Tiara - R$ 39.90');
+  });
+
+  it('remove linhas cujos campos ficaram todos vazios e junta as linhas em branco', () => {
+    const message = renderTemplate(DEFAULT_MESSAGE_TEMPLATES.product, {
+      nome: 'Tiara',
+      preco: 'R$ 39.90',
+      link: 'https://loja/produto/1',
+      cep: '',
+      frete: null,
+    });
+    expect(message).toBe('Olá! Tenho interesse no produto: Tiara - R$ 39.90\nhttps://loja/produto/1');
+  });
+
+  it('mantém a linha quando algum campo tem valor', () => {
+    expect(renderTemplate('Frete para {cep}: {frete}', { cep: '', frete: 'R$ 22.00' })).toBe('Frete para : R$ 22.00');
+  });
+
+  it('deixa campos desconhecidos como estão', () => {
+    expect(renderTemplate('{nome} {outro}', { nome: 'Tiara' })).toBe('Tiara {outro}');
+  });
+});
+
+describe('validateMessageTemplate', () => {
+  it('aceita os modelos padrão', () => {
+    expect(validateMessageTemplate(DEFAULT_MESSAGE_TEMPLATES.product, 'product')).toBeNull();
+    expect(validateMessageTemplate(DEFAULT_MESSAGE_TEMPLATES.bag, 'bag')).toBeNull();
+    expect(validateMessageTemplate(DEFAULT_MESSAGE_TEMPLATES.custom_order, 'custom_order')).toBeNull();
+  });
+
+  it('recusa modelo vazio, campo de outra mensagem e falta do campo obrigatório', () => {
+    expect(validateMessageTemplate('  ', 'product')).toBe('Escreva a mensagem');
+    expect(validateMessageTemplate('{nome} {itens}', 'product')).toBe('Campo desconhecido: {itens}');
+    expect(validateMessageTemplate('Meu pedido: {total}', 'bag')).toBe('Inclua {itens} na mensagem');
+  });
+});
+
+describe('truncateForUrl', () => {
+  it('não altera mensagens que cabem', () => {
+    expect(truncateForUrl('Olá!', 100)).toBe('Olá!');
+  });
+
+  it('corta com reticências dentro do limite codificado', () => {
+    const message = 'Olá, mundo! '.repeat(50);
+    const truncated = truncateForUrl(message, 120);
+
+    expect(truncated.endsWith('…')).toBe(true);
+    expect(encodeURIComponent(truncated).length).toBeLessThanOrEqual(120);
+    expect(message.startsWith(truncated.slice(0, -1))).toBe(true);
+  });
+
+  it('não parte emojis ao meio', () => {
+    const truncated = truncateForUrl('🌈'.repeat(40), 60);
+
+    expect(encodeURIComponent(truncated).length).toBeLessThanOrEqual(60);
+    expect(Array.from(truncated.slice(0, -1)).every(char => char === '🌈')).toBe(true);
+  });
+});
+
+describe('buildMessageUrl', () => {
+  it('usa ? ou & conforme a base', () => {
+    expect(buildMessageUrl('https://wa.me/5511999999999', 'text', 'Oi')).toBe('https://wa.me/5511999999999?text=Oi');
+    expect(buildMessageUrl('mailto:loja@exemplo.com?subject=Pedido', 'body', 'Oi'))
+      .toBe('mailto:loja@exemplo.com?subject=Pedido&body=Oi');
+  });
+
+  it('mantém o link inteiro dentro do limite, cortando a mensagem', () => {
+    const base = 'https://wa.me/5511999999999';
+    const message = `Olá! Gostaria de fazer um pedido:\n${'1x Tiara Arco-Íris = R$ 39.90\n'.repeat(100)}Total: R$ 3990.00`;
+
+    expect(getMessageUrlLength(base, 'text', message)).toBeGreaterThan(MAX_MESSAGE_URL_LENGTH);
+
+    const url = buildMessageUrl(base, 'text', message);
+    expect(url.length).toBeLessThanOrEqual(MAX_MESSAGE_URL_LENGTH);
+    // A parte cortada é o final: é por isso que o checkout confere antes se o pedido cabe
+    expect(decodeURIComponent(url.split('?text=')[1])).not.toContain('Total');
+  });
+});
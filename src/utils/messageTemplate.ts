@@ -0,0 +1,171 @@
+// Modelos das mensagens de contato, com campos entre chaves: "Olá! Quero o {nome} - {preco}"
+
+import type { StoreMessages } from '../services/api';
+
+export type MessageTemplateContext = keyof StoreMessages;
+
+export interface TemplatePlaceholder {
+  key: string;
+  description: string;
+}
+
+export type TemplateValues = Record<string, string | number | null | undefined>;
+
+/** Campos disponíveis em cada mensagem */
+export const MESSAGE_PLACEHOLDERS: Record<MessageTemplateContext, TemplatePlaceholder[]> = {
+  product: [
+    { key: 'nome', description: 'Nome do produto' },
+    { key: 'preco', description: 'Preço' },
+    { key: 'categoria', description: 'Categoria' },
+    { key: 'link', description: 'Link do produto' },
+    { key: 'cep', description: 'CEP do frete calculado' },
+    { key: 'frete', description: 'Cidade, valor e prazo do frete' },
+  ],
+  bag: [
+    { key: 'itens', description: 'Itens da sacola (quantidade, preço, observação e link)' },
+    { key: 'quantidade', description: 'Quantidade de itens' },
+    { key: 'subtotal', description: 'Soma dos itens' },
+    { key: 'cep', description: 'CEP do frete calculado' },
+    { key: 'frete', description: 'Cidade, valor e prazo do frete' },
+    { key: 'total', description: 'Total (com o frete, quando calculado)' },
+  ],
+  custom_order: [
+    { key: 'nome', description: 'Nome do cliente' },
+    { key: 'categoria', description: 'Tipo de produto' },
+    { key: 'quantidade', description: 'Quantidade de peças' },
+    { key: 'cores', description: 'Cores' },
+    { key: 'tema', description: 'Tema' },
+    { key: 'prazo', description: 'Para quando' },
+    { key: 'detalhes', description: 'Descrição do pedido' },
+    { key: 'imagens', description: 'Aviso das imagens de referência' },
+    { key: 'contato', description: 'Email e telefone do cliente' },
+  ],
+};
+
+// Sem estes campos a mensagem não diz o que está sendo pedido
+const REQUIRED_PLACEHOLDERS: Record<MessageTemplateContext, string[]> = {
+  product: ['nome'],
+  bag: ['itens'],
+  custom_order: ['categoria'],
+};
+
+export const DEFAULT_MESSAGE_TEMPLATES: StoreMessages = {
+  product: [
+    'Olá! Tenho interesse no produto: {nome} - {preco}',
+    '{link}',
+    '',
+    'Frete estimado para {cep}: {frete}',
+  ].join('\n'),
+  bag: [
+    'Olá! Gostaria de fazer um pedido:',
+    '',
+    '{itens}',
+    '',
+    'Subtotal: {subtotal} ({quantidade})',
+    'Frete estimado para {cep}: {frete}',
+    'Total: {total}',
+  ].join('\n'),
+  custom_order: [
+    'Olá! Gostaria de fazer um pedido especial:',
+    '',
+    'Produto: {categoria}',
+    'Quantidade: {quantidade}',
+    'Cores: {cores}',
+    'Tema: {tema}',
+    'Para quando: {prazo}',
+    '',
+    '{detalhes}',
+    '',
+    '{imagens}',
+    '',
+    '{nome} - {contato}',
+  ].join('\n'),
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/** Campos usados no modelo, sem repetição */
+export function getTemplatePlaceholders(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]))];
+}
+
+/**
+ * Preenche o modelo com os valores
+ * - Linhas cujos campos ficaram todos vazios são removidas (ex: frete não calculado)
+ * - Campos desconhecidos ficam como estão
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  const lines = template.split('\n').flatMap(line => {
+    let hasPlaceholder = false;
+    let hasValue = false;
+    const rendered = line.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+      if (!(key in values)) return match;
+      hasPlaceholder = true;
+      const value = values[key] == null ? '' : String(values[key]);
+      if (value) hasValue = true;
+      return value;
+    });
+    return hasPlaceholder && !hasValue ? [] : [rendered];
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Erro do modelo, ou null quando pode ser salvo
+ */
+export function validateMessageTemplate(template: string, context: MessageTemplateContext): string | null {
+  if (!template.trim()) return 'Escreva a mensagem';
+
+  const available = MESSAGE_PLACEHOLDERS[context].map(placeholder => placeholder.key);
+  const used = getTemplatePlaceholders(template);
+  const unknown = used.find(key => !available.includes(key));
+  if (unknown) return `Campo desconhecido: {${unknown}}`;
+
+  const missing = REQUIRED_PLACEHOLDERS[context].find(key => !used.includes(key));
+  if (missing) return `Inclua {${missing}} na mensagem`;
+
+  return null;
+}
+
+// ============ Tamanho do link ============
+
+/** Tamanho máximo seguro de um link com mensagem (navegadores e apps cortam ou recusam links maiores) */
+export const MAX_MESSAGE_URL_LENGTH = 2000;
+
+const ELLIPSIS = '…';
+
+const messagePrefix = (base: string, param: string) => `${base}${base.includes('?') ? '&' : '?'}${param}=`;
+
+/** Tamanho do link com a mensagem completa, sem cortes */
+export const getMessageUrlLength = (base: string, param: string, message: string) =>
+  messagePrefix(base, param).length + encodeURIComponent(message).length;
+
+/**
+ * Corta a mensagem para que, codificada na URL, ocupe no máximo `maxEncodedLength` caracteres
+ */
+export function truncateForUrl(message: string, maxEncodedLength: number): string {
+  if (encodeURIComponent(message).length <= maxEncodedLength) return message;
+
+  // Busca binária pelo maior trecho que cabe (por code point, sem partir emojis)
+  const chars = Array.from(message);
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (encodeURIComponent(chars.slice(0, mid).join('') + ELLIPSIS).length <= maxEncodedLength) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return chars.slice(0, low).join('').trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Link com a mensagem no parâmetro `param` (ex: wa.me ?text=, mailto ?body=), cortada para caber no limite
+ */
+export function buildMessageUrl(base: string, param: string, message: string): string {
+  const prefix = messagePrefix(base, param);
+  return prefix + encodeURIComponent(truncateForUrl(message, MAX_MESSAGE_URL_LENGTH - prefix.length));
+}
@@ -0,0 +1,137 @@
+/**
+ * Facetas do catálogo (preço, destaques, novidades) calculadas no navegador
+ * A API filtra apenas por categoria/subcategoria: com uma faceta ativa, a listagem
+ * e as contagens saem do catálogo completo
+ */
+import type { Product } from '../services/api';
+import type { FacetFilters, ProductFilterState } from '../hooks/useProductFilters';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FacetFilterState = Pick<ProductFilterState, 'category' | 'subcategories'> & FacetFilters;
+
+/** Faceta ignorada ao contar as opções dela mesma */
+type FacetKey = 'category' | 'subcategories' | 'price' | 'featured' | 'newIn';
+
+export interface PriceBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface PriceBounds {
+  min: number;
+  max: number;
+}
+
+export interface FacetCounts {
+  /** Resultados com todos os filtros aplicados */
+  total: number;
+  categories: Record<string, number>;
+  /** Resultados sem filtro de categoria */
+  allCategories: number;
+  subcategories: Record<string, number>;
+  featured: number;
+  newIn: Record<number, number>;
+  /** Resultados sem filtro de novidades */
+  allDates: number;
+  /** Histograma de preços dos resultados (ignorando a faixa de preço escolhida) */
+  priceBins: PriceBin[];
+}
+
+const isNewerThan = (product: Product, days: number, now: number): boolean => {
+  if (!product.created_at) return false;
+  const created = Date.parse(product.created_at);
+  return !Number.isNaN(created) && now - created <= days * DAY_MS;
+};
+
+const matches = (product: Product, filters: FacetFilterState, now: number, except?: FacetKey): boolean => {
+  if (except !== 'category' && filters.category && product.category !== filters.category) return false;
+  if (except !== 'subcategories' && filters.subcategories.length > 0
+    && !filters.subcategories.includes(product.subcategory ?? '')) return false;
+  if (except !== 'price') {
+    const price = Number(product.price || 0);
+    if (filters.priceMin !== null && price < filters.priceMin) return false;
+    if (filters.priceMax !== null && price > filters.priceMax) return false;
+  }
+  if (except !== 'featured' && filters.featuredOnly && !product.is_featured) return false;
+  if (except !== 'newIn' && filters.newInDays !== null && !isNewerThan(product, filters.newInDays, now)) return false;
+  return true;
+};
+
+/**
+ * Aplica categoria, subcategorias e facetas, preservando a ordem recebida
+ */
+export function filterProducts(products: Product[], filters: FacetFilterState, now: number): Product[] {
+  return products.filter(product => matches(product, filters, now));
+}
+
+/**
+ * Faixa de preço do catálogo (limites do controle deslizante), arredondada para reais inteiros
+ */
+export function getPriceBounds(products: Product[]): PriceBounds | null {
+  if (products.length === 0) return null;
+  const prices = products.map(p => Number(p.price || 0));
+  return { min: Math.floor(Math.min(...prices)), max: Math.ceil(Math.max(...prices)) };
+}
+
+function buildPriceBins(products: Product[], bounds: PriceBounds, binCount: number): PriceBin[] {
+  const width = Math.max((bounds.max - bounds.min) / binCount, 1);
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    from: bounds.min + i * width,
+    to: bounds.min + (i + 1) * width,
+    count: 0,
+  }));
+  products.forEach(product => {
+    const index = Math.floor((Number(product.price || 0) - bounds.min) / width);
+    bins[Math.min(Math.max(index, 0), binCount - 1)].count++;
+  });
+  return bins;
+}
+
+/**
+ * Contagens de cada opção considerando as demais facetas ativas
+ * (ex: a contagem de "Colares" respeita a faixa de preço, mas não a categoria escolhida)
+ */
+export function countFacets(
+  products: Product[],
+  filters: FacetFilterState,
+  bounds: PriceBounds,
+  now: number,
+  options: { newInDays: number[]; binCount?: number }
+): FacetCounts {
+  const counts: FacetCounts = {
+    total: 0,
+    categories: {},
+    allCategories: 0,
+    subcategories: {},
+    featured: 0,
+    newIn: Object.fromEntries(options.newInDays.map(days => [days, 0])),
+    allDates: 0,
+    priceBins: [],
+  };
+  const forPrice: Product[] = [];
+
+  products.forEach(product => {
+    if (matches(product, filters, now)) counts.total++;
+
+    if (matches(product, filters, now, 'category')) {
+      counts.allCategories++;
+      counts.categories[product.category] = (counts.categories[product.category] ?? 0) + 1;
+    }
+    if (product.subcategory && matches(product, filters, now, 'subcategories')) {
+      counts.subcategories[product.subcategory] = (counts.subcategories[product.subcategory] ?? 0) + 1;
+    }
+    if (product.is_featured && matches(product, filters, now, 'featured')) counts.featured++;
+    if (matches(product, filters, now, 'newIn')) {
+      counts.allDates++;
+      options.newInDays.forEach(days => {
+        if (isNewerThan(product, days, now)) counts.newIn[days]++;
+      });
+    }
+    if (matches(product, filters, now, 'price')) forPrice.push(product);
+  });
+
+  counts.priceBins = buildPriceBins(forPrice, bounds, options.binCount ?? 20);
+  return counts;
+}
@@ -23,6 +23,22 @@ export function sanitizeText(input: string): string {
     .trim();
 }
 
+/**
+ * Remove tags HTML e caracteres de controle, sem escapar entidades
+ * Para texto que sai do site como texto puro (mensagens de WhatsApp, email)
+ */
+export function stripHtml(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  return input
+    .replace(/<[^>]*>/g, '')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0009\u000B-\u001F\u007F]/g, '')
+    .trim();
+}
+
 /**
  * Valida e sanitiza email
  */
@@ -147,6 +163,7 @@ export function sanitizeObject<T extends Record<string, unknown>>(
 
 export default {
   sanitizeText,
+  stripHtml,
   sanitizeEmail,
   sanitizeUrl,
   truncateString,
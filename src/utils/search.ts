@@ -0,0 +1,219 @@
+/**
+ * Busca textual no catálogo (executada no navegador)
+ * - Ignora acentos e maiúsculas ("coracao" encontra "Coração")
+ * - Tolera erros de digitação proporcionais ao tamanho do termo
+ * - Ordena por relevância e devolve os trechos encontrados para destaque
+ */
+
+export interface SearchField<T> {
+  name: string;
+  get: (item: T) => string | null | undefined;
+  /** Peso do campo na pontuação (ex: nome pesa mais que descrição) */
+  weight: number;
+}
+
+/** Intervalo [início, fim) no texto original */
+export type MatchRange = [start: number, end: number];
+
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  /** Trechos encontrados por campo, em posições do texto original */
+  matches: Record<string, MatchRange[]>;
+}
+
+export interface SearchIndex<T> {
+  search: (query: string, limit?: number) => SearchResult<T>[];
+}
+
+interface Token {
+  text: string;
+  start: number; // posição no texto normalizado
+}
+
+interface IndexedText {
+  normalized: string;
+  /** Posição no texto original de cada caractere normalizado */
+  positions: number[];
+  tokens: Token[];
+}
+
+interface TermMatch {
+  quality: number;
+  start: number;
+  end: number;
+}
+
+const DIACRITICS = /[\u0300-\u036f]/g;
+const TOKEN = /[a-z0-9]+/g;
+
+// Qualidade de cada tipo de correspondência (multiplicada pelo peso do campo)
+const QUALITY = {
+  exact: 1,
+  prefix: 0.85,
+  substring: 0.6,
+  typo: 0.5,
+  typoPrefix: 0.4,
+};
+// Bônus quando a busca inteira aparece em sequência no campo
+const PHRASE_BONUS = 0.5;
+
+/**
+ * Remove acentos e converte para minúsculas
+ */
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(DIACRITICS, '').toLowerCase();
+
+// Erros de digitação tolerados conforme o tamanho do termo
+const maxTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * Distância de edição com transposição de vizinhos ("croacao" → "coracao" = 1)
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    // Nenhum caminho fica dentro do limite: parar cedo
+    if (rowMin > limit) return limit + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function indexText(text: string): IndexedText {
+  let normalized = '';
+  const positions: number[] = [];
+
+  // Normalização caractere a caractere para mapear os trechos de volta ao original
+  let offset = 0;
+  for (const char of text) {
+    const converted = normalizeText(char);
+    for (let i = 0; i < converted.length; i++) positions.push(offset);
+    normalized += converted;
+    offset += char.length;
+  }
+  positions.push(offset);
+
+  const tokens = Array.from(normalized.matchAll(TOKEN), match => ({ text: match[0], start: match.index }));
+  return { normalized, positions, tokens };
+}
+
+function matchTerm(term: string, tokens: Token[]): TermMatch | null {
+  const typos = maxTypos(term.length);
+  let best: TermMatch | null = null;
+  const consider = (quality: number, start: number, length: number) => {
+    if (!best || quality > best.quality) best = { quality, start, end: start + length };
+  };
+
+  for (const token of tokens) {
+    if (token.text === term) {
+      consider(QUALITY.exact, token.start, term.length);
+      break;
+    }
+    if (token.text.startsWith(term)) {
+      consider(QUALITY.prefix, token.start, term.length);
+      continue;
+    }
+    const index = term.length >= 3 ? token.text.indexOf(term) : -1;
+    if (index > 0) {
+      consider(QUALITY.substring, token.start + index, term.length);
+      continue;
+    }
+    if (typos === 0) continue;
+
+    if (editDistance(term, token.text, typos) <= typos) {
+      consider(QUALITY.typo, token.start, token.text.length);
+    } else if (token.text.length > term.length && editDistance(term, token.text.slice(0, term.length), typos) <= typos) {
+      // Termo ainda sendo digitado: comparar com o começo da palavra
+      consider(QUALITY.typoPrefix, token.start, term.length);
+    }
+  }
+  return best;
+}
+
+const toOriginalRange = (indexed: IndexedText, start: number, end: number): MatchRange =>
+  [indexed.positions[start], indexed.positions[end]];
+
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cria o índice de busca (os textos são normalizados uma única vez)
+ * Todos os termos da busca precisam aparecer em algum dos campos
+ */
+export function createSearchIndex<T>(items: T[], fields: SearchField<T>[]): SearchIndex<T> {
+  const entries = items.map(item => ({
+    item,
+    fields: fields.map(field => indexText(field.get(item) ?? '')),
+  }));
+
+  const search = (query: string, limit?: number): SearchResult<T>[] => {
+    const phrase = normalizeText(query).trim();
+    const terms = Array.from(new Set(phrase.match(TOKEN) ?? []));
+    if (terms.length === 0) return [];
+
+    const results: SearchResult<T>[] = [];
+
+    for (const entry of entries) {
+      let score = 0;
+      const ranges: MatchRange[][] = fields.map(() => []);
+
+      const matchedAll = terms.every(term => {
+        let bestScore = 0;
+        fields.forEach((field, i) => {
+          const match = matchTerm(term, entry.fields[i].tokens);
+          if (!match) return;
+          ranges[i].push(toOriginalRange(entry.fields[i], match.start, match.end));
+          bestScore = Math.max(bestScore, match.quality * field.weight);
+        });
+        score += bestScore;
+        return bestScore > 0;
+      });
+      if (!matchedAll) continue;
+
+      const matches: Record<string, MatchRange[]> = {};
+      fields.forEach((field, i) => {
+        const phraseIndex = terms.length > 1 ? entry.fields[i].normalized.indexOf(phrase) : -1;
+        if (phraseIndex >= 0) {
+          score += PHRASE_BONUS * field.weight;
+          ranges[i].push(toOriginalRange(entry.fields[i], phraseIndex, phraseIndex + phrase.length));
+        }
+        if (ranges[i].length > 0) matches[field.name] = mergeRanges(ranges[i]);
+      });
+
+      results.push({ item: entry.item, score, matches });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    return limit ? results.slice(0, limit) : results;
+  };
+
+  return { search };
+}
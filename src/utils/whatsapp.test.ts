@@ -0,0 +1,43 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { BagItem } from '../services/shoppingBag';
+import { buildBagOrderMessage, fitsWhatsAppLink } from './whatsapp';
+
+const item = (index: number, note = ''): BagItem => ({
+  productId: `produto-${index}`,
+  name: `Chaveiro Colorido ${index}`,
+  price: 12.5,
+  quantity: 2,
+  note,
+});
+
+describe('buildBagOrderMessage', () => {
+  beforeAll(() => {
+    vi.stubEnv('VITE_URL_PREFIX', 'https://loja.exemplo.com');
+  });
+
+  it('lista os itens completos com links e o total', () => {
+    const message = buildBagOrderMessage([item(1, 'Azul'), item(2)]);
+
+    expect(message).toContain('1. 2x Chaveiro Colorido 1');
+    expect(message).toContain('Obs.: Azul');
+    expect(message).toContain('https://loja.exemplo.com/produto/produto-2');
+    expect(message).toContain('Total: R$ 50.00');
+    expect(fitsWhatsAppLink(message)).toBe(true);
+  });
+
+  it('resume os itens quando a lista completa não cabe no link', () => {
+    const message = buildBagOrderMessage(Array.from({ length: 25 }, (_, i) => item(i + 1)));
+
+    expect(message).not.toContain('https://loja.exemplo.com/produto/');
+    expect(message).toContain('25. 2x Chaveiro Colorido 25 = R$ 25.00');
+    expect(message).toContain('Total: R$ 625.00');
+    expect(fitsWhatsAppLink(message)).toBe(true);
+  });
+
+  it('sinaliza quando nem os itens resumidos cabem (o checkout bloqueia o envio)', () => {
+    const message = buildBagOrderMessage(Array.from({ length: 80 }, (_, i) => item(i + 1, 'Com nome bordado')));
+
+    expect(message).toContain('Total: R$ 2000.00');
+    expect(fitsWhatsAppLink(message)).toBe(false);
+  });
+});
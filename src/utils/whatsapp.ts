@@ -0,0 +1,122 @@
+// Links e mensagens de pedido pelo WhatsApp da loja
+// Os textos vêm dos modelos editáveis no Admin (utils/messageTemplate)
+
+import type { Product } from '../services/api';
+import type { BagItem } from '../services/shoppingBag';
+import { formatAddressLocation, formatCep, formatDeliveryDays, type ShippingEstimate } from '../services/shipping';
+import { getStoreSettings } from '../services/storeSettings';
+import {
+  MAX_MESSAGE_URL_LENGTH,
+  buildMessageUrl,
+  getMessageUrlLength,
+  renderTemplate,
+  type TemplateValues,
+} from './messageTemplate';
+
+const formatPrice = (value: number) => `R$ ${Number(value || 0).toFixed(2)}`;
+
+const formatItemCount = (count: number) => `${count} ${count === 1 ? 'item' : 'itens'}`;
+
+/** Link público da página do produto (usado nas mensagens) */
+export function getProductUrl(productId: string): string {
+  const baseUrl = import.meta.env.VITE_URL_PREFIX || window.location.origin;
+  return `${baseUrl}/produto/${productId}`;
+}
+
+const getWhatsAppBase = () => `https://wa.me/${getStoreSettings().whatsapp_phone}`;
+
+/**
+ * Link da conversa com a loja; mensagens longas são cortadas para o link continuar abrindo
+ */
+export function getWhatsAppLink(message?: string): string {
+  const base = getWhatsAppBase();
+  return message ? buildMessageUrl(base, 'text', message) : base;
+}
+
+/** Tamanho do link com a mensagem inteira (acima de MAX_MESSAGE_URL_LENGTH, a mensagem é cortada) */
+export const getWhatsAppLinkLength = (message: string) =>
+  getMessageUrlLength(getWhatsAppBase(), 'text', message);
+
+export const fitsWhatsAppLink = (message: string) =>
+  getWhatsAppLinkLength(message) <= MAX_MESSAGE_URL_LENGTH;
+
+// Campos {cep} e {frete}: vazios enquanto o frete não foi calculado (a linha some da mensagem)
+const shippingValues = (shipping?: ShippingEstimate | null): TemplateValues => ({
+  cep: shipping ? formatCep(shipping.address.cep) : '',
+  frete: shipping
+    ? `${formatPrice(shipping.price)} - ${formatDeliveryDays(shipping.days)} (${formatAddressLocation(shipping.address)})`
+    : '',
+});
+
+/**
+ * Mensagem de interesse em um único produto
+ * @param shipping - Frete já calculado na página, incluído na mensagem
+ * @param template - Modelo a usar (padrão: o configurado; o Admin passa o rascunho para a prévia)
+ */
+export function buildProductMessage(
+  product: Pick<Product, 'id' | 'name' | 'price' | 'category'>,
+  shipping?: ShippingEstimate | null,
+  template = getStoreSettings().messages.product
+): string {
+  return renderTemplate(template, {
+    nome: product.name,
+    preco: formatPrice(product.price),
+    categoria: product.category,
+    link: getProductUrl(product.id),
+    ...shippingValues(shipping),
+  });
+}
+
+export function getProductWhatsAppLink(
+  product: Pick<Product, 'id' | 'name' | 'price' | 'category'>,
+  shipping?: ShippingEstimate | null
+): string {
+  return getWhatsAppLink(buildProductMessage(product, shipping));
+}
+
+export const getBagSubtotal = (items: BagItem[]) =>
+  items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+export const getBagItemCount = (items: BagItem[]) =>
+  items.reduce((sum, item) => sum + item.quantity, 0);
+
+// Item completo: quantidade, preço, observação e link
+const formatBagItem = (item: BagItem, index: number) => {
+  const itemLines = [
+    `${index + 1}. ${item.quantity}x ${item.name}`,
+    `   ${formatPrice(item.price)} cada = ${formatPrice(item.price * item.quantity)}`,
+  ];
+  if (item.note.trim()) itemLines.push(`   Obs.: ${item.note.trim()}`);
+  itemLines.push(`   ${getProductUrl(item.productId)}`);
+  return itemLines.join('\n');
+};
+
+// Item resumido, para sacolas grandes demais para o link: sem link e sem preço unitário
+const formatBagItemShort = (item: BagItem, index: number) =>
+  `${index + 1}. ${item.quantity}x ${item.name} = ${formatPrice(item.price * item.quantity)}`
+  + (item.note.trim() ? ` (${item.note.trim()})` : '');
+
+/**
+ * Mensagem do pedido com todos os itens da sacola e o total
+ * Quando a lista completa não cabe no link, os itens vão resumidos (sem os links dos produtos)
+ * Se nem assim couber, getWhatsAppLink cortaria o total: confira com fitsWhatsAppLink antes de enviar
+ * @param shipping - Frete estimado na sacola (somado ao total)
+ * @param template - Modelo a usar (padrão: o configurado)
+ */
+export function buildBagOrderMessage(
+  items: BagItem[],
+  shipping?: ShippingEstimate | null,
+  template = getStoreSettings().messages.bag
+): string {
+  const subtotal = getBagSubtotal(items);
+  const render = (itemList: string) => renderTemplate(template, {
+    itens: itemList,
+    quantidade: formatItemCount(getBagItemCount(items)),
+    subtotal: formatPrice(subtotal),
+    total: formatPrice(subtotal + (shipping?.price ?? 0)),
+    ...shippingValues(shipping),
+  });
+
+  const message = render(items.map(formatBagItem).join('\n\n'));
+  return fitsWhatsAppLink(message) ? message : render(items.map(formatBagItemShort).join('\n'));
+}
@@ -0,0 +1,89 @@
+// Web Worker do pipeline de imagens (ver utils/imageProcessing.ts)
+import { getCenteredCrop } from '../utils/imageCrop';
+import type { ImageProcessingOptions, ImageWorkerRequest, ImageWorkerResponse } from '../utils/imageProcessing';
+
+/**
+ * Desenha a imagem com a orientação EXIF corrigida
+ */
+async function loadOriented(file: Blob): Promise<OffscreenCanvas> {
+  // 'from-image': o próprio decodificador aplica a rotação EXIF (como o <img> da prévia do recorte)
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D indisponível');
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+/**
+ * Codifica no formato preferido buscando a maior qualidade dentro do tamanho alvo
+ * Navegadores sem encoder WebP devolvem PNG: nesse caso, usar JPEG
+ */
+async function encode(canvas: OffscreenCanvas, options: ImageProcessingOptions): Promise<Blob> {
+  let type: string = options.preferredType;
+  let best = await canvas.convertToBlob({ type, quality: options.maxQuality });
+  if (best.type !== type) {
+    type = 'image/jpeg';
+    best = await canvas.convertToBlob({ type, quality: options.maxQuality });
+  }
+  if (best.size <= options.targetBytes) return best;
+
+  // Busca binária pela qualidade
+  let low = options.minQuality;
+  let high = options.maxQuality;
+  let smallest = best;
+  for (let i = 0; i < 6; i++) {
+    const quality = (low + high) / 2;
+    const blob = await canvas.convertToBlob({ type, quality });
+    if (blob.size < smallest.size) smallest = blob;
+    if (blob.size <= options.targetBytes) {
+      best = blob;
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+
+  // Nem a qualidade mínima atingiu o alvo: usar o menor resultado obtido
+  return best.size <= options.targetBytes ? best : smallest;
+}
+
+async function processRequest({ file, crop, options }: ImageWorkerRequest) {
+  const source = await loadOriented(file);
+  const area = crop ?? getCenteredCrop(source.width, source.height);
+
+  const side = Math.round(Math.min(source.width, source.height) * Math.min(Math.max(area.size, 0), 1));
+  const sx = Math.min(Math.max(Math.round(area.x * source.width), 0), source.width - side);
+  const sy = Math.min(Math.max(Math.round(area.y * source.height), 0), source.height - side);
+  const outputSize = Math.min(side, options.maxDimension);
+
+  const output = new OffscreenCanvas(outputSize, outputSize);
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D indisponível');
+
+  // Fundo branco para PNGs transparentes convertidos em JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, outputSize, outputSize);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, sx, sy, side, side, 0, 0, outputSize, outputSize);
+
+  const blob = await encode(output, options);
+  return { blob, width: outputSize, height: outputSize };
+}
+
+self.onmessage = async (e: MessageEvent<ImageWorkerRequest>) => {
+  const { id } = e.data;
+  let response: ImageWorkerResponse;
+
+  try {
+    const result = await processRequest(e.data);
+    response = { id, ok: true, ...result };
+  } catch (error) {
+    response = { id, ok: false, error: error instanceof Error ? error.message : 'Falha no processamento da imagem' };
+  }
+
+  postMessage(response);
+};